@@ -0,0 +1,65 @@
+/**
+ * Stub config server for the http config source: serves a local config
+ * directory over the protocol http-config-source.ts expects.
+ *
+ * Usage: npm run config-stub [-- --dir <path>] [-- --port <port>]
+ *
+ * Then run the orchestrator with:
+ *   CONFIG_SOURCES=http CONFIG_HTTP_URL=http://localhost:4100
+ *
+ * Edits to the directory show up as new revisions, which the orchestrator
+ * picks up on its next poll. Set CONFIG_HTTP_TOKEN to require a bearer token.
+ */
+import { createHash } from "crypto";
+import * as path from "path";
+import { serve } from "@hono/node-server";
+import { Hono } from "hono";
+import type { ConfigFiles } from "../src/orchestrator/config-source.js";
+import { createLocalConfigSource } from "../src/orchestrator/local-config-source.js";
+
+function getArg(flag: string): string | undefined {
+  const flagIndex = process.argv.indexOf(flag);
+  return flagIndex !== -1 ? process.argv[flagIndex + 1] : undefined;
+}
+
+function revision(files: ConfigFiles): string {
+  const hash = createHash("sha256");
+  for (const name of Object.keys(files).sort()) {
+    hash.update(`${name}\0${files[name]}\0`);
+  }
+  return hash.digest("hex").slice(0, 16);
+}
+
+const dir = path.resolve(getArg("--dir") || "agent-configs");
+const port = parseInt(getArg("--port") || process.env.CONFIG_STUB_PORT || "4100", 10);
+const token = process.env.CONFIG_HTTP_TOKEN;
+const source = createLocalConfigSource(dir);
+
+const app = new Hono();
+
+app.use("*", async (c, next) => {
+  if (token && c.req.header("Authorization") !== `Bearer ${token}`) {
+    return c.json({ error: "Unauthorized" }, 401);
+  }
+  await next();
+});
+
+app.get("/configs", async (c) => {
+  const configs: Record<string, string> = {};
+  for (const configId of await source.list()) {
+    const fetched = await source.fetch(configId);
+    if (fetched) configs[configId] = revision(fetched.files);
+  }
+  return c.json({ configs });
+});
+
+app.get("/configs/:id", async (c) => {
+  const fetched = await source.fetch(c.req.param("id"));
+  if (!fetched) {
+    return c.json({ error: `Config not found: ${c.req.param("id")}` }, 404);
+  }
+  return c.json({ files: fetched.files });
+});
+
+serve({ fetch: app.fetch, port });
+console.log(`Config stub server on http://localhost:${port} serving ${dir}`);
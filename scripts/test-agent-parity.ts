@@ -0,0 +1,281 @@
+/**
+ * Parity test for the agent bundle's two entry points.
+ *
+ * Replays scripted SDK message sequences through processMessage and
+ * processMessageStream (with the SDK's query() swapped out) and checks
+ * both end the same way: the same response, metadata, usage and tools, or
+ * the same error code.
+ *
+ * Usage: npm run test:parity
+ */
+import type { Query, SDKMessage } from "@anthropic-ai/claude-agent-sdk";
+import {
+  processMessage,
+  processMessageStream,
+  setQueryImplementation,
+} from "../src/agent-bundle/agent.js";
+import { AppError } from "../src/shared/errors.js";
+
+/** One query() call: the messages it yields, then how it ends */
+interface ScriptedRun {
+  messages: unknown[];
+  /** "throw" fails the run after its messages; "hang" waits to be aborted */
+  end?: "throw" | "hang";
+}
+
+interface Scenario {
+  name: string;
+  /** One entry per query() call: the run, then any repairs */
+  runs: ScriptedRun[];
+  /** Abort the request this long after it starts */
+  abortAfterMs?: number;
+}
+
+/** How a request ended, comparable across both entry points */
+type Outcome =
+  | { ok: true; response: string; metadata: unknown; usage: unknown; toolsUsed: string[] }
+  | { ok: false; code: string };
+
+interface TestResult {
+  name: string;
+  passed: boolean;
+  details?: string;
+  error?: string;
+}
+
+const VALID_OUTPUT = {
+  response: "You can reset your password from the login page.",
+  metadata: {
+    confidence: "high",
+    guidesUsed: ["guides/password-reset.md"],
+    customerAnalysis: { emotionalState: "neutral", issuesIdentified: ["password reset"] },
+    flags: { list: [] },
+  },
+};
+
+const init = { type: "system", subtype: "init", session_id: "session-1" };
+
+const readGuide = {
+  type: "assistant",
+  message: {
+    id: "msg-1",
+    content: [
+      { type: "tool_use", id: "tool-1", name: "Read", input: { file_path: "guides/password-reset.md" } },
+    ],
+    usage: { input_tokens: 100, output_tokens: 20 },
+  },
+};
+
+const guideContent = {
+  type: "user",
+  message: {
+    content: [{ type: "tool_result", tool_use_id: "tool-1", content: "Reset it from the login page." }],
+  },
+};
+
+function success(structuredOutput: unknown) {
+  return {
+    type: "result",
+    subtype: "success",
+    structured_output: structuredOutput,
+    usage: { input_tokens: 150, output_tokens: 40 },
+    total_cost_usd: 0.002,
+  };
+}
+
+function failure(subtype: string, errors: string[] = []) {
+  return { type: "result", subtype, errors, usage: { input_tokens: 150, output_tokens: 40 } };
+}
+
+const SCENARIOS: Scenario[] = [
+  {
+    name: "Tool use then structured output",
+    runs: [{ messages: [init, readGuide, guideContent, success(VALID_OUTPUT)] }],
+  },
+  {
+    name: "Max turns reached",
+    runs: [{ messages: [init, readGuide, guideContent, failure("error_max_turns")] }],
+  },
+  {
+    name: "Execution error result",
+    runs: [{ messages: [init, failure("error_during_execution", ["tool crashed"])] }],
+  },
+  {
+    name: "Success without structured output",
+    runs: [{ messages: [init, success(undefined)] }],
+  },
+  {
+    name: "Run ends without a result",
+    runs: [{ messages: [init, readGuide] }],
+  },
+  {
+    name: "SDK throws mid-run",
+    runs: [{ messages: [init, readGuide], end: "throw" }],
+  },
+  {
+    name: "Invalid output repaired in the session",
+    runs: [
+      { messages: [init, success({ ...VALID_OUTPUT, metadata: { confidence: "certain" } })] },
+      { messages: [init, success(VALID_OUTPUT)] },
+    ],
+  },
+  {
+    name: "Output still invalid after repairs",
+    runs: [
+      { messages: [init, success({ response: 42 })] },
+      { messages: [init, success({ response: 42 })] },
+      { messages: [init, success({ response: 42 })] },
+    ],
+  },
+  {
+    name: "Cancelled mid-run",
+    runs: [{ messages: [init, readGuide], end: "hang" }],
+    abortAfterMs: 50,
+  },
+];
+
+/** A query() that replays the given runs, one per call */
+function scriptedQuery(runs: ScriptedRun[]): typeof import("@anthropic-ai/claude-agent-sdk").query {
+  const remaining = [...runs];
+  return ({ options }) => {
+    const run = remaining.shift() ?? { messages: [] };
+    const signal = options?.abortController?.signal;
+
+    async function* replay(): AsyncGenerator<SDKMessage, void> {
+      for (const message of run.messages) {
+        signal?.throwIfAborted();
+        yield message as SDKMessage;
+      }
+      if (run.end === "throw") {
+        throw new Error("Claude Code process exited with code 1");
+      }
+      if (run.end === "hang") {
+        await new Promise((_, reject) => {
+          signal?.addEventListener("abort", () => reject(new Error("aborted")), { once: true });
+        });
+      }
+    }
+    return replay() as unknown as Query;
+  };
+}
+
+function input(scenario: Scenario, entryPoint: string) {
+  const controller = new AbortController();
+  if (scenario.abortAfterMs !== undefined) {
+    setTimeout(() => controller.abort("client disconnected"), scenario.abortAfterMs);
+  }
+  return {
+    message: "How do I reset my password?",
+    requestId: `${entryPoint}-${scenario.name.toLowerCase().replace(/\W+/g, "-")}`,
+    signal: controller.signal,
+  };
+}
+
+async function runNonStreaming(scenario: Scenario): Promise<Outcome> {
+  setQueryImplementation(scriptedQuery(scenario.runs));
+  try {
+    const result = await processMessage(input(scenario, "process"));
+    return {
+      ok: true,
+      response: result.response,
+      metadata: result.metadata,
+      usage: result.usage,
+      toolsUsed: result.toolsUsed ?? [],
+    };
+  } catch (error) {
+    return { ok: false, code: error instanceof AppError ? error.code : "THROWN" };
+  }
+}
+
+async function runStreaming(scenario: Scenario): Promise<Outcome> {
+  setQueryImplementation(scriptedQuery(scenario.runs));
+  const toolsUsed: string[] = [];
+  let outcome: Outcome | undefined;
+  let chunksAfterEnd = 0;
+
+  try {
+    for await (const chunk of processMessageStream(input(scenario, "stream"))) {
+      if (outcome) chunksAfterEnd++;
+      if (chunk.type === "tool_start") toolsUsed.push(chunk.toolName);
+      if (chunk.type === "done") {
+        outcome = {
+          ok: true,
+          response: chunk.content,
+          metadata: chunk.metadata,
+          usage: chunk.usage,
+          toolsUsed,
+        };
+      }
+      if (chunk.type === "error") outcome = { ok: false, code: chunk.error.code };
+      if (chunk.type === "cancelled") outcome = { ok: false, code: "REQUEST_CANCELLED" };
+    }
+  } catch (error) {
+    return { ok: false, code: error instanceof AppError ? error.code : "THROWN" };
+  }
+
+  if (!outcome) return { ok: false, code: "NO_FINAL_CHUNK" };
+  if (chunksAfterEnd > 0) return { ok: false, code: "CHUNKS_AFTER_FINAL" };
+  return outcome;
+}
+
+function describe(outcome: Outcome): string {
+  return outcome.ok ? `done: "${outcome.response.slice(0, 40)}"` : outcome.code;
+}
+
+async function testScenario(scenario: Scenario): Promise<TestResult> {
+  const nonStreaming = await runNonStreaming(scenario);
+  const streaming = await runStreaming(scenario);
+  const passed = JSON.stringify(nonStreaming) === JSON.stringify(streaming);
+
+  return {
+    name: scenario.name,
+    passed,
+    details: describe(streaming),
+    ...(!passed && {
+      error: `process: ${JSON.stringify(nonStreaming)}\n    stream:  ${JSON.stringify(streaming)}`,
+    }),
+  };
+}
+
+async function main() {
+  console.log("=== Agent Parity Test — processMessage vs processMessageStream ===\n");
+
+  // Keep the agent's own logging out of the results
+  const log = { log: console.log, warn: console.warn, error: console.error };
+  const results: TestResult[] = [];
+  for (const scenario of SCENARIOS) {
+    console.log = console.warn = console.error = () => {};
+    try {
+      results.push(await testScenario(scenario));
+    } finally {
+      Object.assign(console, log);
+    }
+  }
+
+  printResults(results);
+
+  const failed = results.filter((r) => !r.passed).length;
+  process.exit(failed > 0 ? 1 : 0);
+}
+
+function printResults(results: TestResult[]) {
+  console.log("--- Results ---\n");
+  for (const r of results) {
+    const icon = r.passed ? "PASS" : "FAIL";
+    console.log(`  [${icon}] ${r.name}`);
+    if (r.details) {
+      console.log(`    ${r.details}`);
+    }
+    if (r.error) {
+      console.log(`    Error: ${r.error}`);
+    }
+  }
+
+  const passed = results.filter((r) => r.passed).length;
+  console.log(`\n  ${passed}/${results.length} tests passed\n`);
+}
+
+main().catch((err) => {
+  console.error("Test runner error:", err);
+  process.exit(1);
+});
@@ -75,7 +75,7 @@ async function testProcess(): Promise<TestResult> {
         details: [
           `Response length: ${(body.response as string).length} chars`,
           `Confidence: ${body.confidence || "N/A"}`,
-          `Timing: create=${body.timing?.sandboxCreate}ms write=${body.timing?.fileWrite}ms health=${body.timing?.healthPoll}ms agent=${body.timing?.agentProcess}ms total=${body.timing?.total}ms`,
+          `Timing: create=${body.timing?.sandboxCreate}ms write=${body.timing?.fileWrite}ms health=${body.timing?.healthPoll}ms agent=${body.timing?.agentProcess}ms total=${body.timing?.total}ms pooled=${body.timing?.pooled}`,
         ].join("\n    "),
       };
     }
@@ -0,0 +1,61 @@
+/**
+ * Validate every agent config the config source serves (all versions)
+ * against the agent-config.json schema, without starting the orchestrator.
+ * Agents are checked after inheritance; shared `_` configs on their own.
+ * Also checks that rollouts point at versions that exist.
+ *
+ * Usage: npm run validate:configs [-- <agentId|agentId@version> ...]
+ *
+ * Exits non-zero when any agent has errors. Warnings (unknown keys, unknown
+ * tool names, undeclared MCP servers) are printed but don't fail the run.
+ */
+import {
+  listConfigIds,
+  startConfigSource,
+  validateLoadedConfig,
+} from "../src/orchestrator/config-loader.js";
+import { isSharedConfig } from "../src/orchestrator/config-resolver.js";
+import { checkRolloutTargets } from "../src/orchestrator/config-versions.js";
+
+async function main() {
+  await startConfigSource();
+
+  const requested = process.argv.slice(2);
+  const configIds = requested.length > 0 ? requested : listConfigIds();
+
+  console.log(`=== Validating ${configIds.length} agent config(s) ===\n`);
+
+  let invalid = 0;
+  let warned = 0;
+
+  for (const configId of configIds) {
+    const { errors, warnings } = validateLoadedConfig(configId);
+    if (errors.length === 0 && !configId.includes("@") && !isSharedConfig(configId)) {
+      errors.push(...checkRolloutTargets(configId));
+    }
+    const icon = errors.length > 0 ? "FAIL" : warnings.length > 0 ? "WARN" : "OK";
+    console.log(`  [${icon}] ${configId}`);
+
+    for (const issue of errors) {
+      console.log(`    error:   ${issue.path}: ${issue.message}`);
+    }
+    for (const issue of warnings) {
+      console.log(`    warning: ${issue.path}: ${issue.message}`);
+    }
+
+    if (errors.length > 0) invalid++;
+    else if (warnings.length > 0) warned++;
+  }
+
+  console.log(
+    `\n  ${configIds.length - invalid}/${configIds.length} valid` +
+      (warned > 0 ? `, ${warned} with warnings` : "") +
+      "\n"
+  );
+  process.exit(invalid > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error("\nValidation failed:", err);
+  process.exit(1);
+});
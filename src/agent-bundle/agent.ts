@@ -1,16 +1,70 @@
-import { query, McpServerConfig } from "@anthropic-ai/claude-agent-sdk";
+import {
+  query,
+  McpServerConfig,
+  type CanUseTool,
+  type HookCallbackMatcher,
+  type Options,
+} from "@anthropic-ai/claude-agent-sdk";
 import * as fs from "fs";
 import * as path from "path";
 import { execSync } from "child_process";
-import { responseJsonSchema, AgentResponse, ResponseMetadata } from "./schema.js";
+import { ATTACHMENTS_DIR, attachmentDirFor, type AttachmentFile } from "../shared/attachments.js";
+import type { JsonSchema } from "../shared/json-schema.js";
+import {
+  buildResponseJsonSchema,
+  DEFAULT_REPAIR_ATTEMPTS,
+  validateAgentResponse,
+  type ExtendedAgentResponse,
+  type ExtendedResponseMetadata,
+  type OutputValidation,
+} from "../shared/response-schema.js";
+import { AppError, type ErrorBody } from "../shared/errors.js";
+import {
+  KNOWN_TOOLS,
+  validateAgentConfig,
+  type AgentConfig,
+  type ResponseConstraints,
+} from "../shared/agent-config.js";
+import {
+  describeResponseConstraints,
+  enforceResponseConstraints,
+  getEffectiveModalitySettings,
+  resolveModality,
+} from "../shared/modalities.js";
+import {
+  ALWAYS_ALLOWED_TOOLS,
+  evaluateToolCall,
+  type ToolDecision,
+} from "../shared/tool-policy.js";
+import { formatIssues, type ValidationIssue } from "../shared/validation.js";
+import {
+  applyInputGuardrails,
+  applyOutputGuardrails,
+  describeGuardrails,
+  redactPiiField,
+  restorePiiTokens,
+  type GuardedMessage,
+} from "./guardrails.js";
+import {
+  exportConversation,
+  getConversationSession,
+  recordTurn,
+  restoreConversation,
+  setConversationSession,
+} from "./conversations.js";
+import type { SessionTranscript } from "./session-transcript.js";
 
 // Debug logging - enable via AGENT_DEBUG=true environment variable
 const DEBUG = process.env.AGENT_DEBUG === "true";
 const debug = (...args: unknown[]) => DEBUG && console.log("[DEBUG]", ...args);
 
-// Session management for multi-turn conversations
-// Maps conversationId -> Claude Agent SDK session_id
-const activeSessions = new Map<string, string>();
+// The SDK's query(); the parity tests swap in scripted message sequences
+let runQuery: typeof query = query;
+
+/** Replace the SDK's query(), e.g. with one that replays scripted messages */
+export function setQueryImplementation(next: typeof query): void {
+  runQuery = next;
+}
 
 // Find Claude Code CLI executable path
 function findClaudeCodePath(): string | undefined {
@@ -68,44 +122,18 @@ function getClaudeCodePath(): string | undefined {
   return claudeCodePath;
 }
 
-// Per-modality runtime settings (extensible structure)
-interface ToolSettings {
-  allowedTools?: string[];
-  disabledTools?: string[];
-}
-
-interface McpSettingsOverride {
-  enabledServers?: string[];
-  disabledServers?: string[];
-}
-
-interface ModalityRuntimeSettings {
-  maxThinkingTokens?: number;
-  maxTurns?: number;
-  toolSettings?: ToolSettings;
-  mcpSettings?: McpSettingsOverride;
-}
-
-// Agent configuration loaded from agent-config.json (generated at deploy time)
-interface AgentConfig {
-  allowedTools: string[];
-  mcpServers: Record<string, McpServerConfig>;
-  additionalInstructions: string;
-  maxTurns: number;
-  // Per-modality overrides (extensible)
-  modalitySettings?: {
-    chat?: ModalityRuntimeSettings;
-    email?: ModalityRuntimeSettings;
-    voice?: ModalityRuntimeSettings;
-  };
-}
-
 export interface ProcessMessageInput {
   message: string;
   conversationId?: string;
   customerId?: string;
   metadata?: Record<string, unknown>;
   requestId: string;
+  /** Stored transcript to restore if this sandbox hasn't seen the conversation */
+  session?: SessionTranscript;
+  /** Files the orchestrator wrote into this sandbox for the message */
+  attachments?: AttachmentFile[];
+  /** Aborts the run, e.g. when the client disconnects */
+  signal?: AbortSignal;
 }
 
 export interface ProcessMessageResult {
@@ -119,7 +147,11 @@ export interface ProcessMessageResult {
     totalCostUsd: number;
   };
   /** Structured metadata from agent response */
-  metadata?: ResponseMetadata;
+  metadata?: ExtendedResponseMetadata;
+  /** Session transcript after this turn, for the orchestrator to persist */
+  session?: SessionTranscript;
+  /** Every tool permission decision, for the orchestrator's audit log */
+  toolAudit?: ToolDecision[];
 }
 
 // Load agent configuration from file
@@ -127,12 +159,27 @@ function loadAgentConfig(): AgentConfig {
   const configPath = path.join(process.cwd(), "agent-config.json");
 
   if (fs.existsSync(configPath)) {
+    let parsed: unknown;
     try {
-      const configContent = fs.readFileSync(configPath, "utf-8");
-      return JSON.parse(configContent);
+      parsed = JSON.parse(fs.readFileSync(configPath, "utf-8"));
     } catch (error) {
-      console.error("[Agent] Failed to parse agent-config.json:", error);
+      throw new AppError(
+        "CONFIG_INVALID",
+        `agent-config.json is not valid JSON: ${(error as Error).message}`,
+        { phase: "config", cause: error }
+      );
+    }
+
+    // Warnings (incl. the orchestrator's own keys) are reported by the orchestrator
+    const { errors } = validateAgentConfig(parsed);
+    if (errors.length > 0) {
+      console.error(`[Agent] Invalid agent-config.json:\n${formatIssues(errors)}`);
+      throw new AppError("CONFIG_INVALID", `agent-config.json is invalid:\n${formatIssues(errors)}`, {
+        phase: "config",
+        details: { errors },
+      });
     }
+    return parsed as AgentConfig;
   }
 
   // Default configuration if file doesn't exist
@@ -166,78 +213,257 @@ function getAgentConfig(): AgentConfig {
 
 // Effective settings after applying per-modality overrides
 interface EffectiveSettings {
+  /** Modality whose settings apply, after aliases and the unknown-modality policy */
+  modality?: string;
   maxTurns: number;
   maxThinkingTokens: number;
   allowedTools: string[];
   mcpServers: Record<string, McpServerConfig>;
+  responseConstraints: ResponseConstraints;
 }
 
 /**
- * Get effective settings for a specific modality
- * Applies modality-specific overrides to base config
+ * Get effective settings for a request's modality: the registry's
+ * defaults for it (shared/modalities.ts) under the agent's own
+ * modalitySettings. Throws INVALID_REQUEST when modalityPolicy rejects
+ * the modality.
  */
 function getEffectiveSettings(
   config: AgentConfig,
-  modality: string | undefined
+  requested: string | undefined
 ): EffectiveSettings {
-  const modalitySettings = modality
-    ? config.modalitySettings?.[modality as keyof NonNullable<AgentConfig["modalitySettings"]>]
-    : undefined;
-
-  // SDK settings with modality overrides (defaults based on modality type)
-  let maxTurns = config.maxTurns;
-  let maxThinkingTokens = 10000; // Default
-
-  if (modalitySettings) {
-    maxTurns = modalitySettings.maxTurns ?? maxTurns;
-    maxThinkingTokens = modalitySettings.maxThinkingTokens ?? maxThinkingTokens;
-  } else if (modality) {
-    // Apply sensible defaults when no explicit settings exist
-    switch (modality) {
-      case "chat":
-        maxThinkingTokens = 5000;
-        maxTurns = Math.min(maxTurns, 15);
-        break;
-      case "voice":
-        maxThinkingTokens = 5000;
-        maxTurns = Math.min(maxTurns, 10);
-        break;
-      // email uses full defaults (10000/20)
-    }
+  const { name: modality } = resolveModality(config, requested);
+  const settings = getEffectiveModalitySettings(config, modality);
+
+  return {
+    modality,
+    maxTurns: settings.maxTurns,
+    maxThinkingTokens: settings.maxThinkingTokens,
+    allowedTools: settings.allowedTools,
+    mcpServers: Object.fromEntries(
+      settings.mcpServers.map((name) => [name, config.mcpServers[name] as McpServerConfig])
+    ),
+    responseConstraints: settings.responseConstraints,
+  };
+}
+
+/**
+ * Claude Code's system prompt, with the agent's additional instructions,
+ * the modality's response constraints and guardrail notes appended
+ */
+function buildSystemPrompt(
+  config: AgentConfig,
+  effective: EffectiveSettings
+): { type: "preset"; preset: "claude_code"; append?: string } {
+  const append = [
+    config.additionalInstructions,
+    describeResponseConstraints(effective.responseConstraints),
+    describeGuardrails(config.guardrails),
+  ]
+    .filter(Boolean)
+    .join("\n\n");
+  return append
+    ? { type: "preset", preset: "claude_code", append }
+    : { type: "preset", preset: "claude_code" };
+}
+
+/** Apply the modality's maxLength to a final response, logging cuts */
+function constrainResponse(
+  requestId: string,
+  response: string,
+  effective: EffectiveSettings
+): string {
+  const constrained = enforceResponseConstraints(response, effective.responseConstraints);
+  if (constrained.truncated) {
+    console.warn(
+      `[${requestId}] Response of ${response.length} chars cut to the ${effective.modality} limit of ${effective.responseConstraints.maxLength}`
+    );
   }
+  return constrained.response;
+}
+
+/**
+ * Find the SDK session to resume for a conversation. When this sandbox has
+ * not served the conversation yet, restore the transcript the orchestrator
+ * sent along so `resume` still works.
+ */
+function resolveExistingSession(input: ProcessMessageInput): string | undefined {
+  const { conversationId, session } = input;
+  if (!conversationId) return undefined;
 
-  // Tool settings with modality overrides
-  let allowedTools = [...config.allowedTools];
-  if (modalitySettings?.toolSettings?.allowedTools) {
-    allowedTools = modalitySettings.toolSettings.allowedTools;
+  const existing = getConversationSession(conversationId);
+  if (existing) return existing;
+
+  if (session) {
+    restoreConversation(conversationId, session);
+    return session.sessionId;
   }
-  if (modalitySettings?.toolSettings?.disabledTools) {
-    const disabled = new Set(modalitySettings.toolSettings.disabledTools);
-    allowedTools = allowedTools.filter((t) => !disabled.has(t));
+  return undefined;
+}
+
+/**
+ * Record an answered turn and export the conversation's session with it.
+ */
+function completeTurn(
+  input: ProcessMessageInput,
+  toolsUsed: string[],
+  output: { response: string; metadata?: ExtendedResponseMetadata }
+): SessionTranscript | undefined {
+  const { conversationId } = input;
+  if (!conversationId) return undefined;
+
+  recordTurn(conversationId, {
+    requestId: input.requestId,
+    message: input.message,
+    ...(input.attachments?.length && {
+      attachments: input.attachments.map((a) => a.filename),
+    }),
+    response: output.response,
+    toolsUsed: [...toolsUsed],
+    metadata: output.metadata,
+    at: new Date().toISOString(),
+  });
+  return exportConversation(conversationId);
+}
+
+type Usage = NonNullable<ProcessMessageResult["usage"]>;
+
+/** A running request: its abort handle, usage and tool calls so far */
+interface InFlightRequest {
+  requestId: string;
+  controller: AbortController;
+  usage: Usage;
+  /** Assistant message ids already added to usage */
+  countedMessages: Set<string>;
+  /** Permission decisions, in order */
+  toolDecisions: ToolDecision[];
+  /** Allowed calls per tool, for toolPolicy.maxCallsPerTool */
+  toolCalls: Map<string, number>;
+  attachments: AttachmentFile[];
+  /** Paths of the attachments allowed Read calls opened */
+  attachmentsRead: Set<string>;
+}
+
+// In-flight requests by requestId, for POST /process/:requestId/cancel
+const inFlightRequests = new Map<string, InFlightRequest>();
+
+/**
+ * Register a request so it can be cancelled by id. The caller's signal
+ * (client disconnect) aborts it too.
+ */
+function beginRequest(input: ProcessMessageInput): InFlightRequest {
+  const controller = new AbortController();
+  const { signal } = input;
+  if (signal?.aborted) {
+    controller.abort(signal.reason);
+  } else {
+    signal?.addEventListener("abort", () => controller.abort(signal.reason), { once: true });
   }
 
-  // MCP settings with modality overrides
-  let mcpServers = { ...config.mcpServers };
-  if (modalitySettings?.mcpSettings?.enabledServers) {
-    const enabled = new Set(modalitySettings.mcpSettings.enabledServers);
-    mcpServers = Object.fromEntries(
-      Object.entries(mcpServers).filter(([name]) => enabled.has(name))
-    );
+  const request: InFlightRequest = {
+    requestId: input.requestId,
+    controller,
+    usage: { inputTokens: 0, outputTokens: 0, totalCostUsd: 0 },
+    countedMessages: new Set(),
+    toolDecisions: [],
+    toolCalls: new Map(),
+    attachments: input.attachments ?? [],
+    attachmentsRead: new Set(),
+  };
+  inFlightRequests.set(input.requestId, request);
+  return request;
+}
+
+/**
+ * Add an assistant message's token usage to the running total. The SDK can
+ * emit one message per content block, so each message id counts once.
+ * Cost is only known from the final result.
+ */
+function trackPartialUsage(
+  request: InFlightRequest,
+  message: { id: string; usage?: { input_tokens?: number; output_tokens?: number } }
+): void {
+  if (request.countedMessages.has(message.id)) return;
+  request.countedMessages.add(message.id);
+  request.usage.inputTokens += message.usage?.input_tokens || 0;
+  request.usage.outputTokens += message.usage?.output_tokens || 0;
+}
+
+function abortReason(request: InFlightRequest): string {
+  const reason = request.controller.signal.reason;
+  return typeof reason === "string" ? reason : "cancelled";
+}
+
+/**
+ * Abort an in-flight request. Returns its usage and tool decisions so far,
+ * or null when no request with that id is running.
+ */
+export function cancelRequest(
+  requestId: string,
+  reason: string = "cancelled"
+): { usage: Usage; toolAudit: ToolDecision[] } | null {
+  const request = inFlightRequests.get(requestId);
+  if (!request) return null;
+
+  request.controller.abort(reason);
+  return { usage: { ...request.usage }, toolAudit: [...request.toolDecisions] };
+}
+
+/**
+ * Map an SDK error result to a stable error code.
+ */
+function resultError(subtype: string, errors?: string[]): AppError {
+  let message = `Agent error: ${subtype}`;
+  if (errors && errors.length > 0) {
+    message += ` - ${errors.join(", ")}`;
   }
-  if (modalitySettings?.mcpSettings?.disabledServers) {
-    const disabled = new Set(modalitySettings.mcpSettings.disabledServers);
-    mcpServers = Object.fromEntries(
-      Object.entries(mcpServers).filter(([name]) => !disabled.has(name))
-    );
+
+  switch (subtype) {
+    case "error_max_turns":
+      return new AppError("AGENT_MAX_TURNS", message, { phase: "agent" });
+    case "error_max_structured_output_retries":
+      return new AppError("STRUCTURED_OUTPUT_MISSING", message, { phase: "agent" });
+    case "error_max_budget_usd":
+      return new AppError("AGENT_EXECUTION_FAILED", message, { phase: "agent", retryable: false });
+    default:
+      return new AppError("AGENT_EXECUTION_FAILED", message, { phase: "agent" });
   }
+}
 
-  return { maxTurns, maxThinkingTokens, allowedTools, mcpServers };
+function missingStructuredOutput(): AppError {
+  return new AppError(
+    "STRUCTURED_OUTPUT_MISSING",
+    "Agent finished without structured output",
+    { phase: "agent" }
+  );
 }
 
 /**
- * Build context string from metadata
+ * Wrap a failure thrown while running the agent; AppErrors pass through.
  */
-function buildContextString(input: ProcessMessageInput): string {
+function agentFailure(error: unknown): AppError {
+  if (error instanceof AppError) return error;
+  return new AppError(
+    "AGENT_EXECUTION_FAILED",
+    error instanceof Error ? error.message : "Unknown error",
+    { phase: "agent", cause: error }
+  );
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+/**
+ * Build context string from metadata. Customer details go through `redact`
+ * so they reach the model tokenised like the message.
+ */
+function buildContextString(
+  input: ProcessMessageInput,
+  redact: (text: string) => string
+): string {
   const { conversationId, customerId, metadata } = input;
   const contextParts: string[] = [];
 
@@ -245,18 +471,26 @@ function buildContextString(input: ProcessMessageInput): string {
     contextParts.push(`Conversation ID: ${conversationId}`);
   }
   if (customerId) {
-    contextParts.push(`Customer ID: ${customerId}`);
+    contextParts.push(`Customer ID: ${redact(customerId)}`);
   }
   if (metadata) {
     const customerEmail = metadata.customerEmail;
     const modality = metadata.modality;
     if (customerEmail) {
-      contextParts.push(`Customer Email: ${customerEmail}`);
+      contextParts.push(`Customer Email: ${redact(String(customerEmail))}`);
     }
     if (modality) {
       contextParts.push(`Channel: ${modality}`);
     }
   }
+  if (input.attachments?.length) {
+    contextParts.push(
+      "Attachments (read-only; use the Read tool to open them):",
+      ...input.attachments.map(
+        (a) => `- ${a.path} (${a.contentType}, ${formatBytes(a.size)})`
+      )
+    );
+  }
 
   return contextParts.length > 0
     ? `Context:\n${contextParts.join("\n")}\n\n`
@@ -264,186 +498,417 @@ function buildContextString(input: ProcessMessageInput): string {
 }
 
 /**
- * Process a message using the Claude Agent SDK (non-streaming)
- * Collects all responses and returns the final result
+ * Decide a tool call with allowedTools and the agent's toolPolicy, and
+ * record the decision (and the attachment it reads). A call is decided
+ * once: asking again returns the recorded decision.
  */
-export async function processMessage(
-  input: ProcessMessageInput
-): Promise<ProcessMessageResult> {
-  const { message, conversationId, requestId, metadata } = input;
-  const config = getAgentConfig();
-
-  // Get modality from metadata and apply per-modality settings
-  const modality = metadata?.modality as string | undefined;
-  const effective = getEffectiveSettings(config, modality);
-
-  // Check for existing session to resume for multi-turn conversations
-  const existingSessionId = conversationId
-    ? activeSessions.get(conversationId)
-    : undefined;
-
-  console.log(`[${requestId}] Starting agent processing with SDK...`, {
-    modality: modality || "default",
-    conversationId: conversationId || "none",
-    resumingSession: existingSessionId ? "yes" : "no",
-    maxTurns: effective.maxTurns,
-    maxThinkingTokens: effective.maxThinkingTokens,
-    allowedTools: effective.allowedTools.length,
+function decideToolCall(
+  config: AgentConfig,
+  effective: EffectiveSettings,
+  request: InFlightRequest,
+  toolName: string,
+  input: Record<string, unknown>,
+  toolUseId: string
+): ToolDecision {
+  const decided = request.toolDecisions.find((d) => d.toolUseId === toolUseId);
+  if (decided) return decided;
+
+  const { decision, reason, subject } = evaluateToolCall(toolName, input, {
+    policy: config.toolPolicy ?? {},
+    allowedTools: effective.allowedTools,
+    cwd: process.cwd(),
+    callCounts: request.toolCalls,
+    readOnlyDirs: [ATTACHMENTS_DIR],
+    // Only this request's attachments bypass allowedTools and the policy
+    readableDirs:
+      request.attachments.length > 0 ? [attachmentDirFor(request.requestId)] : [],
   });
+  const recorded: ToolDecision = {
+    toolName,
+    toolUseId,
+    decision,
+    reason,
+    ...(subject !== undefined && { subject }),
+    at: new Date().toISOString(),
+  };
+  request.toolDecisions.push(recorded);
 
-  const contextString = buildContextString(input);
-  const fullPrompt = contextString
-    ? `${contextString}Customer message:\n${message}`
-    : message;
+  if (decision === "allow") {
+    request.toolCalls.set(toolName, (request.toolCalls.get(toolName) ?? 0) + 1);
+    if (toolName === "Read" && request.attachments.some((a) => a.path === subject)) {
+      request.attachmentsRead.add(subject!);
+    }
+    debug(`[${request.requestId}] Tool allowed: ${toolName} (${reason})`);
+  } else {
+    console.warn(
+      `[${request.requestId}] Tool denied: ${toolName}${subject ? ` on ${subject}` : ""} (${reason})`
+    );
+  }
+  return recorded;
+}
 
-  const toolsUsed: string[] = [];
-  let responseText = "";
-  let usage = {
-    inputTokens: 0,
-    outputTokens: 0,
-    totalCostUsd: 0,
+/**
+ * PreToolUse hook enforcing the tool policy. Unlike canUseTool it runs for
+ * every call, including the read-only built-ins the SDK approves on its
+ * own and calls approved by project settings.
+ */
+function createToolPolicyHook(
+  config: AgentConfig,
+  effective: EffectiveSettings,
+  request: InFlightRequest
+): HookCallbackMatcher {
+  return {
+    hooks: [
+      async (hookInput) => {
+        if (hookInput.hook_event_name !== "PreToolUse") return {};
+        const { decision, reason } = decideToolCall(
+          config,
+          effective,
+          request,
+          hookInput.tool_name,
+          (hookInput.tool_input ?? {}) as Record<string, unknown>,
+          hookInput.tool_use_id
+        );
+        return {
+          hookSpecificOutput: {
+            hookEventName: "PreToolUse",
+            permissionDecision: decision,
+            permissionDecisionReason:
+              decision === "allow" ? reason : `Tool call denied by policy: ${reason}`,
+          },
+        };
+      },
+    ],
   };
+}
 
-  let structuredMetadata: ResponseMetadata | undefined;
+/**
+ * The SDK permission callback of a request: a fallback for calls the
+ * PreToolUse hook did not decide, with the same policy.
+ */
+function createToolPermissionCallback(
+  config: AgentConfig,
+  effective: EffectiveSettings,
+  request: InFlightRequest
+): CanUseTool {
+  return async (toolName, input, { toolUseID }) => {
+    const { decision, reason } = decideToolCall(
+      config,
+      effective,
+      request,
+      toolName,
+      input,
+      toolUseID
+    );
+    return decision === "allow"
+      ? { behavior: "allow", updatedInput: input }
+      : { behavior: "deny", message: `Tool call denied by policy: ${reason}` };
+  };
+}
 
-  try {
-    for await (const sdkMessage of query({
-      prompt: fullPrompt,
-      options: {
-        // Path to Claude Code CLI executable
-        pathToClaudeCodeExecutable: getClaudeCodePath(),
+/**
+ * Built-in tools allowedTools doesn't mention, hidden from the model. Read
+ * stays visible when the request has attachments; the tool policy hook
+ * limits it to them.
+ */
+function hiddenBuiltinTools(allowedTools: string[], hasAttachments: boolean): string[] {
+  const mentioned = new Set(allowedTools.map((tool) => tool.replace(/\(.*\)$/, "")));
+  if (hasAttachments) mentioned.add("Read");
+  return KNOWN_TOOLS.filter(
+    (tool) => !mentioned.has(tool) && !ALWAYS_ALLOWED_TOOLS.includes(tool)
+  );
+}
 
-        // No executable override — defaults to "node" (sandbox runs Node.js)
+/** File names of the request's attachments its allowed Read calls opened */
+function attachmentsUsed(request: InFlightRequest): string[] {
+  return request.attachments
+    .filter((a) => request.attachmentsRead.has(a.path))
+    .map((a) => a.filename);
+}
 
-        // CRITICAL: Load CLAUDE.md from project directory
-        settingSources: ["project"],
+/**
+ * SDK options shared by every query of a request: the run itself and any
+ * structured output repairs
+ */
+function buildQueryOptions(
+  config: AgentConfig,
+  effective: EffectiveSettings,
+  request: InFlightRequest,
+  schema: JsonSchema
+): Options {
+  return {
+    // Path to Claude Code CLI executable
+    pathToClaudeCodeExecutable: getClaudeCodePath(),
 
-        // Use Claude Code's system prompt with optional appended instructions
-        systemPrompt: config.additionalInstructions
-          ? {
-              type: "preset",
-              preset: "claude_code",
-              append: config.additionalInstructions,
-            }
-          : {
-              type: "preset",
-              preset: "claude_code",
-            },
+    // No executable override — defaults to "node" (sandbox runs Node.js)
 
-        // Tools with per-modality overrides
-        allowedTools: effective.allowedTools,
+    // CRITICAL: Load CLAUDE.md from project directory
+    settingSources: ["project"],
 
-        // MCP servers with per-modality overrides
-        mcpServers: effective.mcpServers,
+    // Use Claude Code's system prompt with the agent's instructions and
+    // the modality's response constraints appended
+    systemPrompt: buildSystemPrompt(config, effective),
 
-        // Container working directory (where CLAUDE.md and .claude/ are)
-        cwd: process.cwd(),
+    // Tools with per-modality overrides. Not passed as `allowedTools`,
+    // which would approve them without asking canUseTool
+    disallowedTools: hiddenBuiltinTools(effective.allowedTools, request.attachments.length > 0),
 
-        // Automated agent - bypass permission prompts
-        permissionMode: "bypassPermissions",
-        allowDangerouslySkipPermissions: true,
+    // MCP servers with per-modality overrides
+    mcpServers: effective.mcpServers,
 
-        // Limits with per-modality overrides
-        maxTurns: effective.maxTurns,
+    // Container working directory (where CLAUDE.md and .claude/ are)
+    cwd: process.cwd(),
 
-        // Enable extended thinking with per-modality limits
-        maxThinkingTokens: effective.maxThinkingTokens,
+    // Every tool call is decided by the tool policy in a PreToolUse hook;
+    // canUseTool only sees calls the hook left undecided
+    permissionMode: "default",
+    hooks: { PreToolUse: [createToolPolicyHook(config, effective, request)] },
+    canUseTool: createToolPermissionCallback(config, effective, request),
 
-        // Structured output format for reliable response/metadata separation
-        outputFormat: {
-          type: "json_schema",
-          schema: responseJsonSchema,
-        },
+    // Limits with per-modality overrides
+    maxTurns: effective.maxTurns,
 
-        // Resume existing session for multi-turn conversations
-        ...(existingSessionId && { resume: existingSessionId }),
-      },
-    })) {
-      // Capture session ID from init message for future turns
-      if (
-        sdkMessage.type === "system" &&
-        sdkMessage.subtype === "init" &&
-        conversationId &&
-        sdkMessage.session_id
-      ) {
-        activeSessions.set(conversationId, sdkMessage.session_id);
-        console.log(
-          `[${requestId}] Session started/resumed: ${sdkMessage.session_id}`
-        );
-      }
+    // Enable extended thinking with per-modality limits
+    maxThinkingTokens: effective.maxThinkingTokens,
 
-      // Track tool usage from assistant messages
-      if (sdkMessage.type === "assistant") {
-        for (const block of sdkMessage.message.content) {
-          if (block.type === "tool_use") {
-            toolsUsed.push(block.name);
-          }
-        }
-      }
+    // Structured output format for reliable response/metadata separation
+    outputFormat: { type: "json_schema", schema: { ...schema } },
 
-      // Capture final result with usage stats
-      if (sdkMessage.type === "result" && sdkMessage.subtype === "success") {
-        usage = {
-          inputTokens: sdkMessage.usage?.input_tokens || 0,
-          outputTokens: sdkMessage.usage?.output_tokens || 0,
-          totalCostUsd: sdkMessage.total_cost_usd || 0,
-        };
+    // Cancellation (client disconnect or POST /process/:requestId/cancel)
+    abortController: request.controller,
+  };
+}
 
-        if (sdkMessage.structured_output) {
-          const output = sdkMessage.structured_output as AgentResponse;
-          responseText = output.response;
-          structuredMetadata = output.metadata;
-          console.log(`[${requestId}] Got structured output`, {
-            confidence: structuredMetadata.confidence,
-            flags: structuredMetadata.flags?.list,
-          });
-        } else {
-          console.error(`[${requestId}] No structured_output in result`);
-          responseText = "I apologize, but I encountered an issue generating a response.";
-        }
-      }
+// Turns a repair may take; it only has to restate the output
+const REPAIR_MAX_TURNS = 3;
 
-      // Log errors
-      if (sdkMessage.type === "result" && sdkMessage.is_error) {
-        console.error(`[${requestId}] SDK error:`, sdkMessage);
+/** What a repair needs to resume the run that produced the output */
+interface RepairContext {
+  requestId: string;
+  conversationId?: string;
+  config: AgentConfig;
+  effective: EffectiveSettings;
+  request: InFlightRequest;
+  schema: JsonSchema;
+  /** SDK session of the run; repairs resume it */
+  sessionId?: string;
+}
+
+function repairPrompt(errors: ValidationIssue[]): string {
+  return [
+    "Your structured output did not pass validation:",
+    formatIssues(errors),
+    "",
+    "Return the complete structured output again with these problems fixed.",
+    "Keep the customer-facing response as it was unless a problem concerns it.",
+  ].join("\n");
+}
+
+/**
+ * Ask the agent, in the same session, to fix its output. Resolves to the
+ * new structured output, or undefined when the repair run produced none.
+ */
+async function runRepair(
+  ctx: RepairContext,
+  errors: ValidationIssue[],
+  usage: Usage
+): Promise<unknown> {
+  let repaired: unknown;
+  for await (const sdkMessage of runQuery({
+    prompt: repairPrompt(errors),
+    options: {
+      ...buildQueryOptions(ctx.config, ctx.effective, ctx.request, ctx.schema),
+      maxTurns: REPAIR_MAX_TURNS,
+      resume: ctx.sessionId,
+    },
+  })) {
+    if (sdkMessage.type === "system" && sdkMessage.subtype === "init" && sdkMessage.session_id) {
+      ctx.sessionId = sdkMessage.session_id;
+      if (ctx.conversationId) setConversationSession(ctx.conversationId, sdkMessage.session_id);
+    }
+    if (sdkMessage.type === "assistant") {
+      trackPartialUsage(ctx.request, sdkMessage.message);
+    }
+    if (sdkMessage.type === "result") {
+      usage.inputTokens += sdkMessage.usage?.input_tokens || 0;
+      usage.outputTokens += sdkMessage.usage?.output_tokens || 0;
+      usage.totalCostUsd += sdkMessage.total_cost_usd || 0;
+      if (sdkMessage.subtype === "success") {
+        repaired = sdkMessage.structured_output;
+      } else {
+        console.warn(`[${ctx.requestId}] Repair run failed: ${sdkMessage.subtype}`);
       }
     }
+  }
+  return repaired;
+}
 
-    console.log(`[${requestId}] Agent response generated`, {
-      toolsUsed,
-      responseLength: responseText.length,
-      hasStructuredMetadata: !!structuredMetadata,
-    });
+function isUsableOutput(output: unknown): output is ExtendedAgentResponse {
+  const candidate = output as Partial<ExtendedAgentResponse> | null;
+  return (
+    typeof candidate?.response === "string" &&
+    typeof candidate.metadata === "object" &&
+    candidate.metadata !== null &&
+    !Array.isArray(candidate.metadata)
+  );
+}
 
-    return {
-      response: responseText,
-      guidesUsed: structuredMetadata?.guidesUsed || toolsUsed.filter((t) => t === "Read"),
-      confidence: structuredMetadata?.confidence || (toolsUsed.length > 0 ? "high" : "medium"),
-      toolsUsed,
-      usage,
-      metadata: structuredMetadata,
-    };
-  } catch (error) {
-    console.error(`[${requestId}] Agent error:`, error);
-    throw error;
+/**
+ * Validate a run's structured output, asking the agent to repair it while
+ * attempts remain (outputSchema.repairAttempts). The result is recorded in
+ * `metadata.outputValidation`; output that is still invalid is returned
+ * if it has a response and metadata, and fails the request otherwise.
+ * `usage` is the run's, with the repairs' added.
+ */
+async function finalizeStructuredOutput(
+  ctx: RepairContext,
+  initial: unknown,
+  usage: Usage
+): Promise<ExtendedAgentResponse> {
+  const maxAttempts = ctx.config.outputSchema?.repairAttempts ?? DEFAULT_REPAIR_ATTEMPTS;
+  let output = initial;
+  let { errors, warnings } = validateAgentResponse(output, ctx.schema);
+  let repairAttempts = 0;
+
+  while (errors.length > 0 && repairAttempts < maxAttempts && ctx.sessionId) {
+    repairAttempts++;
+    console.warn(
+      `[${ctx.requestId}] Structured output invalid, repair ${repairAttempts}/${maxAttempts}:\n${formatIssues(errors)}`
+    );
+    const repaired = await runRepair(ctx, errors, usage);
+    if (repaired === undefined) continue;
+    output = repaired;
+    ({ errors, warnings } = validateAgentResponse(output, ctx.schema));
+  }
+
+  const outputValidation: OutputValidation = {
+    valid: errors.length === 0,
+    repairAttempts,
+    errors,
+    warnings,
+  };
+  if (!outputValidation.valid) {
+    console.error(
+      `[${ctx.requestId}] Structured output still invalid after ${repairAttempts} repair(s):\n${formatIssues(errors)}`
+    );
   }
+  if (!isUsableOutput(output)) {
+    throw new AppError(
+      "STRUCTURED_OUTPUT_INVALID",
+      `Structured output is invalid:\n${formatIssues(errors)}`,
+      { phase: "agent", details: { errors, repairAttempts } }
+    );
+  }
+
+  return { ...output, metadata: { ...output.metadata, outputValidation } };
+}
+
+/**
+ * Run the output guardrails over a response and fit it to the modality,
+ * restoring PII tokens in the metadata as well as the response. Outcomes of both stages go into `metadata.guardrails`; PII found in the
+ * message raises the PII_DETECTED flag.
+ */
+function guardResponse(
+  requestId: string,
+  output: ExtendedAgentResponse,
+  effective: EffectiveSettings,
+  guarded: GuardedMessage
+): ExtendedAgentResponse {
+  const result = applyOutputGuardrails(output.response, guarded.context);
+  const outcomes = [...guarded.outcomes, ...result.outcomes];
+  const metadata = restorePiiTokens({ ...output.metadata }, guarded.context);
+
+  if (outcomes.length > 0) {
+    console.log(
+      `[${requestId}] Guardrails triggered:`,
+      outcomes.map((o) => `${o.stage}/${o.guardrail}: ${o.action}`)
+    );
+    metadata.guardrails = outcomes;
+  }
+  const flagList = metadata.flags?.list ?? [];
+  if (guarded.outcomes.some((o) => o.guardrail === "pii") && !flagList.includes("PII_DETECTED")) {
+    metadata.flags = { ...metadata.flags, list: [...flagList, "PII_DETECTED"] };
+  }
+
+  return {
+    ...output,
+    response: constrainResponse(requestId, result.response, effective),
+    metadata,
+  };
 }
 
 /**
- * Streaming message chunk types
+ * Streaming message chunk types. A run ends with exactly one of `done`,
+ * `cancelled` or `error`.
  */
 export type StreamChunk =
   | { type: "thinking"; content: string }
   | { type: "tool_start"; toolName: string; toolId: string; input?: unknown }
   | { type: "tool_end"; toolName: string; toolId: string; success: boolean; result?: unknown }
+  | { type: "tool_denied"; toolName: string; toolId: string; reason: string }
   | { type: "todo"; todos: Array<{ content: string; status: string; activeForm: string }> }
-  | { type: "structured_output"; content: AgentResponse }
-  | { type: "done"; content: string; usage?: ProcessMessageResult["usage"]; metadata?: ResponseMetadata }
-  | { type: "error"; content: string };
+  | { type: "structured_output"; content: ExtendedAgentResponse }
+  | { type: "done"; content: string; usage?: ProcessMessageResult["usage"]; metadata?: ExtendedResponseMetadata; session?: SessionTranscript; toolAudit?: ToolDecision[] }
+  | { type: "cancelled"; reason: string; usage: Usage; toolAudit?: ToolDecision[] }
+  | { type: "error"; error: ErrorBody; toolAudit?: ToolDecision[] };
+
+// Tool decisions of runs processMessage failed, for the error response
+const failedRunAudits = new WeakMap<AppError, ToolDecision[]>();
+
+/** Tool decisions made before processMessage threw `error`, if any */
+export function toolAuditOf(error: unknown): ToolDecision[] | undefined {
+  return error instanceof AppError ? failedRunAudits.get(error) : undefined;
+}
 
 /**
- * Process a message with streaming response using Claude Agent SDK
- * Yields chunks as they arrive
+ * Process a message using the Claude Agent SDK (non-streaming).
+ * Aggregates the chunks of processMessageStream, so both endpoints share
+ * error handling, usage, tool tracking and structured output parsing.
+ */
+export async function processMessage(
+  input: ProcessMessageInput
+): Promise<ProcessMessageResult> {
+  const toolsUsed: string[] = [];
+
+  for await (const chunk of processMessageStream(input)) {
+    switch (chunk.type) {
+      case "tool_start":
+        toolsUsed.push(chunk.toolName);
+        break;
+
+      case "done":
+        return {
+          response: chunk.content,
+          guidesUsed: chunk.metadata?.guidesUsed || toolsUsed.filter((t) => t === "Read"),
+          confidence: chunk.metadata?.confidence || (toolsUsed.length > 0 ? "high" : "medium"),
+          toolsUsed,
+          usage: chunk.usage,
+          metadata: chunk.metadata,
+          session: chunk.session,
+          toolAudit: chunk.toolAudit,
+        };
+
+      case "cancelled":
+      case "error": {
+        const error =
+          chunk.type === "error"
+            ? AppError.fromBody(chunk.error)
+            : new AppError("REQUEST_CANCELLED", `Request cancelled: ${chunk.reason}`, {
+                phase: "agent",
+              });
+        if (chunk.toolAudit) failedRunAudits.set(error, chunk.toolAudit);
+        throw error;
+      }
+    }
+  }
+  // Every run ends with done, cancelled or error
+  throw missingStructuredOutput();
+}
+
+/**
+ * Process a message with the Claude Agent SDK, yielding chunks as they
+ * arrive. Input guardrails and modality checks throw before the first
+ * chunk; everything after ends the run with an `error` chunk.
  */
 export async function* processMessageStream(
   input: ProcessMessageInput
@@ -451,15 +916,15 @@ export async function* processMessageStream(
   const { message, conversationId, requestId, metadata } = input;
   const config = getAgentConfig();
 
+  // Get modality from metadata and apply per-modality settings
   const modality = metadata?.modality as string | undefined;
   const effective = getEffectiveSettings(config, modality);
 
-  const existingSessionId = conversationId
-    ? activeSessions.get(conversationId)
-    : undefined;
+  // Check for existing session to resume for multi-turn conversations
+  const existingSessionId = resolveExistingSession(input);
 
-  console.log(`[${requestId}] Starting streaming agent processing with SDK...`, {
-    modality: modality || "default",
+  console.log(`[${requestId}] Starting agent processing with SDK...`, {
+    modality: effective.modality || "default",
     conversationId: conversationId || "none",
     resumingSession: existingSessionId ? "yes" : "no",
     maxTurns: effective.maxTurns,
@@ -467,70 +932,72 @@ export async function* processMessageStream(
     allowedTools: effective.allowedTools.length,
   });
 
-  const contextString = buildContextString(input);
+  const guarded = applyInputGuardrails(message, {
+    settings: config.guardrails,
+    conversationId,
+    modality: effective.modality,
+    responseConstraints: effective.responseConstraints,
+  });
+  const contextString = buildContextString(input, (text) =>
+    redactPiiField(text, guarded.context)
+  );
   const fullPrompt = contextString
-    ? `${contextString}Customer message:\n${message}`
-    : message;
+    ? `${contextString}Customer message:\n${guarded.message}`
+    : guarded.message;
 
+  const request = beginRequest(input);
+  const schema = buildResponseJsonSchema(config.outputSchema);
+  const repair: RepairContext = { requestId, conversationId, config, effective, request, schema };
   const toolsUsed: string[] = [];
   const pendingTools = new Map<string, string>();
   let hasStreamedThinking = false;
+  let result: { output: unknown; usage: Usage } | undefined;
+  let reportedDecisions = 0;
 
   try {
-    for await (const sdkMessage of query({
+    for await (const sdkMessage of runQuery({
       prompt: fullPrompt,
       options: {
-        pathToClaudeCodeExecutable: getClaudeCodePath(),
-
-        // No executable override — defaults to "node"
-
-        settingSources: ["project"],
-
-        systemPrompt: config.additionalInstructions
-          ? {
-              type: "preset",
-              preset: "claude_code",
-              append: config.additionalInstructions,
-            }
-          : {
-              type: "preset",
-              preset: "claude_code",
-            },
-
-        allowedTools: effective.allowedTools,
-        mcpServers: effective.mcpServers,
-        cwd: process.cwd(),
-        permissionMode: "bypassPermissions",
-        allowDangerouslySkipPermissions: true,
-        maxTurns: effective.maxTurns,
-        maxThinkingTokens: effective.maxThinkingTokens,
+        ...buildQueryOptions(config, effective, request, schema),
         includePartialMessages: true,
 
-        outputFormat: {
-          type: "json_schema",
-          schema: responseJsonSchema,
-        },
-
+        // Resume existing session for multi-turn conversations
         ...(existingSessionId && { resume: existingSessionId }),
       },
     })) {
-      // Capture session ID from init message for future turns
+      // Capture session ID from init message for repairs and future turns
       if (
         sdkMessage.type === "system" &&
         sdkMessage.subtype === "init" &&
-        conversationId &&
         sdkMessage.session_id
       ) {
-        activeSessions.set(conversationId, sdkMessage.session_id);
-        console.log(
-          `[${requestId}] Session started/resumed: ${sdkMessage.session_id}`
-        );
+        repair.sessionId = sdkMessage.session_id;
+        if (conversationId) {
+          setConversationSession(conversationId, sdkMessage.session_id);
+          console.log(
+            `[${requestId}] Session started/resumed: ${sdkMessage.session_id}`
+          );
+        }
+      }
+
+      // Denials happen in the permission callback; report them as messages arrive
+      for (const decision of request.toolDecisions.slice(reportedDecisions)) {
+        if (decision.decision === "deny") {
+          yield {
+            type: "tool_denied",
+            toolName: decision.toolName,
+            toolId: decision.toolUseId,
+            reason: decision.reason,
+          };
+        }
       }
+      reportedDecisions = request.toolDecisions.length;
 
       debug(`[${requestId}] SDK message:`, sdkMessage.type,
         sdkMessage.type === "result" ? `subtype=${(sdkMessage as unknown as {subtype?: string}).subtype}` : "");
 
       if (sdkMessage.type === "assistant") {
+        trackPartialUsage(request, sdkMessage.message);
         for (const block of sdkMessage.message.content) {
           if (block.type === "thinking") {
             if (!hasStreamedThinking) {
@@ -580,62 +1047,96 @@ export async function* processMessageStream(
           yield { type: "thinking", content: event.delta.thinking };
         }
       } else if (sdkMessage.type === "result") {
-        if (sdkMessage.subtype === "success") {
-          debug(`[${requestId}] SDK result message keys:`, Object.keys(sdkMessage));
-          debug(`[${requestId}] SDK result.structured_output:`, sdkMessage.structured_output);
-
-          const resultUsage = {
-            inputTokens: sdkMessage.usage?.input_tokens || 0,
-            outputTokens: sdkMessage.usage?.output_tokens || 0,
-            totalCostUsd: sdkMessage.total_cost_usd || 0,
+        // Error results (max turns, execution errors) fail the request
+        if (sdkMessage.subtype !== "success") {
+          const { subtype, errors } = sdkMessage;
+          console.error(`[${requestId}] SDK result error:`, { subtype, errors });
+          yield {
+            type: "error",
+            error: resultError(subtype, errors).toJSON(),
+            toolAudit: request.toolDecisions,
           };
+          return;
+        }
 
-          if (sdkMessage.structured_output) {
-            const output = sdkMessage.structured_output as AgentResponse;
-
-            yield { type: "structured_output", content: output };
-
-            yield {
-              type: "done",
-              content: output.response,
-              usage: resultUsage,
-              metadata: output.metadata,
-            };
-            console.log(`[${requestId}] Got structured streaming output`, {
-              confidence: output.metadata.confidence,
-              flags: output.metadata.flags?.list,
-            });
-          } else {
-            console.error(`[${requestId}] No structured_output in streaming result`);
-            yield {
-              type: "done",
-              content: "I apologize, but I encountered an issue generating a response.",
-              usage: resultUsage,
-            };
-          }
-        } else {
-          const subtype = (sdkMessage as { subtype?: string }).subtype || "unknown";
-          const errors = "errors" in sdkMessage ? (sdkMessage as { errors?: string[] }).errors : undefined;
-
-          let errorMsg = `Agent error: ${subtype}`;
-          if (errors && errors.length > 0) {
-            errorMsg += ` - ${errors.join(", ")}`;
-          }
+        debug(`[${requestId}] SDK result message keys:`, Object.keys(sdkMessage));
+        debug(`[${requestId}] SDK result.structured_output:`, sdkMessage.structured_output);
 
-          console.error(`[${requestId}] SDK result error:`, { subtype, errors });
-          yield { type: "error", content: errorMsg };
+        if (!sdkMessage.structured_output) {
+          console.error(`[${requestId}] No structured_output in result`);
+          yield {
+            type: "error",
+            error: missingStructuredOutput().toJSON(),
+            toolAudit: request.toolDecisions,
+          };
+          return;
         }
+        // Finished after the loop, so repairs don't overlap this run
+        result = {
+          output: sdkMessage.structured_output,
+          usage: {
+            inputTokens: sdkMessage.usage?.input_tokens || 0,
+            outputTokens: sdkMessage.usage?.output_tokens || 0,
+            totalCostUsd: sdkMessage.total_cost_usd || 0,
+          },
+        };
       }
     }
 
-    console.log(`[${requestId}] Streaming response complete`, {
+    if (!result) {
+      console.error(`[${requestId}] Agent finished without a result`);
+      yield {
+        type: "error",
+        error: missingStructuredOutput().toJSON(),
+        toolAudit: request.toolDecisions,
+      };
+      return;
+    }
+
+    const output = guardResponse(
+      requestId,
+      await finalizeStructuredOutput(repair, result.output, result.usage),
+      effective,
+      guarded
+    );
+    if (request.attachments.length > 0) {
+      output.metadata.attachmentsUsed = attachmentsUsed(request);
+    }
+    console.log(`[${requestId}] Agent response generated`, {
       toolsUsed,
+      responseLength: output.response.length,
+      confidence: output.metadata.confidence,
+      flags: output.metadata.flags?.list,
+      valid: output.metadata.outputValidation?.valid,
     });
-  } catch (error) {
-    console.error(`[${requestId}] Streaming error:`, error);
+
+    yield { type: "structured_output", content: output };
+
     yield {
-      type: "error",
-      content: error instanceof Error ? error.message : "Unknown error",
+      type: "done",
+      content: output.response,
+      usage: result.usage,
+      metadata: output.metadata,
+      session: completeTurn(input, toolsUsed, output),
+      toolAudit: request.toolDecisions,
     };
+  } catch (error) {
+    if (request.controller.signal.aborted) {
+      console.log(`[${requestId}] Cancelled (${abortReason(request)})`, {
+        toolsUsed,
+        usage: request.usage,
+      });
+      yield {
+        type: "cancelled",
+        reason: abortReason(request),
+        usage: { ...request.usage },
+        toolAudit: request.toolDecisions,
+      };
+      return;
+    }
+    console.error(`[${requestId}] Agent error:`, error);
+    yield { type: "error", error: agentFailure(error).toJSON(), toolAudit: request.toolDecisions };
+  } finally {
+    inFlightRequests.delete(requestId);
   }
 }
@@ -0,0 +1,118 @@
+/**
+ * What this sandbox holds for each conversation: the SDK session its next
+ * turn resumes and the turns answered so far. Both travel with the
+ * exported session, so a fresh sandbox picks the conversation up where the
+ * last one left off, and both are removed by eraseConversation().
+ */
+import * as fs from "fs";
+import { attachmentDirFor } from "../shared/attachments.js";
+import type {
+  ConversationErasure,
+  ConversationHistory,
+  ConversationTurn,
+} from "../shared/conversation.js";
+import { exportPiiVault, forgetPiiVault, importPiiVault } from "./guardrails.js";
+import {
+  deleteTranscript,
+  exportTranscript,
+  importTranscript,
+  type SessionTranscript,
+} from "./session-transcript.js";
+
+interface ConversationState {
+  /** SDK session the next turn resumes */
+  sessionId?: string;
+  /** Every session the conversation has used, for erasure */
+  sessionIds: Set<string>;
+  turns: ConversationTurn[];
+}
+
+// conversationId -> state
+const conversations = new Map<string, ConversationState>();
+
+function getState(conversationId: string): ConversationState {
+  let state = conversations.get(conversationId);
+  if (!state) {
+    state = { sessionIds: new Set(), turns: [] };
+    conversations.set(conversationId, state);
+  }
+  return state;
+}
+
+/** The SDK session to resume for a conversation, if this sandbox has one */
+export function getConversationSession(conversationId: string): string | undefined {
+  return conversations.get(conversationId)?.sessionId;
+}
+
+/** Remember the SDK session a conversation's run started or resumed */
+export function setConversationSession(conversationId: string, sessionId: string): void {
+  const state = getState(conversationId);
+  state.sessionId = sessionId;
+  state.sessionIds.add(sessionId);
+}
+
+/**
+ * Restore a conversation this sandbox has not served from the session the
+ * orchestrator stored: the transcript goes where the SDK expects it and
+ * its PII tokens back into the conversation's vault.
+ */
+export function restoreConversation(conversationId: string, session: SessionTranscript): void {
+  importTranscript(session);
+  setConversationSession(conversationId, session.sessionId);
+  getState(conversationId).turns = [...(session.history ?? [])];
+  if (session.piiTokens) importPiiVault(conversationId, session.piiTokens);
+}
+
+/** Add an answered turn to a conversation's history */
+export function recordTurn(conversationId: string, turn: ConversationTurn): void {
+  getState(conversationId).turns.push(turn);
+}
+
+/**
+ * Export the conversation's current transcript with its history and PII
+ * tokens, if it has a session.
+ */
+export function exportConversation(
+  conversationId: string | undefined
+): SessionTranscript | undefined {
+  if (!conversationId) return undefined;
+  const state = conversations.get(conversationId);
+  if (!state?.sessionId) return undefined;
+
+  const exported = exportTranscript(state.sessionId);
+  if (!exported) return undefined;
+  return { ...exported, history: state.turns, piiTokens: exportPiiVault(conversationId) };
+}
+
+/** A conversation's turns, or null if this sandbox hasn't served it */
+export function getConversationHistory(conversationId: string): ConversationHistory | null {
+  const state = conversations.get(conversationId);
+  if (!state) return null;
+  return { conversationId, sessionId: state.sessionId, turns: state.turns };
+}
+
+/**
+ * Forget a conversation: its session mapping, history, PII tokens, the
+ * transcript of every session it used and its turns' attachments. Returns
+ * null if this sandbox hasn't served it.
+ */
+export function eraseConversation(conversationId: string): ConversationErasure | null {
+  // A request that failed before its session started may have left PII tokens
+  const hadPii = forgetPiiVault(conversationId);
+  const state = conversations.get(conversationId);
+  if (!state) return hadPii ? { conversationId, sessionIds: [], turns: 0 } : null;
+
+  conversations.delete(conversationId);
+  const sessionIds = [...state.sessionIds];
+  for (const sessionId of sessionIds) {
+    deleteTranscript(sessionId);
+  }
+  for (const turn of state.turns.filter((t) => t.attachments?.length)) {
+    fs.rmSync(attachmentDirFor(turn.requestId), { recursive: true, force: true });
+  }
+
+  console.log(
+    `[Agent] Erased conversation ${conversationId} (${state.turns.length} turns, ${sessionIds.length} sessions)`
+  );
+  return { conversationId, sessionIds, turns: state.turns.length };
+}
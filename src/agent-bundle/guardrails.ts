@@ -0,0 +1,408 @@
+/**
+ * Guardrail pipeline around a request: input guardrails check the
+ * customer's message before the model sees it, output guardrails the
+ * response before the customer does. Each can rewrite the text, block it
+ * or only flag it; every one that triggers is reported as a
+ * GuardrailOutcome in `metadata.guardrails`.
+ *
+ *   input    maxMessageLength, pii
+ *   output   internalPaths, blockedPhrases, disclaimers
+ *
+ * PII is swapped for tokens like [EMAIL_1]. Tokens are kept per
+ * conversation, so the model sees the same token on every turn, and the
+ * response gets the original values back.
+ */
+import { AppError } from "../shared/errors.js";
+import {
+  PII_TYPES,
+  type GuardrailAction,
+  type GuardrailSettings,
+  type PiiType,
+  type ResponseConstraints,
+} from "../shared/agent-config.js";
+import { enforceResponseConstraints } from "../shared/modalities.js";
+import type { GuardrailOutcome } from "../shared/response-schema.js";
+
+const DEFAULT_BLOCKED_RESPONSE =
+  "I'm sorry, I can't help with that here. Let me connect you with a member of our team.";
+const DEFAULT_PHRASE_REPLACEMENT = "[removed]";
+const INTERNAL_PATH_REPLACEMENT = "[internal]";
+
+/** Tokens standing in for PII values, per conversation */
+interface PiiVault {
+  tokens: Map<string, string>;
+  values: Map<string, string>;
+}
+
+// conversationId -> vault; requests without a conversation get their own
+const piiVaults = new Map<string, PiiVault>();
+
+interface PiiPattern {
+  pattern: RegExp;
+  /** Rejects matches the pattern can't rule out, e.g. dates */
+  accept?: (match: string) => boolean;
+}
+
+function digits(text: string): string {
+  return text.replace(/\D/g, "");
+}
+
+function passesLuhn(number: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < number.length; i++) {
+    let digit = Number(number[number.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+// Checked in this order, so a card number isn't taken for a phone number.
+// Phone numbers need a `+` or separators: bare digit runs are more often
+// order or account numbers.
+const PII_PATTERNS: [PiiType, PiiPattern][] = [
+  ["email", { pattern: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g }],
+  [
+    "iban",
+    {
+      pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+      accept: (match) => match.replace(/ /g, "").length >= 15,
+    },
+  ],
+  [
+    "card",
+    {
+      pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+      accept: (match) => passesLuhn(digits(match)),
+    },
+  ],
+  ["ssn", { pattern: /\b\d{3}-\d{2}-\d{4}\b/g }],
+  [
+    "phone",
+    {
+      pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{1,4}(?:[ .-]\d{1,4}){1,4}(?!\w)/g,
+      accept: (match) =>
+        digits(match).length >= 7 &&
+        (match.startsWith("+") || /[ .()-]/.test(match)) &&
+        !/^\d{4}-\d{2}-\d{2}$/.test(match),
+    },
+  ],
+];
+
+// Sandbox and system paths (not URL paths), and the files an agent is
+// configured with
+const INTERNAL_PATH_PATTERN =
+  /(?:(?<![\w.:/-])\/(?:vercel|home|root|tmp|var|usr|opt|etc|app|workspace)(?:\/[\w.@-]+)+|(?:\.\/)?\.claude\/[\w./@-]*|\b(?:CLAUDE|SKILL)\.md\b|\bagent-config\.json\b)/g;
+
+/** Settings a guardrail reads, with the request's modality */
+export interface GuardrailContext {
+  settings: GuardrailSettings;
+  modality?: string;
+  responseConstraints: ResponseConstraints;
+  vault: PiiVault;
+}
+
+type GuardrailResult = { action: GuardrailAction; detail: string; text?: string } | null;
+
+interface Guardrail {
+  name: keyof GuardrailSettings;
+  run(text: string, ctx: GuardrailContext): GuardrailResult;
+}
+
+function getPiiVault(conversationId: string | undefined): PiiVault {
+  const existing = conversationId ? piiVaults.get(conversationId) : undefined;
+  if (existing) return existing;
+
+  const vault: PiiVault = { tokens: new Map(), values: new Map() };
+  if (conversationId) piiVaults.set(conversationId, vault);
+  return vault;
+}
+
+function tokenFor(vault: PiiVault, type: PiiType, value: string): string {
+  const existing = vault.tokens.get(value);
+  if (existing) return existing;
+
+  const prefix = `[${type.toUpperCase()}_`;
+  const count = [...vault.values.keys()].filter((token) => token.startsWith(prefix)).length;
+  const token = `${prefix}${count + 1}]`;
+  vault.tokens.set(value, token);
+  vault.values.set(token, value);
+  return token;
+}
+
+/** Put the values behind PII tokens back into a text */
+function restorePii(text: string, vault: PiiVault): string {
+  if (vault.values.size === 0) return text;
+  return text.replace(/\[[A-Z]+_\d+\]/g, (token) => vault.values.get(token) ?? token);
+}
+
+/** Put PII tokens back into every string of a value, e.g. response metadata */
+function restorePiiDeep(value: unknown, vault: PiiVault): unknown {
+  if (typeof value === "string") return restorePii(value, vault);
+  if (Array.isArray(value)) return value.map((item) => restorePiiDeep(item, vault));
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, restorePiiDeep(item, vault)])
+    );
+  }
+  return value;
+}
+
+/** PII redaction is off unless the agent configures `guardrails.pii` */
+function piiEnabled(settings: GuardrailSettings): boolean {
+  return settings.pii !== undefined && settings.pii.enabled !== false;
+}
+
+/** Swap the configured PII types in a text for tokens, counting them by type */
+function tokenisePii(
+  text: string,
+  settings: GuardrailSettings,
+  vault: PiiVault
+): { text: string; found: Map<PiiType, number> } {
+  const types = new Set(settings.pii?.types ?? PII_TYPES);
+  const found = new Map<PiiType, number>();
+  let redacted = text;
+  for (const [type, { pattern, accept }] of PII_PATTERNS) {
+    if (!types.has(type)) continue;
+    redacted = redacted.replace(pattern, (match) => {
+      if (accept && !accept(match)) return match;
+      found.set(type, (found.get(type) ?? 0) + 1);
+      return tokenFor(vault, type, match);
+    });
+  }
+  return { text: redacted, found };
+}
+
+const maxMessageLength: Guardrail = {
+  name: "maxMessageLength",
+  run(text, { settings }) {
+    const rule = settings.maxMessageLength;
+    if (!rule || text.length <= rule.limit) return null;
+
+    const detail = `message of ${text.length} characters exceeds the limit of ${rule.limit}`;
+    if (rule.action === "rewrite") {
+      return { action: "rewrite", detail, text: text.slice(0, rule.limit) };
+    }
+    return { action: "block", detail };
+  },
+};
+
+const pii: Guardrail = {
+  name: "pii",
+  run(text, { settings, vault }) {
+    if (!piiEnabled(settings)) return null;
+    const action = settings.pii?.action ?? "rewrite";
+
+    const { text: redacted, found } = tokenisePii(text, settings, vault);
+    if (found.size === 0) return null;
+
+    const detail = [...found].map(([type, count]) => `${count} ${type}`).join(", ");
+    return { action, detail: `PII found: ${detail}`, text: redacted };
+  },
+};
+
+const internalPaths: Guardrail = {
+  name: "internalPaths",
+  run(text, { settings }) {
+    if (settings.internalPaths?.enabled === false) return null;
+    const matches = text.match(INTERNAL_PATH_PATTERN);
+    if (!matches) return null;
+
+    return {
+      action: settings.internalPaths?.action ?? "rewrite",
+      detail: `${matches.length} internal path(s) in the response`,
+      text: text.replace(INTERNAL_PATH_PATTERN, INTERNAL_PATH_REPLACEMENT),
+    };
+  },
+};
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+const blockedPhrases: Guardrail = {
+  name: "blockedPhrases",
+  run(text, { settings }) {
+    const rule = settings.blockedPhrases;
+    const phrases = rule?.phrases.filter(Boolean) ?? [];
+    if (phrases.length === 0) return null;
+
+    const pattern = new RegExp(phrases.map(escapeRegExp).join("|"), "gi");
+    const matched = new Set((text.match(pattern) ?? []).map((phrase) => phrase.toLowerCase()));
+    if (matched.size === 0) return null;
+
+    return {
+      action: rule?.action ?? "block",
+      detail: `blocked phrase(s): ${[...matched].join(", ")}`,
+      text: text.replace(pattern, rule?.replacement ?? DEFAULT_PHRASE_REPLACEMENT),
+    };
+  },
+};
+
+const disclaimers: Guardrail = {
+  name: "disclaimers",
+  run(text, { settings, modality, responseConstraints }) {
+    const all = settings.disclaimers ?? {};
+    const disclaimer = (modality !== undefined && Object.hasOwn(all, modality)
+      ? all[modality]
+      : all["*"]
+    )?.trim();
+    if (!disclaimer || text.includes(disclaimer)) return null;
+
+    // Make room for the disclaimer so the length limit doesn't cut it off
+    const separator = "\n\n";
+    const { maxLength } = responseConstraints;
+    const body =
+      maxLength !== undefined
+        ? enforceResponseConstraints(text, {
+            maxLength: Math.max(1, maxLength - disclaimer.length - separator.length),
+          }).response
+        : text;
+    return {
+      action: "rewrite",
+      detail: `added the ${modality ?? "default"} disclaimer`,
+      text: `${body}${separator}${disclaimer}`,
+    };
+  },
+};
+
+const INPUT_GUARDRAILS: Guardrail[] = [maxMessageLength, pii];
+const OUTPUT_GUARDRAILS: Guardrail[] = [internalPaths, blockedPhrases, disclaimers];
+
+/** Run guardrails in order, stopping at the first that blocks */
+function runGuardrails(
+  guardrails: Guardrail[],
+  stage: GuardrailOutcome["stage"],
+  text: string,
+  ctx: GuardrailContext
+): { text: string; outcomes: GuardrailOutcome[]; blocked: boolean } {
+  const outcomes: GuardrailOutcome[] = [];
+  for (const guardrail of guardrails) {
+    const result = guardrail.run(text, ctx);
+    if (!result) continue;
+
+    outcomes.push({ guardrail: guardrail.name, stage, action: result.action, detail: result.detail });
+    if (result.action === "block") return { text, outcomes, blocked: true };
+    if (result.action === "rewrite" && result.text !== undefined) text = result.text;
+  }
+  return { text, outcomes, blocked: false };
+}
+
+export interface GuardedMessage {
+  /** The message as the model should see it */
+  message: string;
+  outcomes: GuardrailOutcome[];
+  /** Passed on to applyOutputGuardrails */
+  context: GuardrailContext;
+}
+
+/**
+ * Run the input guardrails on a customer message. Throws
+ * GUARDRAIL_BLOCKED when one blocks it.
+ */
+export function applyInputGuardrails(
+  message: string,
+  options: {
+    settings?: GuardrailSettings;
+    conversationId?: string;
+    modality?: string;
+    responseConstraints: ResponseConstraints;
+  }
+): GuardedMessage {
+  const context: GuardrailContext = {
+    settings: options.settings ?? {},
+    modality: options.modality,
+    responseConstraints: options.responseConstraints,
+    vault: getPiiVault(options.conversationId),
+  };
+
+  const result = runGuardrails(INPUT_GUARDRAILS, "input", message, context);
+  if (result.blocked) {
+    const blocking = result.outcomes[result.outcomes.length - 1];
+    throw new AppError("GUARDRAIL_BLOCKED", `Message blocked by guardrail: ${blocking.detail}`, {
+      phase: "request",
+      details: { guardrails: result.outcomes },
+    });
+  }
+  return { message: result.text, outcomes: result.outcomes, context };
+}
+
+/**
+ * Run the output guardrails on a response, after restoring the PII the
+ * input guardrails replaced. A blocked response is swapped for
+ * `blockedResponse`.
+ */
+export function applyOutputGuardrails(
+  response: string,
+  context: GuardrailContext
+): { response: string; outcomes: GuardrailOutcome[]; blocked: boolean } {
+  const restored = restorePii(response, context.vault);
+  const result = runGuardrails(OUTPUT_GUARDRAILS, "output", restored, context);
+  return {
+    response: result.blocked
+      ? context.settings.blockedResponse ?? DEFAULT_BLOCKED_RESPONSE
+      : result.text,
+    outcomes: result.outcomes,
+    blocked: result.blocked,
+  };
+}
+
+/**
+ * Redact a context field sent to the model alongside the message, such as
+ * the customer's email, with the same tokens as the message. Returned as-is
+ * unless the pii guardrail rewrites.
+ */
+export function redactPiiField(text: string, context: GuardrailContext): string {
+  const { settings, vault } = context;
+  if (!piiEnabled(settings) || (settings.pii?.action ?? "rewrite") !== "rewrite") return text;
+  return tokenisePii(text, settings, vault).text;
+}
+
+/** Put the values behind PII tokens back into structured output, e.g. metadata */
+export function restorePiiTokens<T>(value: T, context: GuardrailContext): T {
+  if (context.vault.values.size === 0) return value;
+  return restorePiiDeep(value, context.vault) as T;
+}
+
+/** Drop a conversation's PII tokens and the values behind them */
+export function forgetPiiVault(conversationId: string): boolean {
+  return piiVaults.delete(conversationId);
+}
+
+/**
+ * A conversation's PII tokens and the values behind them, for the session
+ * the orchestrator stores. Undefined when nothing was tokenised.
+ */
+export function exportPiiVault(conversationId: string): Record<string, string> | undefined {
+  const vault = piiVaults.get(conversationId);
+  if (!vault || vault.values.size === 0) return undefined;
+  return Object.fromEntries(vault.values);
+}
+
+/**
+ * Restore the PII tokens of a conversation from its stored session, so
+ * tokens in the transcript still resolve and the same values keep their
+ * tokens in a fresh sandbox.
+ */
+export function importPiiVault(conversationId: string, values: Record<string, string>): void {
+  const vault = getPiiVault(conversationId);
+  for (const [token, value] of Object.entries(values)) {
+    vault.values.set(token, value);
+    vault.tokens.set(value, token);
+  }
+}
+
+/** Instructions telling the model about PII tokens, when they are in use */
+export function describeGuardrails(settings: GuardrailSettings | undefined): string {
+  if (!piiEnabled(settings ?? {}) || (settings?.pii?.action ?? "rewrite") !== "rewrite") {
+    return "";
+  }
+  return (
+    "Personal details in customer messages are replaced with placeholders such as " +
+    "[EMAIL_1] or [PHONE_1]. Use a placeholder as-is wherever you need the value; " +
+    "never ask the customer to repeat it."
+  );
+}
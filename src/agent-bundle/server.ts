@@ -3,8 +3,10 @@ import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { v4 as uuidv4 } from "uuid";
-import { processMessage, processMessageStream } from "./agent.js";
+import { cancelRequest, processMessage, processMessageStream, toolAuditOf } from "./agent.js";
+import { eraseConversation, getConversationHistory } from "./conversations.js";
 import { streamSSE } from "hono/streaming";
+import { AppError, errorResponse, toAppError } from "../shared/errors.js";
 import "dotenv/config";
 
 const app = new Hono();
@@ -37,10 +39,15 @@ app.post("/process", async (c) => {
 
   try {
     const body = await c.req.json();
-    const { message, conversationId, customerId, customerEmail, modality, gatewayContext } = body;
+    const { message, conversationId, customerId, customerEmail, modality, gatewayContext, session, attachments } = body;
 
     if (!message && !gatewayContext) {
-      return c.json({ error: "Message or gateway context is required" }, 400);
+      return errorResponse(
+        new AppError("INVALID_REQUEST", "Message or gateway context is required", {
+          phase: "request",
+        }),
+        { requestId }
+      );
     }
 
     console.log(`[${requestId}] Processing ${modality || "unknown"} message for conversation: ${conversationId}`);
@@ -56,6 +63,9 @@ app.post("/process", async (c) => {
         ...gatewayContext,
       },
       requestId,
+      session,
+      attachments,
+      signal: c.req.raw.signal,
     });
 
     const duration = Date.now() - startTime;
@@ -68,19 +78,15 @@ app.post("/process", async (c) => {
       confidence: result.confidence,
       duration,
       metadata: result.metadata,
+      session: result.session,
+      toolAudit: result.toolAudit,
     });
   } catch (error) {
     const duration = Date.now() - startTime;
-    console.error(`[${requestId}] Error after ${duration}ms:`, error);
+    const appError = toAppError(error, "agent");
+    console.error(`[${requestId}] Error (${appError.code}) after ${duration}ms:`, error);
 
-    return c.json(
-      {
-        requestId,
-        error: error instanceof Error ? error.message : "Unknown error",
-        duration,
-      },
-      500
-    );
+    return errorResponse(appError, { requestId, duration, toolAudit: toolAuditOf(error) });
   }
 });
 
@@ -91,10 +97,15 @@ app.post("/process/stream", async (c) => {
 
   try {
     const body = await c.req.json();
-    const { message, conversationId, customerId, customerEmail, modality, gatewayContext } = body;
+    const { message, conversationId, customerId, customerEmail, modality, gatewayContext, session, attachments } = body;
 
     if (!message && !gatewayContext) {
-      return c.json({ error: "Message or gateway context is required" }, 400);
+      return errorResponse(
+        new AppError("INVALID_REQUEST", "Message or gateway context is required", {
+          phase: "request",
+        }),
+        { requestId }
+      );
     }
 
     console.log(`[${requestId}] Streaming ${modality || "unknown"} message for conversation: ${conversationId}`);
@@ -106,6 +117,10 @@ app.post("/process/stream", async (c) => {
         data: JSON.stringify({ requestId, startTime }),
       });
 
+      // Abort the agent run if the client goes away mid-stream
+      const disconnect = new AbortController();
+      stream.onAbort(() => disconnect.abort("client disconnected"));
+
       // Process with streaming
       const generator = processMessageStream({
         message: message || "",
@@ -117,6 +132,9 @@ app.post("/process/stream", async (c) => {
           ...gatewayContext,
         },
         requestId,
+        session,
+        attachments,
+        signal: disconnect.signal,
       });
 
       for await (const chunk of generator) {
@@ -151,6 +169,17 @@ app.post("/process/stream", async (c) => {
             });
             break;
 
+          case "tool_denied":
+            await stream.writeSSE({
+              event: "tool_denied",
+              data: JSON.stringify({
+                toolName: chunk.toolName,
+                toolId: chunk.toolId,
+                reason: chunk.reason,
+              }),
+            });
+            break;
+
           case "todo":
             await stream.writeSSE({
               event: "todo",
@@ -174,6 +203,20 @@ app.post("/process/stream", async (c) => {
                 confidence: chunk.metadata?.confidence || "high",
                 usage: chunk.usage,
                 metadata: chunk.metadata,
+                session: chunk.session,
+                toolAudit: chunk.toolAudit,
+              }),
+            });
+            break;
+
+          case "cancelled":
+            await stream.writeSSE({
+              event: "cancelled",
+              data: JSON.stringify({
+                reason: chunk.reason,
+                duration: Date.now() - startTime,
+                usage: chunk.usage,
+                toolAudit: chunk.toolAudit,
               }),
             });
             break;
@@ -181,22 +224,57 @@ app.post("/process/stream", async (c) => {
           case "error":
             await stream.writeSSE({
               event: "error",
-              data: JSON.stringify({ error: chunk.content }),
+              data: JSON.stringify({ ...chunk.error, toolAudit: chunk.toolAudit }),
             });
             break;
         }
       }
+    }, async (error, stream) => {
+      // Errors raised before the run starts, e.g. a blocked message
+      console.error(`[${requestId}] Streaming error:`, error);
+      await stream.writeSSE({
+        event: "error",
+        data: JSON.stringify(toAppError(error, "agent").toJSON()),
+      });
     });
   } catch (error) {
     console.error(`[${requestId}] Streaming setup error:`, error);
-    return c.json(
-      {
-        requestId,
-        error: error instanceof Error ? error.message : "Unknown error",
-      },
-      500
-    );
+    return errorResponse(toAppError(error, "agent"), { requestId });
+  }
+});
+
+// Cancel an in-flight request by its X-Request-ID
+app.post("/process/:requestId/cancel", (c) => {
+  const requestId = c.req.param("requestId");
+  const cancelled = cancelRequest(requestId);
+
+  if (!cancelled) {
+    return c.json({ error: `No in-flight request: ${requestId}` }, 404);
+  }
+  console.log(`[${requestId}] Cancel requested`);
+  return c.json({ requestId, status: "cancelled", ...cancelled });
+});
+
+// A conversation's turns, oldest first
+app.get("/conversations/:id", (c) => {
+  const conversationId = c.req.param("id");
+  const history = getConversationHistory(conversationId);
+
+  if (!history) {
+    return c.json({ error: `Unknown conversation: ${conversationId}` }, 404);
+  }
+  return c.json(history);
+});
+
+// Erase everything this sandbox holds for a conversation (e.g. GDPR requests)
+app.delete("/conversations/:id", (c) => {
+  const conversationId = c.req.param("id");
+  const erased = eraseConversation(conversationId);
+
+  if (!erased) {
+    return c.json({ error: `Unknown conversation: ${conversationId}` }, 404);
   }
+  return c.json({ ...erased, status: "erased" });
 });
 
 // Graceful shutdown endpoint
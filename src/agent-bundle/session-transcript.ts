@@ -0,0 +1,76 @@
+/**
+ * Session transcript export/import.
+ *
+ * The Claude Agent SDK persists each session as a JSONL transcript under
+ * the Claude config directory, keyed by the working directory. Exporting it
+ * at the end of a turn and importing it into a fresh sandbox lets `resume`
+ * work no matter which sandbox serves the next turn.
+ */
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import type { ConversationTurn } from "../shared/conversation.js";
+
+/** A session transcript as exchanged with the orchestrator */
+export interface SessionTranscript {
+  sessionId: string;
+  /** Raw JSONL transcript written by the SDK */
+  transcript: string;
+  /** Turns answered so far, oldest first */
+  history?: ConversationTurn[];
+  /** PII token -> value, for conversations with PII redaction */
+  piiTokens?: Record<string, string>;
+}
+
+function getClaudeConfigDir(): string {
+  return process.env.CLAUDE_CONFIG_DIR || path.join(os.homedir(), ".claude");
+}
+
+/**
+ * Path of the SDK transcript for a session started in the given directory.
+ * The SDK names the project directory after the cwd with every
+ * non-alphanumeric character replaced by "-".
+ */
+export function getTranscriptPath(
+  sessionId: string,
+  cwd: string = process.cwd()
+): string {
+  const projectDir = cwd.replace(/[^a-zA-Z0-9]/g, "-");
+  return path.join(getClaudeConfigDir(), "projects", projectDir, `${sessionId}.jsonl`);
+}
+
+/**
+ * Read the transcript of a session, or null if the SDK has not written one.
+ */
+export function exportTranscript(sessionId: string): SessionTranscript | null {
+  const transcriptPath = getTranscriptPath(sessionId);
+  if (!fs.existsSync(transcriptPath)) {
+    console.warn(`[Agent] No transcript found for session ${sessionId}`);
+    return null;
+  }
+  return {
+    sessionId,
+    transcript: fs.readFileSync(transcriptPath, "utf-8"),
+  };
+}
+
+/**
+ * Write a previously exported transcript where the SDK expects it.
+ */
+export function importTranscript(session: SessionTranscript): void {
+  const transcriptPath = getTranscriptPath(session.sessionId);
+  fs.mkdirSync(path.dirname(transcriptPath), { recursive: true });
+  fs.writeFileSync(transcriptPath, session.transcript, "utf-8");
+  console.log(`[Agent] Imported transcript for session ${session.sessionId}`);
+}
+
+/**
+ * Delete a session's transcript. Returns false if there was none.
+ */
+export function deleteTranscript(sessionId: string): boolean {
+  const transcriptPath = getTranscriptPath(sessionId);
+  if (!fs.existsSync(transcriptPath)) return false;
+  fs.rmSync(transcriptPath, { force: true });
+  console.log(`[Agent] Deleted transcript for session ${sessionId}`);
+  return true;
+}
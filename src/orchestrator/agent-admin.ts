@@ -0,0 +1,236 @@
+/**
+ * Agent management: inspecting resolved configs, uploading config bundles
+ * (tar or zip) and dry-running an agent with a smoke message. Uploads
+ * are validated, together with every agent they affect, before they are
+ * written to the config source.
+ */
+import { AppError, toAppError } from "../shared/errors.js";
+import { listModalities } from "../shared/modalities.js";
+import type { ValidationIssue } from "../shared/validation.js";
+import { decodeTextEntry, readArchive } from "./archive.js";
+import { loadAgentConfig, validateLoadedConfig, writeConfig } from "./config-loader.js";
+import type { ConfigFiles } from "./config-source.js";
+import {
+  checkRolloutTargets,
+  configIdFor,
+  CURRENT_VERSION,
+  parseConfigId,
+} from "./config-versions.js";
+import { executeInSandbox } from "./sandbox-manager.js";
+import { admit } from "./scheduler.js";
+import type { AgentConfigDetails, DryRunResult, ProcessRequest, SkillInfo } from "./types.js";
+
+const AGENT_UPLOAD_MAX_BYTES = parseInt(
+  process.env.AGENT_UPLOAD_MAX_BYTES || String(10 * 1024 * 1024),
+  10
+);
+const DRY_RUN_MESSAGE =
+  process.env.DRY_RUN_MESSAGE || "This is a dry run. Reply with a one-sentence greeting.";
+
+// Agent IDs double as directory names; `_` marks shared configs
+const AGENT_ID_PATTERN = /^[A-Za-z0-9_][A-Za-z0-9._-]*$/;
+
+export function isValidAgentId(agentId: string): boolean {
+  return AGENT_ID_PATTERN.test(agentId);
+}
+
+/**
+ * Parse the `---` delimited frontmatter at the top of a SKILL.md. Only
+ * flat `key: value` lines are read; quotes around values are dropped.
+ */
+export function parseSkillFrontmatter(content: string): Record<string, string> {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/.exec(content);
+  if (!match) return {};
+
+  const frontmatter: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = /^([A-Za-z0-9_-]+):\s*(.*)$/.exec(line);
+    if (!field) continue;
+    frontmatter[field[1]] = field[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+  }
+  return frontmatter;
+}
+
+/** Skills of a resolved bundle, one per directory holding a SKILL.md */
+function describeSkills(skills: Record<string, string>): SkillInfo[] {
+  const described: SkillInfo[] = [];
+  for (const skillPath of Object.keys(skills).sort()) {
+    if (skillPath !== "SKILL.md" && !skillPath.endsWith("/SKILL.md")) continue;
+
+    const name = skillPath.slice(0, -"/SKILL.md".length) || ".";
+    const prefix = name === "." ? "" : `${name}/`;
+    const frontmatter = parseSkillFrontmatter(skills[skillPath]);
+    described.push({
+      name,
+      ...(frontmatter.description && { description: frontmatter.description }),
+      frontmatter,
+      files: Object.keys(skills)
+        .filter((file) => file.startsWith(prefix))
+        .map((file) => file.slice(prefix.length))
+        .sort(),
+    });
+  }
+  return described;
+}
+
+/** Resolved config, skills and validation status of a loaded config */
+export function describeAgentConfig(configId: string): AgentConfigDetails {
+  const bundle = loadAgentConfig(configId);
+  const { errors, warnings } = validateLoadedConfig(configId);
+  const { version } = parseConfigId(configId);
+  if (errors.length === 0 && version === CURRENT_VERSION) {
+    errors.push(...checkRolloutTargets(configId));
+  }
+
+  return {
+    resolved: bundle.agentConfig,
+    claudeMdBytes: Buffer.byteLength(bundle.claudeMd, "utf-8"),
+    skills: describeSkills(bundle.skills),
+    modalities: listModalities(bundle.agentConfig),
+    validation: { valid: errors.length === 0, errors, warnings },
+  };
+}
+
+/** `size` is left out when the upload was cut off before its end */
+function bundleTooLarge(size?: number): AppError {
+  return new AppError(
+    "INVALID_REQUEST",
+    size === undefined
+      ? `Config bundle is over the limit of ${AGENT_UPLOAD_MAX_BYTES} bytes`
+      : `Config bundle is ${size} bytes; the limit is ${AGENT_UPLOAD_MAX_BYTES}`,
+    { phase: "request" }
+  );
+}
+
+/**
+ * Read an uploaded config bundle from a request body. Refused up front when
+ * Content-Length is over AGENT_UPLOAD_MAX_BYTES, and otherwise as soon as
+ * the body streams past it.
+ */
+export async function readConfigUpload(request: Request): Promise<Buffer> {
+  const contentLength = Number(request.headers.get("content-length"));
+  if (contentLength > AGENT_UPLOAD_MAX_BYTES) throw bundleTooLarge(contentLength);
+  if (!request.body) return Buffer.alloc(0);
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = request.body.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > AGENT_UPLOAD_MAX_BYTES) {
+      await reader.cancel();
+      throw bundleTooLarge();
+    }
+    chunks.push(value);
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Unpack an uploaded tar, tar.gz or zip bundle into config files */
+function readConfigBundle(data: Buffer): ConfigFiles {
+  if (data.length > AGENT_UPLOAD_MAX_BYTES) throw bundleTooLarge(data.length);
+
+  let entries: Map<string, Buffer>;
+  try {
+    entries = readArchive(data);
+  } catch (err) {
+    throw new AppError(
+      "INVALID_REQUEST",
+      `Config bundle is not a readable tar or zip archive: ${(err as Error).message}`,
+      { phase: "request" }
+    );
+  }
+  if (entries.size === 0) {
+    throw new AppError(
+      "INVALID_REQUEST",
+      "Config bundle has no files; expected a tar, tar.gz or zip archive",
+      { phase: "request" }
+    );
+  }
+
+  const files: ConfigFiles = {};
+  for (const [name, content] of entries) {
+    try {
+      files[name] = decodeTextEntry(name, content);
+    } catch (err) {
+      throw new AppError("INVALID_REQUEST", (err as Error).message, { phase: "request" });
+    }
+  }
+  return files;
+}
+
+/**
+ * Replace a config with an uploaded bundle. Nothing is written unless the
+ * bundle and every agent that uses it validate; the config is live when
+ * this resolves.
+ */
+export async function uploadAgentConfig(
+  configId: string,
+  data: Buffer
+): Promise<{ files: string[]; warnings: ValidationIssue[] }> {
+  const files = readConfigBundle(data);
+  const warnings = await writeConfig(configId, files);
+
+  // Rollout targets are other configs, so a missing one only warns
+  if (!configId.includes("@")) {
+    warnings.push(...checkRolloutTargets(configId));
+  }
+  return { files: Object.keys(files).sort(), warnings };
+}
+
+/**
+ * Run a smoke message against an agent in a real sandbox. Failures of the
+ * run itself are reported in the result; an unknown or invalid config
+ * throws.
+ */
+export async function dryRunAgent(
+  request: Omit<ProcessRequest, "message"> & { message?: string },
+  options: { signal?: AbortSignal } = {}
+): Promise<DryRunResult> {
+  const start = Date.now();
+  // Pinned, so a rollout doesn't pick the version being tested
+  const configVersion = request.configVersion ?? CURRENT_VERSION;
+  const processRequest: ProcessRequest = {
+    ...request,
+    message: request.message || DRY_RUN_MESSAGE,
+    configVersion,
+  };
+  loadAgentConfig(configIdFor(request.agentId, configVersion));
+
+  console.log(`[Admin] Dry run of agent ${request.agentId} (${configVersion})`);
+  const admission = await admit(processRequest, options);
+  try {
+    const { response, timing } = await executeInSandbox(processRequest, {
+      ...options,
+      escalate: false,
+      version: admission.version,
+    });
+    return {
+      agentId: request.agentId,
+      configVersion,
+      passed: !response.error,
+      message: processRequest.message,
+      response,
+      timing,
+      durationMs: Date.now() - start,
+    };
+  } catch (error) {
+    const appError = toAppError(error);
+    console.error(
+      `[Admin] Dry run of agent ${request.agentId} failed (${appError.code}):`,
+      appError.message
+    );
+    return {
+      agentId: request.agentId,
+      configVersion,
+      passed: false,
+      message: processRequest.message,
+      error: appError.toJSON(),
+      durationMs: Date.now() - start,
+    };
+  } finally {
+    admission.release();
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Config source backed by a directory of archives, one per config ID:
+ * support.tar.gz, support@v2.zip, … Each archive holds the same layout as
+ * a local config directory, optionally under a single top-level folder.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import {
+  ARCHIVE_EXTENSIONS,
+  decodeTextEntry,
+  readArchive,
+  stripArchiveExtension,
+} from "./archive.js";
+import type { ConfigFiles, ConfigSource } from "./config-source.js";
+import { watchPath } from "./file-watch.js";
+
+const DEFAULT_ARCHIVE_DIR = path.resolve(process.env.CONFIG_ARCHIVE_DIR || "agent-archives");
+
+export function createArchiveConfigSource(archiveDir: string = DEFAULT_ARCHIVE_DIR): ConfigSource {
+  /** Archive file per config ID; the first extension in ARCHIVE_EXTENSIONS wins */
+  const findArchive = (configId: string): string | null => {
+    for (const extension of ARCHIVE_EXTENSIONS) {
+      const archivePath = path.join(archiveDir, `${configId}${extension}`);
+      if (path.dirname(archivePath) === archiveDir && fs.existsSync(archivePath)) {
+        return archivePath;
+      }
+    }
+    return null;
+  };
+
+  return {
+    name: "archive",
+
+    async list() {
+      if (!fs.existsSync(archiveDir)) return [];
+      const configIds = fs
+        .readdirSync(archiveDir)
+        .map(stripArchiveExtension)
+        .filter((configId): configId is string => !!configId);
+      return [...new Set(configIds)];
+    },
+
+    async fetch(configId) {
+      const archivePath = findArchive(configId);
+      if (!archivePath) return null;
+
+      const files: ConfigFiles = {};
+      for (const [name, content] of readArchive(fs.readFileSync(archivePath))) {
+        files[name] = decodeTextEntry(name, content);
+      }
+      return { files, source: "archive" };
+    },
+
+    watch(onChange) {
+      const watcher = watchPath(archiveDir, {
+        onChange: (filename) => {
+          const configId = filename && stripArchiveExtension(filename);
+          if (configId) onChange(configId);
+        },
+      });
+      return () => watcher?.close();
+    },
+  };
+}
@@ -0,0 +1,216 @@
+/**
+ * Minimal readers for config bundle archives: tar (optionally gzipped) and
+ * zip (stored or deflated). Only regular files are extracted; entries that
+ * would escape the bundle directory are rejected, and so are archives that
+ * extract to more than ARCHIVE_MAX_EXTRACTED_BYTES. Config files are text:
+ * decodeTextEntry refuses binary entries rather than mangling them.
+ */
+import * as path from "path";
+import * as zlib from "zlib";
+
+/** File extensions recognized as config bundle archives */
+export const ARCHIVE_EXTENSIONS = [".tar.gz", ".tgz", ".tar", ".zip"] as const;
+
+const ARCHIVE_MAX_EXTRACTED_BYTES = parseInt(
+  process.env.ARCHIVE_MAX_EXTRACTED_BYTES || String(50 * 1024 * 1024),
+  10
+);
+
+const TAR_FRAMING_BYTES = 1024 * 1024;
+
+// Fatal so invalid UTF-8 throws instead of becoming U+FFFD; keeps any BOM
+const utf8 = new TextDecoder("utf-8", { fatal: true, ignoreBOM: true });
+
+function tooLarge(): Error {
+  return new Error(`Archive extracts to more than ${ARCHIVE_MAX_EXTRACTED_BYTES} bytes`);
+}
+
+/** Decompress without ever producing more than `limit` bytes */
+function decompress(decompressor: "gunzip" | "inflateRaw", data: Buffer, limit: number): Buffer {
+  try {
+    return decompressor === "gunzip"
+      ? zlib.gunzipSync(data, { maxOutputLength: Math.max(1, limit) })
+      : zlib.inflateRawSync(data, { maxOutputLength: Math.max(1, limit) });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ERR_BUFFER_TOO_LARGE") throw tooLarge();
+    throw err;
+  }
+}
+
+/** The name of an archive without its extension, or null if not an archive */
+export function stripArchiveExtension(fileName: string): string | null {
+  const extension = ARCHIVE_EXTENSIONS.find((ext) => fileName.endsWith(ext));
+  return extension ? fileName.slice(0, -extension.length) : null;
+}
+
+function safeEntryPath(name: string): string | null {
+  const normalized = path.posix.normalize(name.replace(/\\/g, "/")).replace(/^\.\//, "");
+  if (!normalized || normalized.endsWith("/")) return null;
+  if (path.posix.isAbsolute(normalized) || normalized.split("/").includes("..")) {
+    throw new Error(`Archive entry escapes the bundle: ${name}`);
+  }
+  return normalized;
+}
+
+function readString(block: Buffer, offset: number, length: number): string {
+  const raw = block.subarray(offset, offset + length);
+  const end = raw.indexOf(0);
+  return raw.subarray(0, end === -1 ? raw.length : end).toString("utf-8");
+}
+
+function readOctal(block: Buffer, offset: number, length: number): number {
+  const text = readString(block, offset, length).trim();
+  return text ? parseInt(text, 8) : 0;
+}
+
+/** Parse `<len> key=value\n` records of a pax extended header */
+function parsePax(data: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < data.length) {
+    const space = data.indexOf(0x20, offset);
+    if (space === -1) break;
+    const length = parseInt(data.subarray(offset, space).toString("utf-8"), 10);
+    if (!length) break;
+    const record = data.subarray(space + 1, offset + length - 1).toString("utf-8");
+    const eq = record.indexOf("=");
+    if (eq !== -1) records[record.slice(0, eq)] = record.slice(eq + 1);
+    offset += length;
+  }
+  return records;
+}
+
+function readTar(data: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let offset = 0;
+  let longName: string | undefined;
+  let extracted = 0;
+
+  while (offset + 512 <= data.length) {
+    const header = data.subarray(offset, offset + 512);
+    if (header.every((byte) => byte === 0)) break;
+
+    const size = readOctal(header, 124, 12);
+    const type = String.fromCharCode(header[156] || 0x30);
+    const body = data.subarray(offset + 512, offset + 512 + size);
+    offset += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "x") {
+      longName = parsePax(body).path ?? longName;
+      continue;
+    }
+    if (type === "L") {
+      longName = readString(body, 0, body.length);
+      continue;
+    }
+
+    // ustar splits long paths into prefix + name
+    const prefix = readString(header, 345, 155);
+    const shortName = readString(header, 0, 100);
+    const name = longName ?? (prefix ? `${prefix}/${shortName}` : shortName);
+    longName = undefined;
+
+    // Regular files only; directories, links and global headers are skipped
+    if (type !== "0" && type !== "7") continue;
+    const entryPath = safeEntryPath(name);
+    if (!entryPath) continue;
+    extracted += body.length;
+    if (extracted > ARCHIVE_MAX_EXTRACTED_BYTES) throw tooLarge();
+    files.set(entryPath, Buffer.from(body));
+  }
+  return files;
+}
+
+function readZip(data: Buffer): Map<string, Buffer> {
+  const files = new Map<string, Buffer>();
+  let extracted = 0;
+
+  // End of central directory: last 22+ bytes, possibly followed by a comment
+  let eocd = -1;
+  for (let i = data.length - 22; i >= Math.max(0, data.length - 22 - 0xffff); i--) {
+    if (data.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) throw new Error("Not a zip archive (no end of central directory)");
+
+  const entryCount = data.readUInt16LE(eocd + 10);
+  let offset = data.readUInt32LE(eocd + 16);
+  if (offset === 0xffffffff) throw new Error("Zip64 archives are not supported");
+
+  for (let i = 0; i < entryCount; i++) {
+    if (data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("Corrupt zip central directory");
+    }
+    const method = data.readUInt16LE(offset + 10);
+    const compressedSize = data.readUInt32LE(offset + 20);
+    const nameLength = data.readUInt16LE(offset + 28);
+    const extraLength = data.readUInt16LE(offset + 30);
+    const commentLength = data.readUInt16LE(offset + 32);
+    const localOffset = data.readUInt32LE(offset + 42);
+    const name = data.subarray(offset + 46, offset + 46 + nameLength).toString("utf-8");
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    const entryPath = safeEntryPath(name);
+    if (!entryPath) continue;
+
+    const localNameLength = data.readUInt16LE(localOffset + 26);
+    const localExtraLength = data.readUInt16LE(localOffset + 28);
+    const start = localOffset + 30 + localNameLength + localExtraLength;
+    const compressed = data.subarray(start, start + compressedSize);
+
+    let content: Buffer;
+    if (method === 0) content = Buffer.from(compressed);
+    else if (method === 8) {
+      content = decompress("inflateRaw", compressed, ARCHIVE_MAX_EXTRACTED_BYTES - extracted);
+    } else throw new Error(`Unsupported zip compression method ${method} for ${name}`);
+
+    extracted += content.length;
+    if (extracted > ARCHIVE_MAX_EXTRACTED_BYTES) throw tooLarge();
+    files.set(entryPath, content);
+  }
+  return files;
+}
+
+/**
+ * Extract a tar, tar.gz or zip archive (detected from its content).
+ * When every entry sits under one top-level directory, that directory is
+ * stripped so `support/CLAUDE.md` and `CLAUDE.md` read the same.
+ */
+export function readArchive(data: Buffer): Map<string, Buffer> {
+  if (data.length < 4) throw new Error("Archive is empty");
+
+  let files: Map<string, Buffer>;
+  if (data.readUInt32LE(0) === 0x04034b50 || data.readUInt32LE(0) === 0x06054b50) {
+    files = readZip(data);
+  } else if (data[0] === 0x1f && data[1] === 0x8b) {
+    // Headroom for tar headers and padding; readTar caps the file contents
+    files = readTar(decompress("gunzip", data, ARCHIVE_MAX_EXTRACTED_BYTES + TAR_FRAMING_BYTES));
+  } else {
+    files = readTar(data);
+  }
+
+  const tops = new Set([...files.keys()].map((name) => name.split("/")[0]));
+  const [top] = tops;
+  if (tops.size === 1 && [...files.keys()].every((name) => name.startsWith(`${top}/`))) {
+    return new Map([...files].map(([name, content]) => [name.slice(top.length + 1), content]));
+  }
+  return files;
+}
+
+function notText(name: string): Error {
+  return new Error(`Archive entry ${name} is not a UTF-8 text file; config bundles hold text only`);
+}
+
+/** An extracted entry as text; throws for binary (non-UTF-8 or NUL-containing) content */
+export function decodeTextEntry(name: string, content: Buffer): string {
+  let text: string;
+  try {
+    text = utf8.decode(content);
+  } catch {
+    throw notText(name);
+  }
+  if (text.includes("\0")) throw notText(name);
+  return text;
+}
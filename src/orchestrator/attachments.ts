@@ -0,0 +1,146 @@
+/**
+ * Attachment intake: checks a request's files against the agent's limits
+ * and turns them into sandbox files under attachments/<requestId>/ plus the
+ * descriptions the agent gets in place of the content.
+ */
+import * as path from "path";
+import { attachmentDirFor, type AttachmentFile } from "../shared/attachments.js";
+import { AppError } from "../shared/errors.js";
+import { loadAgentConfig } from "./config-loader.js";
+import type { SandboxFile } from "./sandbox-provider.js";
+import type { AttachmentSettings, AttachmentUpload, ProcessRequest } from "./types.js";
+
+const DEFAULT_ATTACHMENT_SETTINGS: AttachmentSettings = {
+  maxFiles: parseInt(process.env.ATTACHMENT_MAX_FILES || "5", 10),
+  maxFileBytes: parseInt(process.env.ATTACHMENT_MAX_FILE_BYTES || String(10 * 1024 * 1024), 10),
+  maxTotalBytes: parseInt(process.env.ATTACHMENT_MAX_TOTAL_BYTES || String(25 * 1024 * 1024), 10),
+  allowedTypes: (
+    process.env.ATTACHMENT_ALLOWED_TYPES ||
+    "image/png,image/jpeg,image/gif,image/webp,application/pdf,application/json,text/*"
+  )
+    .split(",")
+    .map((type) => type.trim())
+    .filter(Boolean),
+};
+
+const MAX_FILENAME_LENGTH = 100;
+
+// Leading bytes of binary types, so a file can't claim to be what it isn't
+const SIGNATURES: Record<string, (content: Buffer) => boolean> = {
+  "image/png": (c) => c.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  "image/jpeg": (c) => c.subarray(0, 3).equals(Buffer.from([0xff, 0xd8, 0xff])),
+  "image/gif": (c) => c.subarray(0, 4).toString("latin1") === "GIF8",
+  "image/webp": (c) =>
+    c.subarray(0, 4).toString("latin1") === "RIFF" && c.subarray(8, 12).toString("latin1") === "WEBP",
+  "application/pdf": (c) => c.subarray(0, 5).toString("latin1") === "%PDF-",
+};
+
+/** Files to write into the sandbox and what the agent is told about them */
+export interface PreparedAttachments {
+  files: SandboxFile[];
+  attachments: AttachmentFile[];
+}
+
+/**
+ * Resolve attachment limits for a config: the optional `attachments` key
+ * of its agent-config.json overrides the ATTACHMENT_* environment defaults.
+ */
+function getAttachmentSettings(configId: string): AttachmentSettings {
+  const { agentConfig } = loadAgentConfig(configId);
+  return { ...DEFAULT_ATTACHMENT_SETTINGS, ...agentConfig.attachments };
+}
+
+function isAllowedType(contentType: string, allowedTypes: string[]): boolean {
+  return allowedTypes.some((allowed) =>
+    allowed.endsWith("/*")
+      ? contentType.startsWith(allowed.slice(0, -1))
+      : contentType === allowed
+  );
+}
+
+/** A file name safe to use inside the sandbox, unique among `taken` */
+function safeFilename(filename: string, index: number, taken: Set<string>): string {
+  const base = path.basename(filename.replace(/\\/g, "/"));
+  let name = base.replace(/[^\w.-]/g, "_").replace(/^\.+/, "").slice(-MAX_FILENAME_LENGTH);
+  if (!name) name = `attachment-${index + 1}`;
+
+  const ext = path.extname(name);
+  const stem = name.slice(0, name.length - ext.length);
+  for (let n = 2; taken.has(name); n++) {
+    name = `${stem}-${n}${ext}`;
+  }
+  taken.add(name);
+  return name;
+}
+
+function decode(upload: AttachmentUpload): Buffer | null {
+  const data = upload.data.replace(/\s/g, "");
+  if (!/^[A-Za-z0-9+/]*={0,2}$/.test(data) || data.length % 4 === 1) return null;
+  return Buffer.from(data, "base64");
+}
+
+/**
+ * Check a request's attachments against the limits of the config it runs
+ * on and prepare them for the sandbox. Throws INVALID_REQUEST naming the
+ * first attachment that breaks a limit.
+ */
+export function prepareAttachments(
+  request: ProcessRequest,
+  configId: string,
+  requestId: string
+): PreparedAttachments {
+  const uploads = request.attachments ?? [];
+  if (uploads.length === 0) return { files: [], attachments: [] };
+
+  const settings = getAttachmentSettings(configId);
+  const reject = (message: string, details: Record<string, unknown> = {}) =>
+    new AppError("INVALID_REQUEST", message, { phase: "request", details });
+
+  if (uploads.length > settings.maxFiles) {
+    throw reject(`Too many attachments: ${uploads.length} (limit ${settings.maxFiles})`, {
+      limit: settings.maxFiles,
+    });
+  }
+
+  const dir = attachmentDirFor(requestId);
+  const taken = new Set<string>();
+  const prepared: PreparedAttachments = { files: [], attachments: [] };
+  let totalBytes = 0;
+
+  uploads.forEach((upload, index) => {
+    const label = `attachments[${index}] (${upload.filename})`;
+    const contentType = upload.contentType.split(";")[0].trim().toLowerCase();
+    if (!isAllowedType(contentType, settings.allowedTypes)) {
+      throw reject(`${label}: type ${contentType} is not accepted`, {
+        allowedTypes: settings.allowedTypes,
+      });
+    }
+
+    const content = decode(upload);
+    if (!content) {
+      throw reject(`${label}: data is not valid base64`);
+    }
+    if (content.length > settings.maxFileBytes) {
+      throw reject(`${label}: ${content.length} bytes exceeds the limit of ${settings.maxFileBytes}`, {
+        limit: settings.maxFileBytes,
+      });
+    }
+    totalBytes += content.length;
+    if (totalBytes > settings.maxTotalBytes) {
+      throw reject(`Attachments exceed the total limit of ${settings.maxTotalBytes} bytes`, {
+        limit: settings.maxTotalBytes,
+      });
+    }
+    const matchesSignature = SIGNATURES[contentType];
+    if (matchesSignature && !matchesSignature(content)) {
+      throw reject(`${label}: content is not ${contentType}`);
+    }
+
+    const filename = safeFilename(upload.filename, index, taken);
+    const filePath = `${dir}/${filename}`;
+    prepared.files.push({ path: filePath, content });
+    prepared.attachments.push({ filename, contentType, size: content.length, path: filePath });
+  });
+
+  return prepared;
+}
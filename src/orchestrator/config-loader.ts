@@ -1,79 +1,373 @@
-import * as fs from "fs";
-import * as path from "path";
-import type { AgentConfigBundle } from "./types.js";
+import { AppError, toAppError } from "../shared/errors.js";
+import { formatIssues, type ValidationResult } from "../shared/validation.js";
+import { validateOrchestratorAgentConfig } from "./config-schema.js";
+import { isSharedConfig, resolveAgentConfig } from "./config-resolver.js";
+import { getConfigSource, type ConfigFiles, type FetchedConfig } from "./config-source.js";
+import type {
+  AgentConfigBundle,
+  ConfigProvenance,
+  LoadedAgentConfigInfo,
+} from "./types.js";
 
-const CONFIGS_DIR = path.join(process.cwd(), "agent-configs");
+// Sources report changes in bursts (an editor save, an archive being written)
+const CONFIG_RELOAD_DEBOUNCE_MS = parseInt(process.env.CONFIG_RELOAD_DEBOUNCE_MS || "200", 10);
+
+/** A resolved agent config, replaced when it or a config it uses changes */
+interface CachedAgentConfig {
+  bundle: AgentConfigBundle;
+  /** sha256 of the resolved CLAUDE.md, agent-config.json and skill files */
+  hash: string;
+  loadedAt: number;
+  /** Config source that served the agent's own files */
+  source: string;
+  layers: string[];
+  provenance: ConfigProvenance;
+  /** Why the last reload failed, while the previous config stays in use */
+  reloadError?: string;
+}
+
+// Files of every config the source serves, agents and shared configs alike
+const rawConfigs = new Map<string, FetchedConfig>();
+const configCache = new Map<string, CachedAgentConfig>();
+// Agents the source has but that never loaded, with the reason
+const configErrors = new Map<string, AppError>();
+const reloadTimers = new Map<string, NodeJS.Timeout>();
+const reloadsInFlight = new Map<string, Promise<void>>();
+let stopWatching: (() => void) | null = null;
 
 /**
- * Load agent configuration bundle from agent-configs/{agentId}/ directory.
- *
- * Expected structure:
- *   agent-configs/{agentId}/
- *     CLAUDE.md
- *     agent-config.json
- *     .claude/skills/...  (optional)
+ * Resolve one agent from the raw configs and swap it in if the result
+ * changed. A config that fails to resolve keeps its previous version in
+ * use.
  */
-export function loadAgentConfig(agentId: string): AgentConfigBundle {
-  const agentDir = path.join(CONFIGS_DIR, agentId);
+function resolveCached(configId: string): void {
+  const cached = configCache.get(configId);
 
-  if (!fs.existsSync(agentDir)) {
-    throw new Error(`Agent config directory not found: ${agentDir}`);
+  let resolved: ReturnType<typeof resolveAgentConfig>;
+  try {
+    resolved = resolveAgentConfig(configId, (id) => rawConfigs.get(id)?.files);
+  } catch (error) {
+    const appError = toAppError(error, "config");
+    if (cached) {
+      // Likely a half-saved edit; the next change retries
+      if (cached.reloadError !== appError.message) {
+        console.error(
+          `[Config] Reload of agent ${configId} failed, keeping config ${cached.hash.slice(0, 12)}:`,
+          appError.message
+        );
+      }
+      cached.reloadError = appError.message;
+    } else {
+      if (configErrors.get(configId)?.message !== appError.message) {
+        console.error(`[Config] Agent ${configId} failed to load:`, appError.message);
+      }
+      configErrors.set(configId, appError);
+    }
+    return;
   }
 
-  // Load CLAUDE.md
-  const claudeMdPath = path.join(agentDir, "CLAUDE.md");
-  if (!fs.existsSync(claudeMdPath)) {
-    throw new Error(`CLAUDE.md not found for agent: ${agentId}`);
+  if (cached && cached.hash === resolved.hash) {
+    cached.reloadError = undefined;
+    return;
   }
-  const claudeMd = fs.readFileSync(claudeMdPath, "utf-8");
 
-  // Load agent-config.json
-  const configPath = path.join(agentDir, "agent-config.json");
-  if (!fs.existsSync(configPath)) {
-    throw new Error(`agent-config.json not found for agent: ${agentId}`);
+  configErrors.delete(configId);
+  configCache.set(configId, {
+    bundle: resolved.bundle,
+    hash: resolved.hash,
+    loadedAt: Date.now(),
+    source: rawConfigs.get(configId)!.source,
+    layers: resolved.layers,
+    provenance: resolved.provenance,
+  });
+  if (resolved.warnings.length > 0) {
+    console.warn(
+      `[Config] agent-config.json for agent ${configId} has warnings:\n${formatIssues(resolved.warnings)}`
+    );
+  }
+  if (cached) {
+    console.log(
+      `[Config] Reloaded agent ${configId} (${cached.hash.slice(0, 12)} -> ${resolved.hash.slice(0, 12)})`
+    );
   }
-  const agentConfig = JSON.parse(fs.readFileSync(configPath, "utf-8"));
+}
 
-  // Load skill files recursively from .claude/skills/
-  const skills: Record<string, string> = {};
-  const skillsDir = path.join(agentDir, ".claude", "skills");
+/**
+ * Re-resolve every agent. A change to a shared base or skill library
+ * reaches each agent that uses it; agents whose result didn't change are
+ * left alone.
+ */
+function resolveAll(): void {
+  for (const configId of [...configCache.keys(), ...configErrors.keys()]) {
+    if (!rawConfigs.has(configId)) {
+      console.log(`[Config] Agent ${configId} removed`);
+      configCache.delete(configId);
+      configErrors.delete(configId);
+    }
+  }
+  for (const configId of rawConfigs.keys()) {
+    if (!isSharedConfig(configId)) resolveCached(configId);
+  }
+}
 
-  if (fs.existsSync(skillsDir)) {
-    loadSkillsRecursive(skillsDir, skillsDir, skills);
+/** Fetch a config's files from the source. A failed fetch keeps the previous files. */
+async function fetchRaw(configId: string): Promise<void> {
+  try {
+    const fetched = await getConfigSource().fetch(configId);
+    if (fetched) rawConfigs.set(configId, fetched);
+    else rawConfigs.delete(configId);
+  } catch (error) {
+    console.error(`[Config] Fetching ${configId} failed:`, (error as Error).message);
   }
+}
+
+/** Re-fetch a config and re-resolve, after any reload of it already running */
+function reloadConfig(configId: string): Promise<void> {
+  const previous = reloadsInFlight.get(configId) ?? Promise.resolve();
+  const next = previous.then(() => fetchRaw(configId)).then(resolveAll);
+  reloadsInFlight.set(configId, next);
+  void next.finally(() => {
+    if (reloadsInFlight.get(configId) === next) reloadsInFlight.delete(configId);
+  });
+  return next;
+}
+
+/** Reload a config shortly after its source reports a change */
+function scheduleReload(configId: string): void {
+  clearTimeout(reloadTimers.get(configId));
+  reloadTimers.set(
+    configId,
+    setTimeout(() => {
+      reloadTimers.delete(configId);
+      void reloadConfig(configId);
+    }, CONFIG_RELOAD_DEBOUNCE_MS).unref()
+  );
+}
+
+/**
+ * Load every config the source lists and follow its change notifications.
+ * Must complete before loadAgentConfig is used. Safe to call more than
+ * once; later calls re-sync.
+ */
+export async function startConfigSource(): Promise<void> {
+  const source = getConfigSource();
+  const configIds = await source.list();
+
+  for (const configId of rawConfigs.keys()) {
+    if (!configIds.includes(configId)) rawConfigs.delete(configId);
+  }
+  await Promise.all(configIds.map(fetchRaw));
+  resolveAll();
+
+  if (!stopWatching) {
+    stopWatching = source.watch(scheduleReload);
+  }
+  const agents = configIds.filter((configId) => !isSharedConfig(configId)).length;
+  console.log(`[Config] Loaded ${configCache.size}/${agents} agent config(s) from ${source.name}`);
+}
+
+/** Stop following config changes */
+export function stopConfigSource(): void {
+  stopWatching?.();
+  stopWatching = null;
+  for (const timer of reloadTimers.values()) clearTimeout(timer);
+  reloadTimers.clear();
+}
+
+/**
+ * Get an agent's fully resolved configuration bundle (bases merged, skill
+ * libraries included) from memory. Edits reach it through the config
+ * source's change notifications; a broken edit leaves the previous config
+ * in use (see getLoadedAgentConfigInfo).
+ *
+ * `agentId` may name a specific version as `agentId@version`.
+ */
+export function loadAgentConfig(agentId: string): AgentConfigBundle {
+  const cached = configCache.get(agentId);
+  if (cached) return cached.bundle;
+
+  throw (
+    configErrors.get(agentId) ??
+    new AppError("AGENT_NOT_FOUND", `Agent not found: ${agentId}`, { phase: "config" })
+  );
+}
+
+/** Content hash of an agent's current config */
+export function getAgentConfigHash(agentId: string): string {
+  loadAgentConfig(agentId);
+  return configCache.get(agentId)!.hash;
+}
 
-  return { claudeMd, agentConfig, skills };
+/** Where each value of an agent's resolved config came from */
+export function explainAgentConfig(
+  agentId: string
+): { layers: string[]; provenance: ConfigProvenance } {
+  loadAgentConfig(agentId);
+  const { layers, provenance } = configCache.get(agentId)!;
+  return { layers, provenance };
 }
 
-function loadSkillsRecursive(
-  baseDir: string,
-  currentDir: string,
-  skills: Record<string, string>
-): void {
-  const entries = fs.readdirSync(currentDir, { withFileTypes: true });
+/** Hash, load time and source of an agent's current config, for GET /agents/:id */
+export function getLoadedAgentConfigInfo(agentId: string): LoadedAgentConfigInfo {
+  const { skills } = loadAgentConfig(agentId);
+  const cached = configCache.get(agentId)!;
+  return {
+    hash: cached.hash,
+    loadedAt: new Date(cached.loadedAt).toISOString(),
+    source: cached.source,
+    layers: cached.layers,
+    skills: Object.keys(skills).sort(),
+    ...(cached.reloadError && { reloadError: cached.reloadError }),
+  };
+}
 
-  for (const entry of entries) {
-    const fullPath = path.join(currentDir, entry.name);
-    const relativePath = path.relative(baseDir, fullPath);
+/**
+ * Check one config against a set of files. Agents are resolved in full
+ * (bases, skill libraries); shared configs only need a valid partial
+ * agent-config.json.
+ */
+function checkConfig(
+  configId: string,
+  getFiles: (configId: string) => ConfigFiles | undefined
+): ValidationResult {
+  const result: ValidationResult = { errors: [], warnings: [] };
 
-    if (entry.isDirectory()) {
-      loadSkillsRecursive(baseDir, fullPath, skills);
-    } else if (entry.isFile()) {
-      skills[relativePath] = fs.readFileSync(fullPath, "utf-8");
+  if (isSharedConfig(configId)) {
+    const content = getFiles(configId)?.["agent-config.json"];
+    if (content === undefined) return result;
+    try {
+      return validateOrchestratorAgentConfig(JSON.parse(content), { partial: true });
+    } catch (err) {
+      result.errors.push({
+        path: "agent-config.json",
+        message: `not valid JSON: ${(err as Error).message}`,
+      });
+      return result;
     }
   }
+
+  try {
+    result.warnings.push(...resolveAgentConfig(configId, getFiles).warnings);
+  } catch (error) {
+    const appError = toAppError(error, "config");
+    const errors = appError.details?.errors as ValidationResult["errors"] | undefined;
+    result.errors.push(
+      ...(errors?.length ? errors : [{ path: configId, message: appError.message }])
+    );
+  }
+  return result;
+}
+
+/** Check a config as the source last served it */
+export function validateLoadedConfig(configId: string): ValidationResult {
+  if (!rawConfigs.has(configId)) {
+    return { errors: [{ path: configId, message: "config not found" }], warnings: [] };
+  }
+  return checkConfig(configId, (id) => rawConfigs.get(id)?.files);
 }
 
 /**
- * List available agent IDs (directory names under agent-configs/).
+ * Check replacing a config's files (null: deleting it) before doing so:
+ * the config itself, and every loaded agent the change would break (those
+ * issues have paths prefixed with the agent's config ID).
  */
-export function listAgentIds(): string[] {
-  if (!fs.existsSync(CONFIGS_DIR)) {
-    return [];
+export function validateConfigChange(
+  configId: string,
+  files: ConfigFiles | null
+): ValidationResult {
+  const getFiles = (id: string) =>
+    id === configId ? files ?? undefined : rawConfigs.get(id)?.files;
+  const result: ValidationResult = files
+    ? checkConfig(configId, getFiles)
+    : { errors: [], warnings: [] };
+
+  for (const [agentId, cached] of configCache) {
+    if (agentId === configId || cached.reloadError) continue;
+    const { errors } = checkConfig(agentId, getFiles);
+    result.errors.push(
+      ...errors.map((issue) => ({ ...issue, path: `${agentId}:${issue.path}` }))
+    );
   }
+  return result;
+}
+
+function readOnlySource(): AppError {
+  return new AppError(
+    "INVALID_REQUEST",
+    `Config source ${getConfigSource().name} is read-only`,
+    { phase: "config" }
+  );
+}
+
+function rejected(message: string, result: ValidationResult): AppError {
+  return new AppError("CONFIG_INVALID", `${message}:\n${formatIssues(result.errors)}`, {
+    phase: "config",
+    details: { errors: result.errors, warnings: result.warnings },
+  });
+}
+
+/**
+ * Validate and then write a config's files to the source, replacing the
+ * config as a whole. It is live when this resolves. Returns the warnings.
+ */
+export async function writeConfig(
+  configId: string,
+  files: ConfigFiles
+): Promise<ValidationResult["warnings"]> {
+  const source = getConfigSource();
+  if (!source.write) throw readOnlySource();
 
-  return fs
-    .readdirSync(CONFIGS_DIR, { withFileTypes: true })
-    .filter((d) => d.isDirectory())
-    .map((d) => d.name);
+  const result = validateConfigChange(configId, files);
+  if (result.errors.length > 0) {
+    throw rejected(`Config ${configId} was not activated`, result);
+  }
+
+  await source.write(configId, files);
+  await reloadConfig(configId);
+  console.log(`[Config] Wrote config ${configId} (${Object.keys(files).length} file(s))`);
+  return result.warnings;
+}
+
+/** Delete a config from the source, unless loaded agents still depend on it */
+export async function removeConfig(configId: string): Promise<void> {
+  const source = getConfigSource();
+  if (!rawConfigs.has(configId)) {
+    throw new AppError("AGENT_NOT_FOUND", `Config not found: ${configId}`, { phase: "config" });
+  }
+  if (!source.remove) throw readOnlySource();
+
+  const result = validateConfigChange(configId, null);
+  if (result.errors.length > 0) {
+    throw rejected(`Config ${configId} is still in use`, result);
+  }
+
+  await source.remove(configId);
+  await reloadConfig(configId);
+  // Still there when another, read-only source also has it
+  if (rawConfigs.has(configId)) {
+    throw new AppError(
+      "INVALID_REQUEST",
+      `Config ${configId} is also served by the read-only ${rawConfigs.get(configId)!.source} source`,
+      { phase: "config" }
+    );
+  }
+  console.log(`[Config] Removed config ${configId}`);
+}
+
+/**
+ * List every config the source serves: agents' current versions, their
+ * `agentId@version` siblings, and shared configs (`_`-prefixed).
+ */
+export function listConfigIds(): string[] {
+  return [...rawConfigs.keys()].sort();
+}
+
+/**
+ * List available agent IDs, excluding other versions of an agent and
+ * shared configs.
+ */
+export function listAgentIds(): string[] {
+  return listConfigIds().filter(
+    (configId) => !configId.includes("@") && !isSharedConfig(configId)
+  );
 }
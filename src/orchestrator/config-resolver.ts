@@ -0,0 +1,330 @@
+/**
+ * Config inheritance and shared skill libraries.
+ *
+ * An agent-config.json can list base configs in `extends`; bases are merged
+ * first (in order, recursively), then the config itself:
+ *
+ *   allowedTools, toolSettings / mcpSettings lists,
+ *   outputSchema flags / requiredMetadata,
+ *   guardrails blockedPhrases phrases                 union, base entries first
+ *   mcpServers, outputSchema metadataProperties      merged by name; a server or
+ *                                                     property definition replaces
+ *                                                     the base's
+ *   toolPolicy rules                                  appended, base rules first
+ *   additionalInstructions, CLAUDE.md                 concatenated, base first
+ *   modalitySettings and other objects                merged key by key
+ *   anything else                                     the later config wins
+ *   rollout                                           never inherited
+ *
+ * Configs whose ID starts with `_` are shared, not agents: abstract bases
+ * (which may leave out required keys) and `_skills`, whose subdirectories
+ * are skill libraries an agent includes by name with `skillLibraries`.
+ * Library skills rank below the agent's and its bases' own skill files.
+ */
+import { createHash } from "crypto";
+import { AppError } from "../shared/errors.js";
+import { formatIssues, type ValidationIssue } from "../shared/validation.js";
+import { validateOrchestratorAgentConfig } from "./config-schema.js";
+import type { ConfigFiles } from "./config-source.js";
+import type { AgentConfigBundle, ConfigProvenance, OrchestratorAgentConfig } from "./types.js";
+
+/** Config holding the shared skill libraries, one per subdirectory */
+export const SKILL_LIBRARIES_CONFIG = "_skills";
+
+const SKILLS_PREFIX = ".claude/skills/";
+
+// Keys that apply only to the config that declares them
+const NOT_INHERITED = ["extends", "skillLibraries", "rollout"];
+
+type MergeRule = "union" | "append" | "concat" | "replace";
+
+// Paths with special merge rules; `*` matches any key
+const MERGE_RULES: [string, MergeRule][] = [
+  ["allowedTools", "union"],
+  ["additionalInstructions", "concat"],
+  ["mcpServers.*", "replace"],
+  ["modalitySettings.*.toolSettings.allowedTools", "union"],
+  ["modalitySettings.*.toolSettings.disabledTools", "union"],
+  ["modalitySettings.*.mcpSettings.enabledServers", "union"],
+  ["modalitySettings.*.mcpSettings.disabledServers", "union"],
+  ["outputSchema.flags", "union"],
+  ["outputSchema.metadataProperties.*", "replace"],
+  ["outputSchema.requiredMetadata", "union"],
+  ["guardrails.blockedPhrases.phrases", "union"],
+  ["toolPolicy.rules", "append"],
+];
+
+/** A fully resolved agent config */
+export interface ResolvedAgentConfig {
+  bundle: AgentConfigBundle;
+  /** sha256 of the resolved CLAUDE.md, agent-config.json and skill files */
+  hash: string;
+  /** Configs merged, bases first, ending with the agent itself */
+  layers: string[];
+  provenance: ConfigProvenance;
+  warnings: ValidationIssue[];
+}
+
+interface Layer {
+  configId: string;
+  files: ConfigFiles;
+  config: Record<string, unknown>;
+}
+
+/** Shared configs (bases, skill libraries) aren't agents */
+export function isSharedConfig(configId: string): boolean {
+  return configId.startsWith("_");
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function mergeRule(path: string[]): MergeRule | undefined {
+  for (const [pattern, rule] of MERGE_RULES) {
+    const segments = pattern.split(".");
+    if (
+      segments.length === path.length &&
+      segments.every((segment, i) => segment === "*" || segment === path[i])
+    ) {
+      return rule;
+    }
+  }
+  return undefined;
+}
+
+function invalid(message: string, errors: ValidationIssue[] = []): AppError {
+  return new AppError("CONFIG_INVALID", message, {
+    phase: "config",
+    details: { errors, warnings: [] },
+  });
+}
+
+/**
+ * Merge one layer's value into the accumulated one, recording which
+ * config supplied each part.
+ */
+function mergeValue(
+  base: unknown,
+  value: unknown,
+  path: string[],
+  configId: string,
+  provenance: ConfigProvenance
+): unknown {
+  const key = path.join(".");
+  const rule = mergeRule(path);
+
+  if (rule === "union" && Array.isArray(value)) {
+    const merged = Array.isArray(base) ? [...base] : [];
+    for (const item of value) {
+      if (!merged.includes(item)) merged.push(item);
+      const itemKey = `${key}[${String(item)}]`;
+      provenance[itemKey] = [...(provenance[itemKey] ?? []), configId];
+    }
+    return merged;
+  }
+
+  if (rule === "append" && Array.isArray(value)) {
+    const merged = Array.isArray(base) ? [...base] : [];
+    for (const item of value) {
+      provenance[`${key}[${merged.length}]`] = [configId];
+      merged.push(item);
+    }
+    return merged;
+  }
+
+  if (rule === "concat" && typeof value === "string") {
+    if (!value) return base ?? value;
+    provenance[key] = [...(provenance[key] ?? []), configId];
+    return typeof base === "string" && base ? `${base}\n\n${value}` : value;
+  }
+
+  if (rule !== "replace" && isPlainObject(value)) {
+    const merged: Record<string, unknown> = isPlainObject(base) ? { ...base } : {};
+    for (const [childKey, childValue] of Object.entries(value)) {
+      merged[childKey] = mergeValue(
+        merged[childKey],
+        childValue,
+        [...path, childKey],
+        configId,
+        provenance
+      );
+    }
+    return merged;
+  }
+
+  // Replaced wholesale: drop what earlier configs recorded underneath
+  for (const recorded of Object.keys(provenance)) {
+    if (recorded.startsWith(`${key}.`) || recorded.startsWith(`${key}[`)) {
+      delete provenance[recorded];
+    }
+  }
+  provenance[key] = [configId];
+  return value;
+}
+
+function parseLayer(configId: string, files: ConfigFiles, isRoot: boolean): Layer {
+  const raw = files["agent-config.json"];
+  if (raw === undefined) {
+    // A shared base may contribute only CLAUDE.md or skills
+    if (!isRoot && isSharedConfig(configId)) return { configId, files, config: {} };
+    throw invalid(`agent-config.json not found for agent: ${configId}`);
+  }
+
+  let config: unknown;
+  try {
+    config = JSON.parse(raw);
+  } catch (err) {
+    throw invalid(
+      `agent-config.json for agent ${configId} is not valid JSON: ${(err as Error).message}`
+    );
+  }
+
+  const { errors } = validateOrchestratorAgentConfig(config, { partial: true });
+  if (errors.length > 0) {
+    const prefixed = isRoot
+      ? errors
+      : errors.map((issue) => ({ ...issue, path: `${configId}:${issue.path}` }));
+    throw invalid(
+      `agent-config.json for agent ${configId} is invalid:\n${formatIssues(prefixed)}`,
+      prefixed
+    );
+  }
+  return { configId, files, config: config as Record<string, unknown> };
+}
+
+/**
+ * Order the configs an agent inherits from: each base's own bases first,
+ * every config once (the first time it's reached).
+ */
+function linearize(
+  configId: string,
+  getFiles: (configId: string) => ConfigFiles | undefined,
+  chain: string[],
+  layers: Layer[]
+): void {
+  if (chain.includes(configId)) {
+    throw invalid(`Config inheritance cycle: ${[...chain, configId].join(" -> ")}`);
+  }
+  if (layers.some((layer) => layer.configId === configId)) return;
+
+  const files = getFiles(configId);
+  if (!files && chain.length === 0) {
+    throw new AppError("AGENT_NOT_FOUND", `Agent not found: ${configId}`, { phase: "config" });
+  }
+  if (!files) {
+    const parent = chain[chain.length - 1];
+    const path = parent === chain[0] ? "extends" : `${parent}:extends`;
+    throw invalid(`${parent} extends unknown config "${configId}"`, [
+      { path, message: `unknown config "${configId}"` },
+    ]);
+  }
+
+  const layer = parseLayer(configId, files, chain.length === 0);
+  for (const base of (layer.config.extends as string[] | undefined) ?? []) {
+    linearize(base, getFiles, [...chain, configId], layers);
+  }
+  layers.push(layer);
+}
+
+/**
+ * Resolve an agent's config: its bases merged in, skill libraries
+ * included, and the result validated as a complete agent-config.json.
+ * Throws CONFIG_INVALID; `getFiles` returns undefined for unknown configs.
+ */
+export function resolveAgentConfig(
+  configId: string,
+  getFiles: (configId: string) => ConfigFiles | undefined
+): ResolvedAgentConfig {
+  const layers: Layer[] = [];
+  linearize(configId, getFiles, [], layers);
+  const root = layers[layers.length - 1];
+  const provenance: ConfigProvenance = {};
+
+  // agent-config.json
+  let merged: Record<string, unknown> = {};
+  for (const layer of layers) {
+    for (const [key, value] of Object.entries(layer.config)) {
+      if (NOT_INHERITED.includes(key)) continue;
+      merged[key] = mergeValue(merged[key], value, [key], layer.configId, provenance);
+    }
+  }
+  if (root.config.rollout !== undefined) {
+    merged.rollout = root.config.rollout;
+    provenance.rollout = [configId];
+  }
+
+  const { errors, warnings } = validateOrchestratorAgentConfig(merged);
+  if (errors.length > 0) {
+    const context = layers.length > 1 ? " after inheritance" : "";
+    throw invalid(
+      `agent-config.json for agent ${configId} is invalid${context}:\n${formatIssues(errors)}`,
+      errors
+    );
+  }
+
+  // CLAUDE.md
+  const claudeMdParts: string[] = [];
+  for (const layer of layers) {
+    const content = layer.files["CLAUDE.md"];
+    if (content === undefined) continue;
+    claudeMdParts.push(content);
+    provenance["CLAUDE.md"] = [...(provenance["CLAUDE.md"] ?? []), layer.configId];
+  }
+  if (claudeMdParts.length === 0) {
+    throw invalid(`CLAUDE.md not found for agent: ${configId}`, [
+      { path: "CLAUDE.md", message: "file not found" },
+    ]);
+  }
+
+  // Skills: libraries first, then each layer's own files
+  const skills: Record<string, string> = {};
+  const libraries = new Set(
+    layers.flatMap((layer) => (layer.config.skillLibraries as string[] | undefined) ?? [])
+  );
+  if (libraries.size > 0) {
+    const libraryFiles = getFiles(SKILL_LIBRARIES_CONFIG) ?? {};
+    for (const library of libraries) {
+      const prefix = `${library}/`;
+      const entries = Object.entries(libraryFiles).filter(([name]) => name.startsWith(prefix));
+      if (entries.length === 0) {
+        throw invalid(`Skill library "${library}" not found for agent ${configId}`, [
+          { path: "skillLibraries", message: `unknown library "${library}"` },
+        ]);
+      }
+      for (const [name, content] of entries) {
+        const skillPath = name.slice(prefix.length);
+        skills[skillPath] = content;
+        provenance[`skills/${skillPath}`] = [`${SKILL_LIBRARIES_CONFIG}/${library}`];
+      }
+    }
+  }
+  for (const layer of layers) {
+    for (const [name, content] of Object.entries(layer.files)) {
+      if (!name.startsWith(SKILLS_PREFIX)) continue;
+      const skillPath = name.slice(SKILLS_PREFIX.length);
+      skills[skillPath] = content;
+      provenance[`skills/${skillPath}`] = [layer.configId];
+    }
+  }
+
+  const bundle: AgentConfigBundle = {
+    claudeMd: claudeMdParts.join("\n\n"),
+    agentConfig: merged as unknown as OrchestratorAgentConfig,
+    skills,
+  };
+
+  const hash = createHash("sha256");
+  hash.update(`CLAUDE.md\0${bundle.claudeMd}\0agent-config.json\0${JSON.stringify(merged)}\0`);
+  for (const skillPath of Object.keys(skills).sort()) {
+    hash.update(`${skillPath}\0${skills[skillPath]}\0`);
+  }
+
+  return {
+    bundle,
+    hash: hash.digest("hex"),
+    layers: layers.map((layer) => layer.configId),
+    provenance,
+    warnings,
+  };
+}
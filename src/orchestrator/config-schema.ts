@@ -0,0 +1,134 @@
+/**
+ * Schema for the orchestrator-side keys of agent-config.json (pooling,
+ * affinity, retries, …). The agent bundle ignores these keys; the runtime
+ * keys are validated by the shared agent config schema.
+ */
+import { validateAgentConfig } from "../shared/agent-config.js";
+import type { Schema, ValidationResult } from "../shared/validation.js";
+import { SANDBOX_PROVIDER_NAMES } from "./sandbox-provider.js";
+
+const durationMs: Schema = { type: "number", integer: true, min: 0 };
+const count: Schema = { type: "number", integer: true, min: 0 };
+const positiveCount: Schema = { type: "number", integer: true, min: 1 };
+
+const phaseRetrySchema: Schema = {
+  type: "object",
+  properties: { maxAttempts: positiveCount },
+};
+
+const escalationSinkSchema: Schema = {
+  type: "variant",
+  discriminator: "type",
+  variants: {
+    webhook: {
+      type: "object",
+      properties: {
+        type: { type: "string" },
+        url: { type: "string", minLength: 1 },
+        headers: { type: "record", values: { type: "string" } },
+      },
+      required: ["url"],
+    },
+    file: {
+      type: "object",
+      properties: { type: { type: "string" }, path: { type: "string", minLength: 1 } },
+    },
+    email: {
+      type: "object",
+      properties: {
+        type: { type: "string" },
+        to: { type: "array", items: { type: "string", minLength: 1 } },
+        from: { type: "string", minLength: 1 },
+      },
+      required: ["to"],
+    },
+  },
+};
+
+const versionName: Schema = { type: "string", minLength: 1 };
+
+const orchestratorProperties: Record<string, Schema> = {
+  sandboxProvider: { type: "string", enum: SANDBOX_PROVIDER_NAMES },
+  sandboxDependencies: { type: "record", values: { type: "string", minLength: 1 } },
+  pool: {
+    type: "object",
+    properties: { minSize: count, maxSize: count, idleTtlMs: durationMs },
+  },
+  affinity: {
+    type: "object",
+    properties: {
+      enabled: { type: "boolean" },
+      idleTimeoutMs: durationMs,
+      maxLifetimeMs: durationMs,
+    },
+  },
+  sessionRetention: {
+    type: "object",
+    properties: { retentionMs: durationMs, maxTranscriptBytes: count },
+  },
+  attachments: {
+    type: "object",
+    properties: {
+      maxFiles: count,
+      maxFileBytes: count,
+      maxTotalBytes: count,
+      allowedTypes: { type: "array", items: { type: "string", minLength: 1 } },
+    },
+  },
+  retryPolicy: {
+    type: "object",
+    properties: {
+      maxAttempts: positiveCount,
+      baseDelayMs: durationMs,
+      maxDelayMs: durationMs,
+      maxRecreates: count,
+      phases: {
+        type: "object",
+        properties: {
+          create: phaseRetrySchema,
+          writeFiles: phaseRetrySchema,
+          install: phaseRetrySchema,
+          serverStart: phaseRetrySchema,
+          healthPoll: phaseRetrySchema,
+        },
+      },
+    },
+  },
+  concurrency: {
+    type: "object",
+    properties: { maxConcurrent: positiveCount, maxQueueDepth: count },
+  },
+  extends: { type: "array", items: { type: "string", minLength: 1 } },
+  skillLibraries: { type: "array", items: { type: "string", minLength: 1 } },
+  escalation: {
+    type: "object",
+    properties: {
+      sinks: { type: "array", items: escalationSinkSchema },
+      dedupWindowMs: durationMs,
+      transcriptMessages: count,
+    },
+    required: ["sinks"],
+  },
+  rollout: {
+    type: "object",
+    properties: {
+      canary: versionName,
+      percent: { type: "number", min: 0, max: 100 },
+      stable: versionName,
+      stickyKey: { type: "string", enum: ["conversationId", "customerId"] },
+    },
+    required: ["canary", "percent"],
+  },
+};
+
+/**
+ * Validate a parsed agent-config.json: runtime keys, orchestrator keys, and
+ * tool / MCP server references. `partial` validates one layer of a config
+ * that uses `extends` (see config-resolver.ts).
+ */
+export function validateOrchestratorAgentConfig(
+  config: unknown,
+  options: { partial?: boolean } = {}
+): ValidationResult {
+  return validateAgentConfig(config, orchestratorProperties, options);
+}
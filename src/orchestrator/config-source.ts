@@ -0,0 +1,121 @@
+/**
+ * Where agent configs come from.
+ *
+ * A ConfigSource serves config bundles by config ID (`agentId` or
+ * `agentId@version`) as a flat map of relative path → file content, the
+ * same layout as an `agent-configs/{configId}/` directory. The loader keeps
+ * parsed configs in memory and re-fetches one when its source reports a
+ * change.
+ *
+ * CONFIG_SOURCES picks the backends, in precedence order (default: local):
+ *   local    directory of config dirs (AGENT_CONFIGS_DIR, default ./agent-configs)
+ *   archive  directory of {configId}.tar|.tar.gz|.tgz|.zip (CONFIG_ARCHIVE_DIR)
+ *   http     config server at CONFIG_HTTP_URL (see http-config-source.ts)
+ * More than one source is combined so the first that has a config wins.
+ *
+ * Sources that implement write/remove (local) can take configs uploaded
+ * through the management API; the others are read-only.
+ */
+import { AppError } from "../shared/errors.js";
+import { createArchiveConfigSource } from "./archive-config-source.js";
+import { createHttpConfigSource } from "./http-config-source.js";
+import { createLocalConfigSource } from "./local-config-source.js";
+
+/** Relative path → UTF-8 content */
+export type ConfigFiles = Record<string, string>;
+
+export interface FetchedConfig {
+  files: ConfigFiles;
+  /** Name of the source that served it */
+  source: string;
+}
+
+export interface ConfigSource {
+  readonly name: string;
+  /** Config IDs this source can serve */
+  list(): Promise<string[]>;
+  /** A config's files, or null when this source doesn't have it */
+  fetch(configId: string): Promise<FetchedConfig | null>;
+  /**
+   * Call onChange with the ID of any config that may have been added,
+   * changed or removed. Returns a function that stops watching.
+   */
+  watch(onChange: (configId: string) => void): () => void;
+  /** Replace a config's files as a whole */
+  write?(configId: string, files: ConfigFiles): Promise<void>;
+  /** Delete a config; false when this source doesn't have it */
+  remove?(configId: string): Promise<boolean>;
+}
+
+export const CONFIG_SOURCE_NAMES = ["local", "archive", "http"] as const;
+export type ConfigSourceName = (typeof CONFIG_SOURCE_NAMES)[number];
+
+/**
+ * Serve from several sources; for each config the first source that has it
+ * wins. Changes from any source are forwarded. Writes go to the first
+ * writable source.
+ */
+export function createCompositeConfigSource(sources: ConfigSource[]): ConfigSource {
+  const writable = sources.find((source) => source.write && source.remove);
+
+  return {
+    name: sources.map((source) => source.name).join("+"),
+
+    async list() {
+      const lists = await Promise.all(sources.map((source) => source.list()));
+      return [...new Set(lists.flat())];
+    },
+
+    async fetch(configId) {
+      for (const source of sources) {
+        const fetched = await source.fetch(configId);
+        if (fetched) return fetched;
+      }
+      return null;
+    },
+
+    watch(onChange) {
+      const stops = sources.map((source) => source.watch(onChange));
+      return () => stops.forEach((stop) => stop());
+    },
+
+    ...(writable && {
+      write: (configId, files) => writable.write!(configId, files),
+      remove: (configId) => writable.remove!(configId),
+    }),
+  };
+}
+
+function createConfigSource(name: string): ConfigSource {
+  switch (name) {
+    case "local":
+      return createLocalConfigSource();
+    case "archive":
+      return createArchiveConfigSource();
+    case "http":
+      return createHttpConfigSource();
+    default:
+      throw new AppError(
+        "CONFIG_INVALID",
+        `Unknown config source "${name}". Expected one of: ${CONFIG_SOURCE_NAMES.join(", ")}`,
+        { phase: "config" }
+      );
+  }
+}
+
+let configSource: ConfigSource | null = null;
+
+/**
+ * Get (and lazily construct) the config source configured by CONFIG_SOURCES.
+ */
+export function getConfigSource(): ConfigSource {
+  if (!configSource) {
+    const names = (process.env.CONFIG_SOURCES || "local")
+      .split(",")
+      .map((name) => name.trim())
+      .filter(Boolean);
+    const sources = names.map(createConfigSource);
+    configSource = sources.length === 1 ? sources[0] : createCompositeConfigSource(sources);
+  }
+  return configSource;
+}
@@ -0,0 +1,132 @@
+/**
+ * Versioned agent configs and canary rollouts.
+ *
+ * Config `agentId` is the agent's current version; other versions are
+ * served next to it as `agentId@version` (e.g. `agent-configs/support@v2/`).
+ * A request can pin a version with `configVersion`; otherwise the
+ * `rollout` key of the current version's agent-config.json sends a
+ * percentage of traffic to a canary. The split is sticky: the same
+ * conversation (or customer) always hashes to the same side.
+ */
+import { createHash, randomUUID } from "crypto";
+import { listConfigIds, loadAgentConfig } from "./config-loader.js";
+import type { ValidationIssue } from "../shared/validation.js";
+import type { ConfigVersionInfo, ProcessRequest, RolloutSettings } from "./types.js";
+
+/** Version name of the unversioned `agentId` config */
+export const CURRENT_VERSION = "current";
+
+const VERSION_PATTERN = /^[A-Za-z0-9][A-Za-z0-9._-]*$/;
+
+/** Config ID of an agent version (also the pool and cache key) */
+export function configIdFor(agentId: string, version: string): string {
+  return version === CURRENT_VERSION ? agentId : `${agentId}@${version}`;
+}
+
+/** Split a config ID back into agent and version */
+export function parseConfigId(configId: string): { agentId: string; version: string } {
+  const at = configId.indexOf("@");
+  if (at === -1) return { agentId: configId, version: CURRENT_VERSION };
+  return { agentId: configId.slice(0, at), version: configId.slice(at + 1) };
+}
+
+export function isValidVersionName(version: string): boolean {
+  return VERSION_PATTERN.test(version);
+}
+
+/** Versions available for an agent, current first */
+export function listAgentVersions(agentId: string): string[] {
+  const versions = listConfigIds()
+    .map(parseConfigId)
+    .filter((id) => id.agentId === agentId && id.version !== CURRENT_VERSION)
+    .map((id) => id.version)
+    .sort();
+  return [CURRENT_VERSION, ...versions];
+}
+
+/**
+ * Check that the versions an agent's rollout points at exist. Run by
+ * validate:configs; at request time a missing canary falls back to stable.
+ */
+export function checkRolloutTargets(agentId: string): ValidationIssue[] {
+  let rollout: RolloutSettings | undefined;
+  try {
+    rollout = loadAgentConfig(agentId).agentConfig.rollout;
+  } catch {
+    return []; // Reported by the config's own validation
+  }
+  if (!rollout) return [];
+
+  const versions = listAgentVersions(agentId);
+  const issues: ValidationIssue[] = [];
+  for (const key of ["canary", "stable"] as const) {
+    const version = rollout[key];
+    if (version !== undefined && !versions.includes(version)) {
+      issues.push({
+        path: `rollout.${key}`,
+        message: `version "${version}" not found (expected config ${configIdFor(agentId, version)})`,
+      });
+    }
+  }
+  return issues;
+}
+
+/**
+ * Position of a sticky key in [0, 100). Salted with the agent ID so the
+ * same customer isn't in every agent's canary.
+ */
+function rolloutBucket(agentId: string, key: string): number {
+  const digest = createHash("sha256").update(`${agentId}:${key}`).digest();
+  return (digest.readUInt32BE(0) / 0x1_0000_0000) * 100;
+}
+
+function stickyKey(request: ProcessRequest, rollout: RolloutSettings): string | undefined {
+  if (rollout.stickyKey === "customerId") {
+    return request.customerId ?? request.conversationId;
+  }
+  return request.conversationId ?? request.customerId;
+}
+
+function resolved(
+  agentId: string,
+  version: string,
+  source: ConfigVersionInfo["source"]
+): ConfigVersionInfo {
+  return { agentId, version, configId: configIdFor(agentId, version), source };
+}
+
+/**
+ * Pick the config version a request runs against: its pin, else the
+ * rollout split, else the current version. A canary that fails to load
+ * falls back to the stable version instead of failing the request.
+ */
+export function resolveConfigVersion(request: ProcessRequest): ConfigVersionInfo {
+  const { agentId, configVersion } = request;
+
+  if (configVersion) {
+    return resolved(agentId, configVersion, "pinned");
+  }
+
+  const { rollout } = loadAgentConfig(agentId).agentConfig;
+  if (!rollout) {
+    return resolved(agentId, CURRENT_VERSION, "stable");
+  }
+
+  const stable = resolved(agentId, rollout.stable ?? CURRENT_VERSION, "stable");
+  const key = stickyKey(request, rollout) ?? randomUUID();
+  if (rolloutBucket(agentId, key) >= rollout.percent) {
+    return stable;
+  }
+
+  const canary = resolved(agentId, rollout.canary, "canary");
+  try {
+    loadAgentConfig(canary.configId);
+    return canary;
+  } catch (err) {
+    console.error(
+      `[Rollout] Canary ${canary.configId} unavailable, using ${stable.configId}:`,
+      err instanceof Error ? err.message : err
+    );
+    return stable;
+  }
+}
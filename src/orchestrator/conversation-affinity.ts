@@ -0,0 +1,341 @@
+/**
+ * Conversation-affine sandboxes.
+ *
+ * The agent bundle keeps conversationId → SDK session_id in memory, so a
+ * follow-up turn can only `resume` if it lands on the sandbox that served
+ * the previous one. Requests with a conversationId are bound to the sandbox
+ * that served their first turn; turns of one conversation run one at a time,
+ * and the binding ends on idle timeout, maximum lifetime, failure or an
+ * explicit close.
+ */
+import { loadAgentConfig } from "./config-loader.js";
+import { acquireSandbox } from "./sandbox-pool.js";
+import { isCurrentSandbox, stopSandbox, type LiveSandbox } from "./sandbox-setup.js";
+import type {
+  AffinitySettings,
+  ConfigVersionInfo,
+  ConversationBindingInfo,
+  ExecutionTiming,
+  ProcessRequest,
+} from "./types.js";
+
+// A bound sandbox must have this much life left to take another turn
+const AFFINITY_TURN_HEADROOM_MS = 2 * 60 * 1000; // 2 minutes
+const AFFINITY_SWEEP_INTERVAL_MS = 15_000; // 15 seconds
+
+const DEFAULT_AFFINITY_SETTINGS: AffinitySettings = {
+  enabled: process.env.CONVERSATION_AFFINITY !== "false",
+  idleTimeoutMs: parseInt(process.env.CONVERSATION_IDLE_TIMEOUT_MS || "300000", 10),
+  maxLifetimeMs: parseInt(process.env.CONVERSATION_MAX_LIFETIME_MS || "1800000", 10),
+};
+
+interface ConversationBinding {
+  conversationId: string;
+  live: LiveSandbox;
+  settings: AffinitySettings;
+  boundAt: number;
+  lastActiveAt: number;
+  turns: number;
+  inFlight: number;
+  /** Set by close(); the sandbox is stopped once in-flight turns finish */
+  closing: boolean;
+  /** Resolves when the latest queued turn has finished */
+  tail: Promise<void>;
+}
+
+/** How a turn ended; anything but "ok" stops the sandbox */
+export type LeaseOutcome = "ok" | "failed" | "cancelled";
+
+/** A sandbox handed to one request; call release() exactly once when done */
+export interface SandboxLease {
+  live: LiveSandbox;
+  /** True when the sandbox is bound to the request's conversation */
+  affine: boolean;
+  /** True when this sandbox has not served the conversation before */
+  fresh: boolean;
+  release(outcome: LeaseOutcome): Promise<void>;
+}
+
+const bindings = new Map<string, ConversationBinding>();
+let sweepTimer: NodeJS.Timeout | null = null;
+
+/**
+ * Resolve affinity settings for an agent: the optional `affinity` key of
+ * its agent-config.json overrides the CONVERSATION_* environment defaults.
+ */
+function getAffinitySettings(agentId: string): AffinitySettings {
+  const { agentConfig } = loadAgentConfig(agentId);
+  const overrides = agentConfig.affinity ?? {};
+  return { ...DEFAULT_AFFINITY_SETTINGS, ...overrides };
+}
+
+function expiryReason(binding: ConversationBinding, now: number): string | null {
+  if (binding.closing) return "closed";
+  if (now - binding.lastActiveAt > binding.settings.idleTimeoutMs) return "idle timeout";
+  if (now - binding.boundAt > binding.settings.maxLifetimeMs) return "max lifetime";
+  if (binding.live.expiresAt - now < AFFINITY_TURN_HEADROOM_MS) return "sandbox expiring";
+  // The session is persisted, so the next turn resumes on the new config
+  if (!isCurrentSandbox(binding.live)) return "config changed";
+  return null;
+}
+
+async function unbind(binding: ConversationBinding, reason: string): Promise<void> {
+  if (bindings.get(binding.conversationId) === binding) {
+    bindings.delete(binding.conversationId);
+  }
+  console.log(
+    `[Affinity] Released sandbox for conversation ${binding.conversationId} after ${binding.turns} turns (${reason})`
+  );
+  await stopSandbox(binding.live.sandbox, `conversation ${reason}`);
+}
+
+/**
+ * Keep a bound sandbox alive for at least the idle timeout plus one turn.
+ */
+async function ensureLifetime(binding: ConversationBinding): Promise<void> {
+  const needed =
+    Date.now() + binding.settings.idleTimeoutMs + AFFINITY_TURN_HEADROOM_MS;
+  const shortfall = needed - binding.live.expiresAt;
+  if (shortfall <= 0) return;
+
+  try {
+    await binding.live.sandbox.extendTimeout(shortfall);
+    binding.live.expiresAt += shortfall;
+  } catch (err) {
+    // The sweep retires the binding once the sandbox nears its deadline
+    console.warn(
+      `[Affinity] Could not extend sandbox for conversation ${binding.conversationId}:`,
+      err
+    );
+  }
+}
+
+/**
+ * Acquire a sandbox for a request, running the config version it was
+ * routed to. Requests without a conversationId (or with affinity disabled)
+ * get a one-shot sandbox that release() stops. Otherwise the conversation's
+ * live sandbox is reused, or a new one bound.
+ */
+export async function acquireConversationSandbox(
+  request: ProcessRequest,
+  version: ConfigVersionInfo,
+  timing?: ExecutionTiming
+): Promise<SandboxLease> {
+  const { conversationId } = request;
+  const { configId } = version;
+  const settings = getAffinitySettings(configId);
+
+  if (!conversationId || !settings.enabled) {
+    const live = await acquireSandbox(configId, timing);
+    return {
+      live,
+      affine: false,
+      fresh: true,
+      release: (outcome) => stopSandbox(live.sandbox, outcome === "ok" ? "done" : outcome),
+    };
+  }
+
+  let binding = bindings.get(conversationId);
+
+  // A turn on another config version retires the sandbox, but only once
+  // the conversation's running turns have finished
+  while (binding && binding.live.configId !== configId && binding.inFlight > 0) {
+    await binding.tail;
+    binding = bindings.get(conversationId);
+  }
+  if (binding && binding.live.configId !== configId) {
+    await unbind(binding, `switched to ${configId}`);
+    binding = undefined;
+  }
+  // A closing sandbox finishes the turns it has; new ones get another
+  if (binding?.closing) {
+    binding = undefined;
+  }
+  if (binding && binding.inFlight === 0) {
+    const reason = expiryReason(binding, Date.now());
+    if (reason) {
+      await unbind(binding, reason);
+      binding = undefined;
+    }
+  }
+
+  if (!binding) {
+    const live = await acquireSandbox(configId, timing);
+    const now = Date.now();
+    // Another request for this conversation may have bound one meanwhile
+    const raced = bindings.get(conversationId);
+    if (raced && raced.live.configId === configId && !raced.closing) {
+      void stopSandbox(live.sandbox, "affinity race");
+      binding = raced;
+    } else {
+      binding = {
+        conversationId,
+        live,
+        settings,
+        boundAt: now,
+        lastActiveAt: now,
+        turns: 0,
+        inFlight: 0,
+        closing: false,
+        tail: Promise.resolve(),
+      };
+      bindings.set(conversationId, binding);
+      console.log(
+        `[Affinity] Bound conversation ${conversationId} to sandbox ${live.sandbox.id}`
+      );
+    }
+  } else {
+    console.log(
+      `[Affinity] Reusing sandbox ${binding.live.sandbox.id} for conversation ${conversationId}`
+    );
+  }
+
+  // Serialize turns of the same conversation
+  const bound = binding;
+  const previous = bound.tail;
+  let finishTurn!: () => void;
+  bound.tail = new Promise((resolve) => (finishTurn = resolve));
+  bound.inFlight++;
+  await previous;
+
+  // The turn before may have failed (stopping the sandbox), or the
+  // conversation been closed, while this one waited
+  if (bindings.get(conversationId) !== bound || bound.closing) {
+    bound.inFlight--;
+    finishTurn();
+    if (bound.closing && bound.inFlight === 0) {
+      await unbind(bound, "closed");
+    }
+    return acquireConversationSandbox(request, version, timing);
+  }
+
+  let released = false;
+  return {
+    live: bound.live,
+    affine: true,
+    fresh: bound.turns === 0,
+    async release(outcome) {
+      if (released) return;
+      released = true;
+
+      bound.inFlight--;
+      // Only answered turns count, for `fresh` and the count logged on release
+      if (outcome === "ok") bound.turns++;
+      bound.lastActiveAt = Date.now();
+      finishTurn();
+
+      if (outcome !== "ok") {
+        await unbind(bound, `turn ${outcome}`);
+      } else if (bound.closing && bound.inFlight === 0) {
+        await unbind(bound, "closed");
+      } else if (!bound.closing) {
+        await ensureLifetime(bound);
+      }
+    },
+  };
+}
+
+/**
+ * Explicitly end a conversation's sandbox binding.
+ * Returns false when the conversation has no live sandbox.
+ */
+export async function closeConversation(conversationId: string): Promise<boolean> {
+  const binding = bindings.get(conversationId);
+  if (!binding) return false;
+
+  binding.closing = true;
+  if (binding.inFlight === 0) {
+    await unbind(binding, "closed");
+  }
+  return true;
+}
+
+/**
+ * The sandbox a conversation is bound to and how many of its turns are
+ * running, or undefined when it has no live sandbox.
+ */
+export function getConversationSandbox(
+  conversationId: string
+): { live: LiveSandbox; inFlight: number } | undefined {
+  const binding = bindings.get(conversationId);
+  return binding && { live: binding.live, inFlight: binding.inFlight };
+}
+
+/**
+ * How many conversation sandboxes sit idle between turns, besides the
+ * given conversation's own.
+ */
+export function countIdleConversationSandboxes(except?: string): number {
+  let idle = 0;
+  for (const binding of bindings.values()) {
+    if (binding.inFlight === 0 && binding.conversationId !== except) idle++;
+  }
+  return idle;
+}
+
+/**
+ * Stop the least recently active idle conversation sandbox (other than
+ * `except`'s) to make room for other work. Returns false when there is none.
+ */
+export function evictIdleConversation(except?: string): boolean {
+  let oldest: ConversationBinding | undefined;
+  for (const binding of bindings.values()) {
+    if (binding.inFlight > 0 || binding.conversationId === except) continue;
+    if (!oldest || binding.lastActiveAt < oldest.lastActiveAt) oldest = binding;
+  }
+  if (!oldest) return false;
+
+  void unbind(oldest, "evicted at capacity");
+  return true;
+}
+
+/** Current bindings, for the admin endpoint */
+export function listConversationBindings(): ConversationBindingInfo[] {
+  return [...bindings.values()].map((binding) => ({
+    conversationId: binding.conversationId,
+    agentId: binding.live.agentId,
+    configVersion: binding.live.configVersion,
+    sandboxId: binding.live.sandbox.id,
+    provider: binding.live.sandbox.provider,
+    boundAt: new Date(binding.boundAt).toISOString(),
+    lastActiveAt: new Date(binding.lastActiveAt).toISOString(),
+    turns: binding.turns,
+    inFlight: binding.inFlight,
+    closing: binding.closing,
+    idleExpiresAt: new Date(
+      binding.lastActiveAt + binding.settings.idleTimeoutMs
+    ).toISOString(),
+    lifetimeExpiresAt: new Date(
+      binding.boundAt + binding.settings.maxLifetimeMs
+    ).toISOString(),
+    sandboxExpiresAt: new Date(binding.live.expiresAt).toISOString(),
+  }));
+}
+
+function sweep(): void {
+  const now = Date.now();
+  for (const binding of bindings.values()) {
+    if (binding.inFlight > 0) continue;
+    const reason = expiryReason(binding, now);
+    if (reason) {
+      void unbind(binding, reason);
+    }
+  }
+}
+
+/** Start the periodic expiry sweep. Safe to call more than once. */
+export function startConversationAffinity(): void {
+  if (!sweepTimer) {
+    sweepTimer = setInterval(sweep, AFFINITY_SWEEP_INTERVAL_MS);
+    sweepTimer.unref();
+  }
+}
+
+/** Stop the sweep and every conversation-bound sandbox */
+export async function stopConversationSandboxes(): Promise<void> {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+  await Promise.all([...bindings.values()].map((b) => unbind(b, "shutdown")));
+}
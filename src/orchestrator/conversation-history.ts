@@ -0,0 +1,129 @@
+/**
+ * Conversation history and erasure (GET/DELETE /conversations/:id).
+ *
+ * A conversation bound to a live sandbox is answered by that sandbox, which
+ * has every turn. Otherwise the stored session answers: it holds the
+ * history the agent exported with the last persisted turn. Erasure clears
+ * the sandbox, stops it and deletes the stored session, the conversation's
+ * jobs and escalation tickets, and redacts its tool audit lines.
+ */
+import { AppError } from "../shared/errors.js";
+import type { ConversationErasure, ConversationHistory } from "../shared/conversation.js";
+import { closeConversation, getConversationSandbox } from "./conversation-affinity.js";
+import { eraseConversationTickets } from "./escalation.js";
+import { eraseConversationJobs } from "./job-queue.js";
+import { getSessionStore } from "./session-store.js";
+import { redactConversationToolDecisions } from "./tool-audit.js";
+import type { LiveSandbox } from "./sandbox-setup.js";
+import type { ConversationErasureInfo, ConversationHistoryInfo } from "./types.js";
+
+const CONVERSATION_REQUEST_TIMEOUT_MS = 5_000;
+
+/**
+ * Call the agent's /conversations/:id. Resolves to null when the sandbox
+ * doesn't know the conversation.
+ */
+async function requestSandbox<T>(
+  live: LiveSandbox,
+  conversationId: string,
+  method: "GET" | "DELETE"
+): Promise<T | null> {
+  const res = await fetch(
+    `${live.domainUrl}/conversations/${encodeURIComponent(conversationId)}`,
+    { method, signal: AbortSignal.timeout(CONVERSATION_REQUEST_TIMEOUT_MS) }
+  );
+  if (res.status === 404) return null;
+  if (!res.ok) {
+    throw new Error(`Agent returned ${res.status}: ${await res.text()}`);
+  }
+  return (await res.json()) as T;
+}
+
+/**
+ * A conversation's turns, oldest first, or null if neither a live sandbox
+ * nor the session store knows it.
+ */
+export async function getConversationHistory(
+  conversationId: string
+): Promise<ConversationHistoryInfo | null> {
+  const bound = getConversationSandbox(conversationId);
+  if (bound) {
+    try {
+      const history = await requestSandbox<ConversationHistory>(bound.live, conversationId, "GET");
+      if (history) return { ...history, agentId: bound.live.agentId, source: "sandbox" };
+    } catch (err) {
+      console.warn(
+        `[Conversations] Sandbox did not return history for ${conversationId}; using the stored session:`,
+        err
+      );
+    }
+  }
+
+  const stored = await getSessionStore().get(conversationId);
+  if (!stored) return null;
+  return {
+    conversationId,
+    agentId: stored.agentId,
+    sessionId: stored.sessionId,
+    turns: stored.history ?? [],
+    source: "store",
+  };
+}
+
+/**
+ * Erase a conversation everywhere the orchestrator can reach: its jobs, the
+ * bound sandbox's session mapping and transcripts (then the sandbox
+ * itself), the stored session, escalation tickets and tool audit lines.
+ * Returns null if nothing held it. Throws AGENT_BUSY while a turn or job is
+ * running, since it would persist the conversation again.
+ */
+export async function eraseConversation(
+  conversationId: string
+): Promise<ConversationErasureInfo | null> {
+  const bound = getConversationSandbox(conversationId);
+  if (bound && bound.inFlight > 0) {
+    throw new AppError(
+      "AGENT_BUSY",
+      `Conversation ${conversationId} has a turn in progress; retry once it finishes`,
+      { phase: "request", retryAfterSeconds: 5 }
+    );
+  }
+
+  const jobsDeleted = eraseConversationJobs(conversationId);
+
+  let sandbox: ConversationErasure | undefined;
+  if (bound) {
+    try {
+      sandbox =
+        (await requestSandbox<ConversationErasure>(bound.live, conversationId, "DELETE")) ??
+        undefined;
+    } catch (err) {
+      // Stopping the sandbox below removes its files all the same
+      console.warn(`[Conversations] Sandbox could not erase ${conversationId}:`, err);
+    }
+    await closeConversation(conversationId);
+  }
+  const storedSessionDeleted = await getSessionStore().delete(conversationId);
+  const escalationsDeleted = eraseConversationTickets(conversationId);
+  const toolDecisionsRedacted = await redactConversationToolDecisions(conversationId);
+
+  if (
+    !bound &&
+    !storedSessionDeleted &&
+    jobsDeleted + escalationsDeleted + toolDecisionsRedacted === 0
+  ) {
+    return null;
+  }
+  console.log(
+    `[Conversations] Erased conversation ${conversationId} (sandbox: ${bound ? "stopped" : "none"}, stored session: ${storedSessionDeleted ? "deleted" : "none"}, jobs: ${jobsDeleted}, escalations: ${escalationsDeleted}, tool decisions: ${toolDecisionsRedacted})`
+  );
+  return {
+    conversationId,
+    sandbox,
+    sandboxStopped: !!bound,
+    storedSessionDeleted,
+    jobsDeleted,
+    escalationsDeleted,
+    toolDecisionsRedacted,
+  };
+}
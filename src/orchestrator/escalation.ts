@@ -0,0 +1,464 @@
+/**
+ * Escalation handoff.
+ *
+ * A response flagged NEEDS_ESCALATION opens a ticket that is delivered to
+ * the sinks in the agent's `escalation` config: a webhook, a local ticket
+ * queue file, or an email stub. The ticket id is returned right away;
+ * delivery runs in the background with retries. Further escalations of the
+ * same conversation within `dedupWindowMs` are folded into its open ticket
+ * instead of being delivered again.
+ *
+ * Tickets are written to ESCALATIONS_DIR (one JSON file each), so a restart
+ * resumes undelivered ones. Erasing a conversation deletes its tickets and
+ * its lines in the file sinks; webhooks and emails already sent are out of
+ * reach.
+ */
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { ExtendedResponseMetadata } from "../shared/response-schema.js";
+import { loadAgentConfig } from "./config-loader.js";
+import { getSessionStore } from "./session-store.js";
+import type {
+  EscalationDelivery,
+  EscalationInfo,
+  EscalationPayload,
+  EscalationSinkSpec,
+  EscalationTicket,
+  ProcessRequest,
+  TranscriptExcerptEntry,
+} from "./types.js";
+
+const ESCALATIONS_DIR =
+  process.env.ESCALATIONS_DIR || path.join(process.cwd(), ".escalations");
+const ESCALATION_QUEUE_FILE =
+  process.env.ESCALATION_QUEUE_FILE || path.join(ESCALATIONS_DIR, "queue.jsonl");
+const ESCALATION_DEDUP_WINDOW_MS = parseInt(
+  process.env.ESCALATION_DEDUP_WINDOW_MS || String(24 * 60 * 60 * 1000),
+  10
+);
+const ESCALATION_TRANSCRIPT_MESSAGES = parseInt(
+  process.env.ESCALATION_TRANSCRIPT_MESSAGES || "10",
+  10
+);
+const ESCALATION_RETENTION_MS = parseInt(
+  process.env.ESCALATION_RETENTION_MS || String(30 * 24 * 60 * 60 * 1000),
+  10
+);
+const ESCALATION_PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+// Delivery: attempts and delay before each retry, per sink
+const DELIVERY_RETRY_DELAYS_MS = [1_000, 5_000, 25_000];
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+const NEEDS_ESCALATION = "NEEDS_ESCALATION";
+const CUSTOMER_MESSAGE_MARKER = "Customer message:\n";
+
+const tickets = new Map<string, EscalationTicket>();
+// "agentId:conversationId" -> id of its latest ticket
+const conversationTickets = new Map<string, string>();
+let started = false;
+
+function ticketFile(id: string): string {
+  return path.join(ESCALATIONS_DIR, `${id}.json`);
+}
+
+/**
+ * The file a file sink appends to. A config's `path` is relative to
+ * ESCALATIONS_DIR and must stay inside it, as a .jsonl file (ticket files
+ * there are .json).
+ */
+function sinkFile(sink: { path?: string }): string {
+  if (sink.path === undefined) return ESCALATION_QUEUE_FILE;
+
+  const file = path.resolve(ESCALATIONS_DIR, sink.path);
+  const relative = path.relative(ESCALATIONS_DIR, file);
+  if (relative.startsWith("..") || path.isAbsolute(relative) || !file.endsWith(".jsonl")) {
+    throw new Error(`File sink path must be a .jsonl file inside ${ESCALATIONS_DIR}: ${sink.path}`);
+  }
+  return file;
+}
+
+function persist(ticket: EscalationTicket): void {
+  fs.mkdirSync(ESCALATIONS_DIR, { recursive: true });
+  const file = ticketFile(ticket.id);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(ticket, null, 2), "utf-8");
+  fs.renameSync(tmp, file);
+}
+
+function conversationKey(agentId: string, conversationId: string): string {
+  return `${agentId}:${conversationId}`;
+}
+
+function index(ticket: EscalationTicket): void {
+  tickets.set(ticket.id, ticket);
+  const { agentId, conversationId } = ticket.payload;
+  if (conversationId) {
+    conversationTickets.set(conversationKey(agentId, conversationId), ticket.id);
+  }
+}
+
+function describeSink(sink: EscalationSinkSpec): string {
+  switch (sink.type) {
+    case "webhook":
+      return `webhook ${sink.url}`;
+    case "file":
+      return `file ${sink.path ?? ESCALATION_QUEUE_FILE}`;
+    case "email":
+      return `email to ${sink.to.join(", ")}`;
+  }
+}
+
+function formatEmail(
+  sink: Extract<EscalationSinkSpec, { type: "email" }>,
+  payload: EscalationPayload
+): string {
+  const lines = [
+    `From: ${sink.from ?? "escalations@localhost"}`,
+    `To: ${sink.to.join(", ")}`,
+    `Subject: [${payload.ticketId}] Escalation from ${payload.agentId}: ${payload.reason}`,
+    "",
+    `Conversation: ${payload.conversationId ?? "none"}`,
+    `Customer: ${payload.customerEmail ?? payload.customerId ?? "unknown"}`,
+    `Flags: ${payload.flags.join(", ")}`,
+    "",
+    ...payload.transcriptExcerpt.map((entry) => `${entry.role}: ${entry.text}`),
+  ];
+  return lines.join("\n");
+}
+
+/** Deliver a payload to one sink; throws when it should be retried */
+async function deliverToSink(sink: EscalationSinkSpec, payload: EscalationPayload): Promise<void> {
+  switch (sink.type) {
+    case "webhook": {
+      const res = await fetch(sink.url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "X-Escalation-Ticket": payload.ticketId,
+          ...sink.headers,
+        },
+        body: JSON.stringify(payload),
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(`Webhook responded ${res.status}`);
+      }
+      return;
+    }
+    case "file": {
+      const file = sinkFile(sink);
+      await fs.promises.mkdir(path.dirname(file), { recursive: true });
+      await fs.promises.appendFile(file, `${JSON.stringify(payload)}\n`, "utf-8");
+      return;
+    }
+    case "email":
+      // Stub until an email provider is wired up
+      console.log(
+        `[Escalation] Email for ticket ${payload.ticketId}:\n${formatEmail(sink, payload)}`
+      );
+      return;
+  }
+}
+
+/** False once a ticket has been erased or pruned */
+function isOpen(ticket: EscalationTicket): boolean {
+  return tickets.get(ticket.id) === ticket;
+}
+
+/**
+ * Deliver a ticket to one of its sinks, retrying with backoff. Stops when
+ * the ticket is erased meanwhile.
+ */
+async function deliver(ticket: EscalationTicket, delivery: EscalationDelivery): Promise<void> {
+  for (let attempt = delivery.attempts; attempt <= DELIVERY_RETRY_DELAYS_MS.length; attempt++) {
+    if (attempt > 0) {
+      await sleep(DELIVERY_RETRY_DELAYS_MS[attempt - 1]);
+    }
+    if (!isOpen(ticket)) return;
+
+    try {
+      await deliverToSink(delivery.sink, ticket.payload);
+      if (!isOpen(ticket)) return;
+      Object.assign(delivery, { status: "delivered", attempts: attempt + 1, lastError: undefined });
+      persist(ticket);
+      console.log(`[Escalation] Ticket ${ticket.id} delivered to ${describeSink(delivery.sink)}`);
+      return;
+    } catch (err) {
+      const lastError = err instanceof Error ? err.message : String(err);
+      if (!isOpen(ticket)) return;
+      Object.assign(delivery, { attempts: attempt + 1, lastError });
+      persist(ticket);
+      console.warn(
+        `[Escalation] Delivery of ticket ${ticket.id} to ${describeSink(delivery.sink)} failed (attempt ${attempt + 1}): ${lastError}`
+      );
+    }
+  }
+
+  if (!isOpen(ticket)) return;
+  delivery.status = "failed";
+  persist(ticket);
+}
+
+function deliverPending(ticket: EscalationTicket): void {
+  for (const delivery of ticket.deliveries) {
+    if (delivery.status === "pending") {
+      void deliver(ticket, delivery);
+    }
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Text of an SDK transcript message's content, skipping tool calls and results */
+function messageText(content: unknown): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .filter((block) => block?.type === "text" && typeof block.text === "string")
+    .map((block) => block.text as string)
+    .join("\n");
+}
+
+/**
+ * The last messages of a conversation from its stored SDK transcript,
+ * ending with the turn that escalated.
+ */
+async function buildTranscriptExcerpt(
+  request: ProcessRequest,
+  response: string,
+  limit: number
+): Promise<TranscriptExcerptEntry[]> {
+  const entries: TranscriptExcerptEntry[] = [];
+  const stored = request.conversationId
+    ? await getSessionStore().get(request.conversationId)
+    : null;
+
+  if (stored?.agentId === request.agentId) {
+    for (const line of stored.transcript.split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as { type?: string; message?: { content?: unknown } };
+        if (record.type !== "user" && record.type !== "assistant") continue;
+        let text = messageText(record.message?.content);
+        // Customer turns start with the request context the agent adds
+        const marker = text.indexOf(CUSTOMER_MESSAGE_MARKER);
+        if (record.type === "user" && marker !== -1) {
+          text = text.slice(marker + CUSTOMER_MESSAGE_MARKER.length);
+        }
+        text = text.trim();
+        if (text) entries.push({ role: record.type === "user" ? "customer" : "agent", text });
+      } catch {
+        // Partial line; skip it
+      }
+    }
+  }
+
+  // The final response comes as structured output, not transcript text
+  if (entries.length === 0) entries.push({ role: "customer", text: request.message });
+  entries.push({ role: "agent", text: response });
+  return entries.slice(-limit);
+}
+
+/**
+ * Hand a response off when the agent flagged NEEDS_ESCALATION and its
+ * config has escalation sinks. Returns the ticket, or undefined when the
+ * response wasn't escalated. Never throws: a failed handoff doesn't fail
+ * the request.
+ */
+export async function escalateIfNeeded(
+  request: ProcessRequest,
+  configId: string,
+  result: { response: string; metadata?: ExtendedResponseMetadata }
+): Promise<EscalationInfo | undefined> {
+  const { metadata } = result;
+  if (!metadata?.flags?.list?.includes(NEEDS_ESCALATION)) return undefined;
+
+  try {
+    const settings = loadAgentConfig(configId).agentConfig.escalation;
+    if (!settings?.sinks.length) {
+      console.warn(
+        `[Escalation] ${request.agentId} flagged ${NEEDS_ESCALATION} but has no escalation sinks`
+      );
+      return undefined;
+    }
+
+    const now = new Date();
+    const dedupWindowMs = settings.dedupWindowMs ?? ESCALATION_DEDUP_WINDOW_MS;
+    const existingId = request.conversationId
+      ? conversationTickets.get(conversationKey(request.agentId, request.conversationId))
+      : undefined;
+    const existing = existingId ? tickets.get(existingId) : undefined;
+    if (existing && now.getTime() - Date.parse(existing.lastEscalatedAt) < dedupWindowMs) {
+      existing.occurrences++;
+      existing.lastEscalatedAt = now.toISOString();
+      persist(existing);
+      console.log(
+        `[Escalation] Conversation ${request.conversationId} already has ticket ${existing.id} (${existing.occurrences} escalations)`
+      );
+      return { ticketId: existing.id, deduplicated: true };
+    }
+
+    const ticketId = `esc_${randomUUID()}`;
+    const payload: EscalationPayload = {
+      ticketId,
+      agentId: request.agentId,
+      conversationId: request.conversationId,
+      customerId: request.customerId,
+      customerEmail: request.customerEmail,
+      modality: request.modality,
+      reason: metadata.flags.escalationReason || "No reason given",
+      flags: metadata.flags.list,
+      customerAnalysis: metadata.customerAnalysis,
+      confidence: metadata.confidence,
+      message: request.message,
+      response: result.response,
+      metadata,
+      transcriptExcerpt: await buildTranscriptExcerpt(
+        request,
+        result.response,
+        settings.transcriptMessages ?? ESCALATION_TRANSCRIPT_MESSAGES
+      ),
+      createdAt: now.toISOString(),
+    };
+    const ticket: EscalationTicket = {
+      id: ticketId,
+      payload,
+      occurrences: 1,
+      lastEscalatedAt: payload.createdAt,
+      deliveries: settings.sinks.map((sink) => ({ sink, status: "pending", attempts: 0 })),
+    };
+
+    index(ticket);
+    persist(ticket);
+    console.log(
+      `[Escalation] Opened ticket ${ticketId} for ${request.agentId} (conversation ${request.conversationId ?? "none"}): ${payload.reason}`
+    );
+    deliverPending(ticket);
+    return { ticketId, deduplicated: false };
+  } catch (err) {
+    console.error(`[Escalation] Could not escalate response of ${request.agentId}:`, err);
+    return undefined;
+  }
+}
+
+export function listEscalations(): EscalationTicket[] {
+  return [...tickets.values()].sort((a, b) =>
+    b.payload.createdAt.localeCompare(a.payload.createdAt)
+  );
+}
+
+function removeTicket(ticket: EscalationTicket): void {
+  tickets.delete(ticket.id);
+  const { agentId, conversationId } = ticket.payload;
+  const key = conversationId && conversationKey(agentId, conversationId);
+  if (key && conversationTickets.get(key) === ticket.id) {
+    conversationTickets.delete(key);
+  }
+  fs.rmSync(ticketFile(ticket.id), { force: true });
+}
+
+/** Every file a file sink may have appended to */
+function sinkFiles(): string[] {
+  const files = new Set([ESCALATION_QUEUE_FILE]);
+  if (fs.existsSync(ESCALATIONS_DIR)) {
+    for (const name of fs.readdirSync(ESCALATIONS_DIR, { recursive: true })) {
+      if (String(name).endsWith(".jsonl")) files.add(path.join(ESCALATIONS_DIR, String(name)));
+    }
+  }
+  return [...files].filter((file) => fs.existsSync(file));
+}
+
+/**
+ * Drop a conversation's payloads from a file sink. Returns how many lines
+ * were removed.
+ */
+function eraseFromSinkFile(file: string, conversationId: string): number {
+  const lines = fs.readFileSync(file, "utf-8").split("\n").filter((line) => line.trim());
+  const kept = lines.filter((line) => {
+    try {
+      return (JSON.parse(line) as EscalationPayload).conversationId !== conversationId;
+    } catch {
+      return true;
+    }
+  });
+  if (kept.length === lines.length) return 0;
+
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, kept.map((line) => `${line}\n`).join(""), "utf-8");
+  fs.renameSync(tmp, file);
+  return lines.length - kept.length;
+}
+
+/**
+ * Delete a conversation's tickets (of every agent), stopping their
+ * deliveries, and its payloads in the file sinks. Returns how many tickets
+ * were deleted.
+ */
+export function eraseConversationTickets(conversationId: string): number {
+  const erased = [...tickets.values()].filter(
+    (ticket) => ticket.payload.conversationId === conversationId
+  );
+  erased.forEach(removeTicket);
+
+  let lines = 0;
+  for (const file of sinkFiles()) {
+    lines += eraseFromSinkFile(file, conversationId);
+  }
+
+  if (erased.length > 0 || lines > 0) {
+    console.log(
+      `[Escalation] Erased conversation ${conversationId}: ${erased.length} tickets, ${lines} file sink entries`
+    );
+  }
+  return erased.length;
+}
+
+/**
+ * Delete tickets past ESCALATION_RETENTION_MS whose deliveries are done.
+ */
+function pruneTickets(): void {
+  const cutoff = Date.now() - ESCALATION_RETENTION_MS;
+
+  for (const ticket of tickets.values()) {
+    if (
+      Date.parse(ticket.lastEscalatedAt) < cutoff &&
+      ticket.deliveries.every((d) => d.status !== "pending")
+    ) {
+      removeTicket(ticket);
+    }
+  }
+}
+
+/**
+ * Load persisted tickets and retry their undelivered sinks. Safe to call
+ * more than once.
+ */
+export function startEscalations(): void {
+  if (started) return;
+  started = true;
+
+  if (fs.existsSync(ESCALATIONS_DIR)) {
+    const loaded: EscalationTicket[] = [];
+    for (const name of fs.readdirSync(ESCALATIONS_DIR).filter((n) => n.endsWith(".json"))) {
+      try {
+        loaded.push(
+          JSON.parse(fs.readFileSync(path.join(ESCALATIONS_DIR, name), "utf-8")) as EscalationTicket
+        );
+      } catch (err) {
+        console.error(`[Escalation] Skipping unreadable ticket file ${name}:`, err);
+      }
+    }
+
+    loaded.sort((a, b) => a.lastEscalatedAt.localeCompare(b.lastEscalatedAt));
+    loaded.forEach(index);
+    loaded.forEach(deliverPending);
+    console.log(`[Escalation] Restored ${loaded.length} tickets`);
+  }
+
+  pruneTickets();
+  setInterval(pruneTickets, ESCALATION_PRUNE_INTERVAL_MS).unref();
+}
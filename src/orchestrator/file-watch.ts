@@ -0,0 +1,37 @@
+import * as fs from "fs";
+
+export interface WatchOptions {
+  recursive?: boolean;
+  /** Called for every change event, with the path relative to the target */
+  onChange: (filename: string | null) => void;
+  /** Called once if the watcher dies (e.g. the target was deleted) */
+  onClose?: () => void;
+}
+
+/**
+ * Watch a file or directory for changes. Returns null (after logging)
+ * when the target can't be watched, e.g. it doesn't exist.
+ *
+ * Watchers don't keep the process alive, so scripts that load configs
+ * still exit on their own.
+ */
+export function watchPath(target: string, options: WatchOptions): fs.FSWatcher | null {
+  let watcher: fs.FSWatcher;
+  try {
+    watcher = fs.watch(
+      target,
+      { recursive: options.recursive, persistent: false },
+      (_event, filename) => options.onChange(filename ? String(filename) : null)
+    );
+  } catch (err) {
+    console.warn(`[Watch] Cannot watch ${target}:`, (err as Error).message);
+    return null;
+  }
+
+  watcher.on("error", (err) => {
+    console.warn(`[Watch] Stopped watching ${target}:`, err.message);
+    watcher.close();
+    options.onClose?.();
+  });
+  return watcher;
+}
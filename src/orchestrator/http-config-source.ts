@@ -0,0 +1,87 @@
+/**
+ * Config source backed by an HTTP config server at CONFIG_HTTP_URL.
+ *
+ * Protocol (see scripts/config-stub-server.ts for a reference server):
+ *   GET {url}/configs             → { configs: { [configId]: revision } }
+ *   GET {url}/configs/{configId}  → { files: { [relativePath]: content } }, 404 if absent
+ *
+ * Revisions are opaque strings that change whenever a config does; the
+ * source polls the listing and reports configs whose revision changed.
+ * CONFIG_HTTP_TOKEN, when set, is sent as a bearer token.
+ */
+import { AppError } from "../shared/errors.js";
+import type { ConfigFiles, ConfigSource } from "./config-source.js";
+
+const CONFIG_HTTP_POLL_INTERVAL_MS = parseInt(
+  process.env.CONFIG_HTTP_POLL_INTERVAL_MS || "30000",
+  10
+);
+const CONFIG_HTTP_TIMEOUT_MS = parseInt(process.env.CONFIG_HTTP_TIMEOUT_MS || "10000", 10);
+
+export function createHttpConfigSource(
+  baseUrl: string = process.env.CONFIG_HTTP_URL || "",
+  token: string | undefined = process.env.CONFIG_HTTP_TOKEN
+): ConfigSource {
+  if (!baseUrl) {
+    throw new AppError("CONFIG_INVALID", "CONFIG_HTTP_URL is required for the http config source", {
+      phase: "config",
+    });
+  }
+  const root = baseUrl.replace(/\/+$/, "");
+
+  const get = async (urlPath: string): Promise<Response> => {
+    const res = await fetch(`${root}${urlPath}`, {
+      headers: token ? { Authorization: `Bearer ${token}` } : undefined,
+      signal: AbortSignal.timeout(CONFIG_HTTP_TIMEOUT_MS),
+    });
+    if (!res.ok && res.status !== 404) {
+      throw new Error(`Config server ${urlPath} failed (${res.status}): ${await res.text()}`);
+    }
+    return res;
+  };
+
+  const listRevisions = async (): Promise<Record<string, string>> => {
+    const res = await get("/configs");
+    const { configs } = (await res.json()) as { configs?: Record<string, string> };
+    return configs ?? {};
+  };
+
+  return {
+    name: "http",
+
+    async list() {
+      return Object.keys(await listRevisions());
+    },
+
+    async fetch(configId) {
+      const res = await get(`/configs/${encodeURIComponent(configId)}`);
+      if (res.status === 404) return null;
+      const { files } = (await res.json()) as { files: ConfigFiles };
+      return { files, source: "http" };
+    },
+
+    watch(onChange) {
+      let known: Record<string, string> | null = null;
+
+      const poll = async () => {
+        try {
+          const current = await listRevisions();
+          if (known) {
+            const ids = new Set([...Object.keys(known), ...Object.keys(current)]);
+            for (const configId of ids) {
+              if (known[configId] !== current[configId]) onChange(configId);
+            }
+          }
+          known = current;
+        } catch (err) {
+          console.warn("[Config] Polling config server failed:", (err as Error).message);
+        }
+      };
+
+      void poll();
+      const timer = setInterval(poll, CONFIG_HTTP_POLL_INTERVAL_MS);
+      timer.unref();
+      return () => clearInterval(timer);
+    },
+  };
+}
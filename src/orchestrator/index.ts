@@ -1,5 +1,15 @@
 import { serve } from "@hono/node-server";
 import { app } from "./server.js";
+import { startSandboxPools, stopSandboxPools } from "./sandbox-pool.js";
+import { poolCapacity } from "./scheduler.js";
+import {
+  startConversationAffinity,
+  stopConversationSandboxes,
+} from "./conversation-affinity.js";
+import { startSessionRetention } from "./session-store.js";
+import { startJobWorker } from "./job-queue.js";
+import { startEscalations } from "./escalation.js";
+import { startConfigSource, stopConfigSource } from "./config-loader.js";
 import { config } from "dotenv";
 
 // Load .env.local (standard for local dev secrets)
@@ -18,9 +28,34 @@ console.log(`  Port: ${PORT}`);
 console.log(`  ANTHROPIC_API_KEY: ${process.env.ANTHROPIC_API_KEY ? "set" : "missing"}`);
 console.log(`  VERCEL_TOKEN: ${process.env.VERCEL_TOKEN ? "set" : "not set"}`);
 
+// Load agent configs before accepting requests; edits are picked up live
+await startConfigSource();
+
 serve({
   fetch: app.fetch,
   port: PORT,
 });
 
 console.log(`Orchestrator running on http://localhost:${PORT}`);
+
+// Pre-start warm sandboxes for agents that configure a pool, within the global cap
+startSandboxPools(poolCapacity);
+// Expire idle and long-lived conversation-bound sandboxes
+startConversationAffinity();
+// Drop stored session transcripts past their retention period
+startSessionRetention();
+// Resume persisted jobs and start processing the queue
+startJobWorker();
+// Retry escalation tickets that weren't delivered before the restart
+startEscalations();
+
+// Stop warm and conversation-bound sandboxes on shutdown instead of leaving them to time out
+for (const signal of ["SIGTERM", "SIGINT"] as const) {
+  process.on(signal, () => {
+    console.log(`${signal} received, stopping sandboxes...`);
+    stopConfigSource();
+    Promise.all([stopSandboxPools(), stopConversationSandboxes()]).finally(() =>
+      process.exit(0)
+    );
+  });
+}
@@ -0,0 +1,410 @@
+/**
+ * Asynchronous job queue for long-running agent requests.
+ *
+ * POST /jobs returns immediately; a small worker pool runs queued jobs
+ * through executeInSandbox. Every state change is written to JOBS_DIR (one
+ * JSON file per job) so a restart picks up where it left off: queued jobs
+ * stay queued and jobs that were running are re-queued. Attachment content
+ * is never written or returned, only its metadata; a job whose attachments
+ * were lost in a restart fails instead of running without them.
+ */
+import { randomUUID } from "crypto";
+import * as dns from "dns";
+import * as fs from "fs";
+import * as net from "net";
+import * as path from "path";
+import { executeInSandbox } from "./sandbox-manager.js";
+import { admit, type Admission } from "./scheduler.js";
+import { AppError, toAppError } from "../shared/errors.js";
+import type { AttachmentUpload, Job, JobStatus, ProcessRequest } from "./types.js";
+
+const JOBS_DIR = process.env.JOBS_DIR || path.join(process.cwd(), ".jobs");
+const JOB_CONCURRENCY = parseInt(process.env.JOB_CONCURRENCY || "2", 10);
+const JOB_RETENTION_MS = parseInt(
+  process.env.JOB_RETENTION_MS || String(24 * 60 * 60 * 1000),
+  10
+);
+const JOB_PRUNE_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
+
+// Completion callback delivery: attempts and delay before each retry
+const CALLBACK_RETRY_DELAYS_MS = [1_000, 5_000, 25_000];
+const CALLBACK_TIMEOUT_MS = 10_000;
+// Hosts callbacks may go to, comma-separated; unset allows any public host
+const CALLBACK_ALLOWED_HOSTS = (process.env.CALLBACK_ALLOWED_HOSTS || "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean);
+
+// Loopback, private, link-local (cloud metadata) and other non-public ranges
+const PRIVATE_NETWORKS = new net.BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.168.0.0", 16],
+  ["224.0.0.0", 3],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 127],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  PRIVATE_NETWORKS.addSubnet(network, prefix, "ipv6");
+}
+
+const FINISHED: JobStatus[] = ["succeeded", "failed", "cancelled"];
+
+const jobs = new Map<string, Job>();
+const queue: string[] = [];
+const running = new Map<string, AbortController>();
+// jobId -> attachments with their content, until the job finishes
+const attachmentData = new Map<string, AttachmentUpload[]>();
+let started = false;
+
+function jobFile(id: string): string {
+  return path.join(JOBS_DIR, `${id}.json`);
+}
+
+function persist(job: Job): void {
+  fs.mkdirSync(JOBS_DIR, { recursive: true });
+  const file = jobFile(job.id);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(job, null, 2), "utf-8");
+  fs.renameSync(tmp, file);
+}
+
+function update(job: Job, changes: Partial<Job>): void {
+  Object.assign(job, changes);
+  // An erased job stays erased, e.g. while its callback is retried
+  if (jobs.get(job.id) === job) persist(job);
+}
+
+function invalidCallback(message: string): AppError {
+  return new AppError("INVALID_REQUEST", message, { phase: "request" });
+}
+
+/**
+ * Check that a callback URL is http(s) and goes to an allowed host: one of
+ * CALLBACK_ALLOWED_HOSTS when set, otherwise any host that resolves only to
+ * public addresses. Throws INVALID_REQUEST otherwise.
+ */
+export async function checkCallbackUrl(callbackUrl: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(callbackUrl);
+  } catch {
+    throw invalidCallback("callbackUrl must be an http(s) URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw invalidCallback("callbackUrl must be an http(s) URL");
+  }
+
+  const host = url.hostname.replace(/^\[|\]$/g, "").toLowerCase();
+  if (CALLBACK_ALLOWED_HOSTS.length > 0) {
+    if (!CALLBACK_ALLOWED_HOSTS.includes(host)) {
+      throw invalidCallback(`callbackUrl host ${host} is not in CALLBACK_ALLOWED_HOSTS`);
+    }
+    return;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host)
+      ? [host]
+      : (await dns.promises.lookup(host, { all: true })).map((a) => a.address);
+  } catch {
+    throw invalidCallback(`callbackUrl host ${host} does not resolve`);
+  }
+  const blocked = addresses.find((address) =>
+    PRIVATE_NETWORKS.check(address, net.isIPv4(address) ? "ipv4" : "ipv6")
+  );
+  if (blocked) {
+    throw invalidCallback(`callbackUrl host ${host} resolves to a non-public address`);
+  }
+}
+
+/**
+ * Accept a request for asynchronous processing.
+ */
+export function enqueueJob(request: ProcessRequest, callbackUrl?: string): Job {
+  const { attachments, ...fields } = request;
+  const job: Job = {
+    id: randomUUID(),
+    status: "queued",
+    request: {
+      ...fields,
+      ...(attachments?.length && {
+        attachments: attachments.map(({ filename, contentType, data }) => ({
+          filename,
+          contentType,
+          size: Buffer.byteLength(data, "base64"),
+        })),
+      }),
+    },
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+    ...(callbackUrl && {
+      callback: { url: callbackUrl, status: "pending", attempts: 0 },
+    }),
+  };
+
+  jobs.set(job.id, job);
+  if (attachments?.length) attachmentData.set(job.id, attachments);
+  persist(job);
+  queue.push(job.id);
+  console.log(`[Jobs] Queued ${job.id} for agent ${request.agentId} (${queue.length} queued)`);
+
+  drain();
+  return job;
+}
+
+export function getJob(id: string): Job | undefined {
+  return jobs.get(id);
+}
+
+/**
+ * Cancel a job. Queued jobs are cancelled immediately; running jobs have
+ * their sandbox request aborted and are marked cancelled when it unwinds.
+ * Returns the job, or undefined if unknown.
+ */
+export function cancelJob(id: string): Job | undefined {
+  const job = jobs.get(id);
+  if (!job || FINISHED.includes(job.status)) return job;
+
+  if (job.status === "queued") {
+    queue.splice(queue.indexOf(id), 1);
+    finish(job, { status: "cancelled" });
+  } else {
+    update(job, { cancelRequested: true });
+    running.get(id)?.abort();
+  }
+
+  console.log(`[Jobs] Cancel requested for ${id}`);
+  return job;
+}
+
+/**
+ * Delete a conversation's jobs, queued or finished, without running or
+ * calling back. Throws AGENT_BUSY while one of them is running, since it
+ * would persist the conversation again. Returns how many were deleted.
+ */
+export function eraseConversationJobs(conversationId: string): number {
+  const erased = [...jobs.values()].filter(
+    (job) => job.request.conversationId === conversationId
+  );
+  if (erased.some((job) => job.status === "running")) {
+    throw new AppError(
+      "AGENT_BUSY",
+      `Conversation ${conversationId} has a running job; cancel it or retry once it finishes`,
+      { phase: "request", retryAfterSeconds: 5 }
+    );
+  }
+
+  for (const job of erased) {
+    if (job.status === "queued") queue.splice(queue.indexOf(job.id), 1);
+    jobs.delete(job.id);
+    attachmentData.delete(job.id);
+    fs.rmSync(jobFile(job.id), { force: true });
+  }
+  if (erased.length > 0) {
+    console.log(`[Jobs] Erased ${erased.length} jobs of conversation ${conversationId}`);
+  }
+  return erased.length;
+}
+
+function drain(): void {
+  while (started && running.size < JOB_CONCURRENCY && queue.length > 0) {
+    const job = jobs.get(queue.shift()!);
+    if (job && job.status === "queued") {
+      void run(job);
+    }
+  }
+}
+
+async function run(job: Job): Promise<void> {
+  const controller = new AbortController();
+  running.set(job.id, controller);
+  update(job, {
+    status: "running",
+    startedAt: new Date().toISOString(),
+    attempts: job.attempts + 1,
+  });
+  console.log(`[Jobs] Running ${job.id} (attempt ${job.attempts})`);
+
+  const request: ProcessRequest = { ...job.request, attachments: attachmentData.get(job.id) };
+  let admission: Admission | undefined;
+  try {
+    // Jobs are already held durably, so they wait for a slot without limit
+    admission = await admit(request, {
+      signal: controller.signal,
+      unbounded: true,
+    });
+    const { response, timing } = await executeInSandbox(request, {
+      signal: controller.signal,
+      version: admission.version,
+    });
+    finish(job, {
+      status: "succeeded",
+      result: response,
+      timing,
+      queue: admission.queue,
+    });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      finish(job, { status: "cancelled" });
+    } else {
+      console.error(`[Jobs] ${job.id} failed:`, error);
+      finish(job, { status: "failed", error: toAppError(error).toJSON() });
+    }
+  } finally {
+    admission?.release();
+    running.delete(job.id);
+    drain();
+  }
+}
+
+function finish(job: Job, changes: Partial<Job>): void {
+  attachmentData.delete(job.id);
+  update(job, { ...changes, completedAt: new Date().toISOString() });
+  console.log(`[Jobs] ${job.id} ${job.status}`);
+
+  if (job.callback) {
+    void deliverCallback(job);
+  }
+}
+
+/**
+ * POST the finished job to its callback URL, retrying with backoff.
+ */
+async function deliverCallback(job: Job): Promise<void> {
+  const callback = job.callback!;
+  const payload = JSON.stringify({
+    jobId: job.id,
+    status: job.status,
+    result: job.result,
+    timing: job.timing,
+    error: job.error,
+    completedAt: job.completedAt,
+  });
+
+  for (let attempt = 0; attempt <= CALLBACK_RETRY_DELAYS_MS.length; attempt++) {
+    if (attempt > 0) {
+      await sleep(CALLBACK_RETRY_DELAYS_MS[attempt - 1]);
+    }
+
+    try {
+      // Checked again on delivery: the host may resolve elsewhere by now
+      await checkCallbackUrl(callback.url);
+      const res = await fetch(callback.url, {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Job-ID": job.id },
+        body: payload,
+        redirect: "manual",
+        signal: AbortSignal.timeout(CALLBACK_TIMEOUT_MS),
+      });
+      if (!res.ok) {
+        throw new Error(`Callback responded ${res.status}`);
+      }
+      update(job, {
+        callback: { ...callback, status: "delivered", attempts: attempt + 1 },
+      });
+      return;
+    } catch (err) {
+      const lastError = err instanceof Error ? err.message : String(err);
+      update(job, {
+        callback: { ...callback, status: "pending", attempts: attempt + 1, lastError },
+      });
+      console.warn(`[Jobs] Callback for ${job.id} failed (attempt ${attempt + 1}): ${lastError}`);
+    }
+  }
+
+  update(job, { callback: { ...job.callback!, status: "failed" } });
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Delete finished jobs older than JOB_RETENTION_MS.
+ */
+function pruneFinishedJobs(): void {
+  const cutoff = Date.now() - JOB_RETENTION_MS;
+
+  for (const job of jobs.values()) {
+    if (
+      FINISHED.includes(job.status) &&
+      job.completedAt &&
+      Date.parse(job.completedAt) < cutoff
+    ) {
+      jobs.delete(job.id);
+      fs.rmSync(jobFile(job.id), { force: true });
+    }
+  }
+}
+
+/**
+ * Load persisted jobs and start processing. Jobs interrupted by a restart
+ * are re-queued, and undelivered callbacks are retried. Safe to call more
+ * than once.
+ */
+export function startJobWorker(): void {
+  if (started) return;
+  started = true;
+
+  if (fs.existsSync(JOBS_DIR)) {
+    const loaded: Job[] = [];
+    for (const name of fs.readdirSync(JOBS_DIR).filter((n) => n.endsWith(".json"))) {
+      try {
+        loaded.push(JSON.parse(fs.readFileSync(path.join(JOBS_DIR, name), "utf-8")) as Job);
+      } catch (err) {
+        console.error(`[Jobs] Skipping unreadable job file ${name}:`, err);
+      }
+    }
+
+    loaded.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    for (const job of loaded) {
+      jobs.set(job.id, job);
+      if (job.status === "running") {
+        if (job.cancelRequested) {
+          finish(job, { status: "cancelled" });
+          continue;
+        }
+        update(job, { status: "queued" });
+      }
+      if (job.status === "queued" && job.request.attachments?.length) {
+        finish(job, {
+          status: "failed",
+          error: new AppError(
+            "INVALID_REQUEST",
+            "The job's attachments were lost in a restart; submit it again",
+            { phase: "request" }
+          ).toJSON(),
+        });
+        continue;
+      }
+      if (job.status === "queued") {
+        queue.push(job.id);
+      } else if (job.callback?.status === "pending") {
+        void deliverCallback(job);
+      }
+    }
+
+    console.log(`[Jobs] Restored ${loaded.length} jobs (${queue.length} queued)`);
+  }
+
+  pruneFinishedJobs();
+  setInterval(pruneFinishedJobs, JOB_PRUNE_INTERVAL_MS).unref();
+  drain();
+}
+
+/** Queue counters, for /health */
+export function getJobStats(): { queued: number; running: number; concurrency: number } {
+  return { queued: queue.length, running: running.size, concurrency: JOB_CONCURRENCY };
+}
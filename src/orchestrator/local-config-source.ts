@@ -0,0 +1,107 @@
+/**
+ * Config source backed by a local directory: one subdirectory per config
+ * ID, e.g. agent-configs/support/ and agent-configs/support@v2/.
+ * Dot-directories are ignored; writes are staged in them and renamed into
+ * place, so a config is never seen half-written.
+ */
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import type { ConfigFiles, ConfigSource } from "./config-source.js";
+import { watchPath } from "./file-watch.js";
+
+export const DEFAULT_CONFIGS_DIR = path.resolve(process.env.AGENT_CONFIGS_DIR || "agent-configs");
+
+function readFilesRecursive(baseDir: string, currentDir: string, files: ConfigFiles): void {
+  for (const entry of fs.readdirSync(currentDir, { withFileTypes: true })) {
+    const fullPath = path.join(currentDir, entry.name);
+
+    if (entry.isDirectory()) {
+      readFilesRecursive(baseDir, fullPath, files);
+    } else if (entry.isFile()) {
+      files[path.relative(baseDir, fullPath).split(path.sep).join("/")] =
+        fs.readFileSync(fullPath, "utf-8");
+    }
+  }
+}
+
+export function createLocalConfigSource(rootDir: string = DEFAULT_CONFIGS_DIR): ConfigSource {
+  const configDirFor = (configId: string): string | null => {
+    const configDir = path.join(rootDir, configId);
+    return path.dirname(configDir) === rootDir && !configId.startsWith(".") ? configDir : null;
+  };
+
+  /** Move a config directory out of the way, into a dot-directory to delete */
+  const setAside = (configDir: string): string | null => {
+    if (!fs.existsSync(configDir)) return null;
+    const trash = path.join(rootDir, `.removed-${randomUUID()}`);
+    fs.renameSync(configDir, trash);
+    return trash;
+  };
+
+  return {
+    name: "local",
+
+    async list() {
+      if (!fs.existsSync(rootDir)) return [];
+      return fs
+        .readdirSync(rootDir, { withFileTypes: true })
+        .filter((d) => d.isDirectory() && !d.name.startsWith("."))
+        .map((d) => d.name);
+    },
+
+    async fetch(configId) {
+      const configDir = configDirFor(configId);
+      if (!configDir || !fs.existsSync(configDir)) {
+        return null;
+      }
+
+      const files: ConfigFiles = {};
+      readFilesRecursive(configDir, configDir, files);
+      return { files, source: "local" };
+    },
+
+    watch(onChange) {
+      // Events name the changed path; its first segment is the config ID
+      const watcher = watchPath(rootDir, {
+        recursive: true,
+        onChange: (filename) => {
+          const configId = filename?.split(path.sep)[0];
+          if (configId && !configId.startsWith(".")) onChange(configId);
+        },
+      });
+      return () => watcher?.close();
+    },
+
+    async write(configId, files) {
+      const configDir = configDirFor(configId);
+      if (!configDir) throw new Error(`Invalid config ID: ${configId}`);
+
+      const staging = path.join(rootDir, `.upload-${randomUUID()}`);
+      try {
+        fs.mkdirSync(staging, { recursive: true });
+        for (const [name, content] of Object.entries(files)) {
+          const filePath = path.join(staging, ...name.split("/"));
+          if (!filePath.startsWith(staging + path.sep)) {
+            throw new Error(`Invalid file path in config ${configId}: ${name}`);
+          }
+          fs.mkdirSync(path.dirname(filePath), { recursive: true });
+          fs.writeFileSync(filePath, content);
+        }
+        const previous = setAside(configDir);
+        fs.renameSync(staging, configDir);
+        if (previous) fs.rmSync(previous, { recursive: true, force: true });
+      } finally {
+        fs.rmSync(staging, { recursive: true, force: true });
+      }
+    },
+
+    async remove(configId) {
+      const configDir = configDirFor(configId);
+      const removed = configDir && setAside(configDir);
+      if (!removed) return false;
+      fs.rmSync(removed, { recursive: true, force: true });
+      return true;
+    },
+  };
+}
@@ -0,0 +1,220 @@
+/**
+ * Local sandbox provider.
+ *
+ * Materializes the sandbox file layout into a temp directory and runs
+ * commands there as child processes, so the orchestrator works without a
+ * Vercel token or network access to Vercel. Each declared port is mapped to
+ * a free local port; a PORT env var naming a declared port is rewritten to
+ * the mapped one, mirroring how Vercel routes a port to its own domain.
+ *
+ * Snapshots are copies of the sandbox directory under .local-snapshots/.
+ */
+import { spawn, type ChildProcess } from "child_process";
+import { randomUUID } from "crypto";
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import type {
+  CommandResult,
+  CreateSandboxOptions,
+  RunCommandOptions,
+  SandboxFile,
+  SandboxHandle,
+  SandboxProvider,
+} from "./sandbox-provider.js";
+
+const LOCAL_SNAPSHOTS_DIR = path.join(process.cwd(), ".local-snapshots");
+
+// Host variables the child needs to find node/npm; everything else is explicit
+const INHERITED_ENV = ["PATH", "TMPDIR", "LANG", "NODE_EXTRA_CA_CERTS"];
+
+export function createLocalProvider(): SandboxProvider {
+  return {
+    name: "local",
+    isolated: false,
+    snapshotTtlMs: null,
+
+    async create(options: CreateSandboxOptions): Promise<SandboxHandle> {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "local-sandbox-"));
+
+      if (options.snapshotId) {
+        const snapshotDir = path.join(LOCAL_SNAPSHOTS_DIR, options.snapshotId);
+        if (!fs.existsSync(snapshotDir)) {
+          fs.rmSync(dir, { recursive: true, force: true });
+          throw new Error(`Local snapshot not found: ${options.snapshotId}`);
+        }
+        fs.cpSync(snapshotDir, dir, { recursive: true, verbatimSymlinks: true });
+      }
+
+      const portMap = new Map<number, number>();
+      for (const port of options.ports) {
+        portMap.set(port, await findFreePort());
+      }
+
+      const sandbox = new LocalSandbox(dir, portMap, options.timeoutMs);
+
+      console.log(`[LocalSandbox] Created ${sandbox.id} at ${dir}`);
+      return sandbox;
+    },
+  };
+}
+
+class LocalSandbox implements SandboxHandle {
+  readonly id = `local_${randomUUID()}`;
+  readonly provider = "local" as const;
+  private readonly children = new Set<ChildProcess>();
+  private stopped = false;
+  private deadline: number;
+  private timer: NodeJS.Timeout;
+
+  constructor(
+    private readonly dir: string,
+    private readonly portMap: Map<number, number>,
+    timeoutMs: number
+  ) {
+    this.deadline = Date.now() + timeoutMs;
+    this.timer = this.scheduleStop();
+  }
+
+  async writeFiles(files: SandboxFile[]): Promise<void> {
+    for (const file of files) {
+      const target = this.resolve(file.path);
+      fs.mkdirSync(path.dirname(target), { recursive: true });
+      fs.writeFileSync(target, file.content);
+    }
+  }
+
+  runCommand(options: RunCommandOptions): Promise<CommandResult> {
+    const env: Record<string, string> = { HOME: path.join(this.dir, ".home") };
+    for (const key of INHERITED_ENV) {
+      if (process.env[key]) env[key] = process.env[key]!;
+    }
+    for (const [key, value] of Object.entries(options.env ?? {})) {
+      env[key] =
+        key === "PORT" && this.portMap.has(Number(value))
+          ? String(this.portMap.get(Number(value)))
+          : value;
+    }
+    fs.mkdirSync(env.HOME, { recursive: true });
+
+    const child = spawn(options.cmd, options.args ?? [], {
+      cwd: this.dir,
+      env,
+      stdio: ["ignore", "pipe", "pipe"],
+    });
+    this.children.add(child);
+
+    let stdout = "";
+    let stderr = "";
+    child.stdout!.on("data", (chunk: Buffer) => {
+      stdout += chunk.toString();
+      if (options.detached) process.stdout.write(prefixLines(this.id, chunk));
+    });
+    child.stderr!.on("data", (chunk: Buffer) => {
+      stderr += chunk.toString();
+      if (options.detached) process.stderr.write(prefixLines(this.id, chunk));
+    });
+
+    return new Promise((resolve, reject) => {
+      child.once("error", (err) => {
+        this.children.delete(child);
+        reject(err);
+      });
+
+      if (options.detached) {
+        child.once("spawn", () =>
+          resolve({
+            exitCode: null,
+            stdout: async () => stdout,
+            stderr: async () => stderr,
+          })
+        );
+        child.once("exit", () => this.children.delete(child));
+        return;
+      }
+
+      child.once("close", (code) => {
+        this.children.delete(child);
+        resolve({
+          exitCode: code ?? 1,
+          stdout: async () => stdout,
+          stderr: async () => stderr,
+        });
+      });
+    });
+  }
+
+  domain(port: number): string {
+    const mapped = this.portMap.get(port);
+    if (mapped === undefined) {
+      throw new Error(`Port ${port} was not declared when creating ${this.id}`);
+    }
+    return `http://127.0.0.1:${mapped}`;
+  }
+
+  async extendTimeout(durationMs: number): Promise<void> {
+    clearTimeout(this.timer);
+    this.deadline += durationMs;
+    this.timer = this.scheduleStop();
+  }
+
+  async stop(): Promise<void> {
+    if (this.stopped) return;
+    this.stopped = true;
+    clearTimeout(this.timer);
+
+    for (const child of this.children) {
+      child.kill("SIGTERM");
+    }
+    this.children.clear();
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  async snapshot(): Promise<string> {
+    const snapshotId = `local_snap_${randomUUID()}`;
+    fs.mkdirSync(LOCAL_SNAPSHOTS_DIR, { recursive: true });
+    fs.cpSync(this.dir, path.join(LOCAL_SNAPSHOTS_DIR, snapshotId), {
+      recursive: true,
+      verbatimSymlinks: true,
+    });
+    // Match Vercel semantics: snapshotting stops the sandbox
+    await this.stop();
+    return snapshotId;
+  }
+
+  private scheduleStop(): NodeJS.Timeout {
+    const timer = setTimeout(() => void this.stop(), this.deadline - Date.now());
+    timer.unref();
+    return timer;
+  }
+
+  /** Resolve a sandbox path; absolute paths are rooted at the sandbox dir */
+  private resolve(filePath: string): string {
+    const target = path.join(this.dir, filePath.replace(/^\/+/, ""));
+    if (path.relative(this.dir, target).startsWith("..")) {
+      throw new Error(`Path escapes sandbox directory: ${filePath}`);
+    }
+    return target;
+  }
+}
+
+function findFreePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const server = net.createServer();
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", () => {
+      const { port } = server.address() as net.AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+}
+
+function prefixLines(id: string, chunk: Buffer): string {
+  return chunk
+    .toString()
+    .split("\n")
+    .filter((line) => line.length > 0)
+    .map((line) => `[${id.slice(0, 14)}] ${line}\n`)
+    .join("");
+}
@@ -0,0 +1,129 @@
+/**
+ * Phase-aware retry for sandbox setup.
+ *
+ * setupSandbox runs as a sequence of phases. Idempotent phases (create,
+ * writeFiles, install) are retried in place with exponential backoff; a
+ * failure in a phase that can't be repeated on the same sandbox (starting
+ * the server, the health check) — or a retryable phase that ran out of
+ * attempts — throws a SetupPhaseError and the sandbox is recreated, up to
+ * maxRecreates times. Every attempt is recorded for the response timing.
+ */
+import { AppError, type ErrorCode } from "../shared/errors.js";
+import type {
+  OrchestratorAgentConfig,
+  RetryPolicySettings,
+  SetupAttempt,
+  SetupPhase,
+} from "./types.js";
+
+/** Phases that can safely run again on the same sandbox */
+const RETRYABLE_PHASES: SetupPhase[] = ["create", "writeFiles", "install"];
+
+const DEFAULT_RETRY_POLICY: RetryPolicySettings = {
+  maxAttempts: parseInt(process.env.SETUP_RETRY_MAX_ATTEMPTS || "3", 10),
+  baseDelayMs: parseInt(process.env.SETUP_RETRY_BASE_DELAY_MS || "500", 10),
+  maxDelayMs: parseInt(process.env.SETUP_RETRY_MAX_DELAY_MS || "5000", 10),
+  maxRecreates: parseInt(process.env.SETUP_MAX_RECREATES || "1", 10),
+};
+
+/** Error code reported when a phase fails for good */
+const PHASE_ERROR_CODES: Record<SetupPhase, ErrorCode> = {
+  create: "SANDBOX_CREATE_FAILED",
+  writeFiles: "SANDBOX_SETUP_FAILED",
+  install: "SANDBOX_SETUP_FAILED",
+  serverStart: "SANDBOX_SETUP_FAILED",
+  healthPoll: "HEALTH_TIMEOUT",
+};
+
+/** A setup phase that failed after exhausting its attempts */
+export class SetupPhaseError extends AppError {
+  declare readonly phase: SetupPhase;
+
+  constructor(
+    phase: SetupPhase,
+    cause: unknown,
+    readonly attempts: SetupAttempt[]
+  ) {
+    super(
+      PHASE_ERROR_CODES[phase],
+      `Sandbox setup failed in ${phase}: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { phase, cause, details: { setupAttempts: attempts } }
+    );
+    this.name = "SetupPhaseError";
+  }
+}
+
+/**
+ * Resolve the retry policy for an agent: the optional `retryPolicy` key of
+ * its agent-config.json overrides the SETUP_RETRY_* environment defaults.
+ */
+export function getRetryPolicy(agentConfig: OrchestratorAgentConfig): RetryPolicySettings {
+  const overrides = agentConfig.retryPolicy ?? {};
+  return {
+    ...DEFAULT_RETRY_POLICY,
+    ...overrides,
+    phases: { ...DEFAULT_RETRY_POLICY.phases, ...overrides.phases },
+  };
+}
+
+function maxAttemptsFor(phase: SetupPhase, policy: RetryPolicySettings): number {
+  if (!RETRYABLE_PHASES.includes(phase)) return 1;
+  return Math.max(1, policy.phases?.[phase]?.maxAttempts ?? policy.maxAttempts);
+}
+
+/** Exponential backoff with full jitter */
+function backoffDelay(attempt: number, policy: RetryPolicySettings): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run one setup phase under the policy, recording each attempt.
+ *
+ * `shouldRetry` lets the caller stop early on errors that retrying can't
+ * fix (e.g. a snapshot that no longer exists).
+ */
+export async function runPhase<T>(
+  phase: SetupPhase,
+  round: number,
+  policy: RetryPolicySettings,
+  attempts: SetupAttempt[],
+  fn: () => Promise<T>,
+  shouldRetry: (error: unknown) => boolean = () => true
+): Promise<T> {
+  const maxAttempts = maxAttemptsFor(phase, policy);
+
+  for (let attempt = 1; ; attempt++) {
+    const start = Date.now();
+    try {
+      const result = await fn();
+      attempts.push({ phase, round, attempt, durationMs: Date.now() - start, ok: true });
+      return result;
+    } catch (error) {
+      const retry = attempt < maxAttempts && shouldRetry(error);
+      attempts.push({
+        phase,
+        round,
+        attempt,
+        durationMs: Date.now() - start,
+        ok: false,
+        error: error instanceof Error ? error.message : String(error),
+        action: retry ? "retry" : "fail",
+      });
+      if (!retry) {
+        throw new SetupPhaseError(phase, error, attempts);
+      }
+
+      const delay = backoffDelay(attempt, policy);
+      console.warn(
+        `[Retry] ${phase} failed (attempt ${attempt}/${maxAttempts}), retrying in ${delay}ms:`,
+        error instanceof Error ? error.message : error
+      );
+      await sleep(delay);
+    }
+  }
+}
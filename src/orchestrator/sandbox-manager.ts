@@ -1,211 +1,197 @@
-import { Sandbox } from "@vercel/sandbox";
-import * as fs from "fs";
-import * as path from "path";
-import { getSnapshotId } from "./snapshot-manager.js";
-import { loadAgentConfig } from "./config-loader.js";
+import { randomUUID } from "crypto";
+import { AppError, isErrorBody } from "../shared/errors.js";
+import {
+  acquireConversationSandbox,
+  type LeaseOutcome,
+  type SandboxLease,
+} from "./conversation-affinity.js";
+import {
+  loadConversationSession,
+  saveConversationSession,
+} from "./session-store.js";
+import { prepareAttachments, type PreparedAttachments } from "./attachments.js";
+import { resolveConfigVersion } from "./config-versions.js";
+import { escalateIfNeeded } from "./escalation.js";
+import { transformSseStream } from "./sse.js";
+import { toolAuditRecorder, type ToolAuditRecorder } from "./tool-audit.js";
 import type {
+  ConfigVersionInfo,
   ProcessRequest,
-  AgentConfigBundle,
   AgentProcessResponse,
   ExecutionTiming,
+  SessionTranscript,
 } from "./types.js";
 
-const AGENT_BUNDLE_PATH = path.join(process.cwd(), "dist/agent-server.mjs");
-
-// Timeout constants
-const SANDBOX_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
-const HEALTH_POLL_TIMEOUT_MS = 30_000; // 30 seconds
-const HEALTH_POLL_INTERVAL_MS = 500; // 500ms between polls
-const AGENT_PORT = 3000;
+const CANCEL_TIMEOUT_MS = 2_000;
 
 /**
- * Load the pre-built agent bundle from disk.
- * Must run `npm run build:agent` first.
+ * Write the request's attachments into the sandbox, where the agent finds
+ * them by the paths in the process body.
  */
-function loadAgentBundle(): string {
-  if (!fs.existsSync(AGENT_BUNDLE_PATH)) {
-    throw new Error(
-      `Agent bundle not found at ${AGENT_BUNDLE_PATH}. Run "npm run build:agent" first.`
-    );
-  }
-  return fs.readFileSync(AGENT_BUNDLE_PATH, "utf-8");
+async function writeAttachments(
+  lease: SandboxLease,
+  prepared: PreparedAttachments,
+  requestId: string
+): Promise<void> {
+  if (prepared.files.length === 0) return;
+
+  const start = Date.now();
+  await lease.live.sandbox.writeFiles(prepared.files);
+  console.log(
+    `[Sandbox] Wrote ${prepared.files.length} attachments for request ${requestId} in ${Date.now() - start}ms`
+  );
 }
 
 /**
- * Build the file list to write into the sandbox.
- * SDK expects { path, content: Buffer }[]
+ * Build the body for the agent's /process endpoints. A sandbox that has
+ * not served this conversation yet also gets the stored session transcript.
+ * Attachments are described, not included: they are already in the sandbox.
  */
-function buildSandboxFiles(
-  agentBundle: string,
-  agentConfig: AgentConfigBundle
-): { path: string; content: Buffer }[] {
-  const fileMap: Record<string, string> = {
-    "server.mjs": agentBundle,
-    "CLAUDE.md": agentConfig.claudeMd,
-    "agent-config.json": JSON.stringify(agentConfig.agentConfig, null, 2),
-    "package.json": JSON.stringify(
-      {
-        name: "sandbox-agent",
-        type: "module",
-        dependencies: {
-          "@anthropic-ai/claude-agent-sdk": "^0.1.56",
-          "@anthropic-ai/sdk": "^0.71.2",
-          "@hono/node-server": "^1.13.7",
-          hono: "^4.6.0",
-          dotenv: "^17.2.3",
-          uuid: "^13.0.0",
-        },
-      },
-      null,
-      2
-    ),
-  };
-
-  // Add skill files under .claude/skills/
-  for (const [relativePath, content] of Object.entries(agentConfig.skills)) {
-    fileMap[`.claude/skills/${relativePath}`] = content;
+async function buildProcessBody(
+  request: ProcessRequest,
+  lease: SandboxLease,
+  prepared: PreparedAttachments
+): Promise<Record<string, unknown>> {
+  let session: SessionTranscript | undefined;
+
+  if (request.conversationId && lease.fresh) {
+    const stored = await loadConversationSession(request.conversationId, request.agentId);
+    if (stored) {
+      session = {
+        sessionId: stored.sessionId,
+        transcript: stored.transcript,
+        history: stored.history,
+        piiTokens: stored.piiTokens,
+      };
+      console.log(
+        `[Sandbox] Restoring session ${stored.sessionId} (${stored.turns} turns) for conversation ${request.conversationId}`
+      );
+    }
   }
 
-  return Object.entries(fileMap).map(([filePath, content]) => ({
-    path: filePath,
-    content: Buffer.from(content, "utf-8"),
-  }));
+  return {
+    message: request.message,
+    conversationId: request.conversationId,
+    customerId: request.customerId,
+    customerEmail: request.customerEmail,
+    modality: request.modality,
+    gatewayContext: request.gatewayContext,
+    ...(prepared.attachments.length > 0 && { attachments: prepared.attachments }),
+    ...(session && { session }),
+  };
 }
 
 /**
- * Poll the sandbox health endpoint until it responds or times out.
+ * Persist the transcript the agent exported after a turn. Failures are
+ * logged; the turn itself already succeeded.
  */
-async function pollHealth(
-  domainUrl: string,
-  timeoutMs: number = HEALTH_POLL_TIMEOUT_MS
+async function persistSession(
+  request: ProcessRequest,
+  session: SessionTranscript | undefined
 ): Promise<void> {
-  const healthUrl = `${domainUrl}/health`;
-  const deadline = Date.now() + timeoutMs;
-
-  console.log(`[Sandbox] Polling health at ${healthUrl}...`);
+  if (!request.conversationId || !session) return;
 
-  while (Date.now() < deadline) {
-    try {
-      const res = await fetch(healthUrl, {
-        signal: AbortSignal.timeout(2000),
-      });
-      if (res.ok) {
-        const body = await res.json();
-        console.log(`[Sandbox] Health check passed:`, body);
-        return;
-      }
-    } catch {
-      // Server not ready yet, retry
-    }
-    await sleep(HEALTH_POLL_INTERVAL_MS);
+  try {
+    await saveConversationSession(request.conversationId, request.agentId, session);
+  } catch (err) {
+    console.error(
+      `[Sandbox] Failed to persist session for conversation ${request.conversationId}:`,
+      err
+    );
   }
-
-  throw new Error(
-    `[Sandbox] Health check timed out after ${timeoutMs}ms at ${healthUrl}`
-  );
-}
-
-function sleep(ms: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
-/** Shared sandbox setup: create, write files, install if needed, start server, poll health */
-async function setupSandbox(
-  request: ProcessRequest,
-  timing?: ExecutionTiming
-): Promise<{ sandbox: Sandbox; domainUrl: string }> {
-  const agentConfig = loadAgentConfig(request.agentId);
-  const agentBundle = loadAgentBundle();
-  const snapshotId = getSnapshotId();
-
-  // 1. Create sandbox
-  const createStart = Date.now();
-  let sandbox: Sandbox;
-
-  if (snapshotId) {
-    sandbox = await Sandbox.create({
-      source: { type: "snapshot", snapshotId },
-      timeout: SANDBOX_TIMEOUT_MS,
-      ports: [AGENT_PORT],
-      resources: { vcpus: 2 },
-    });
-  } else {
-    sandbox = await Sandbox.create({
-      runtime: "node22",
-      timeout: SANDBOX_TIMEOUT_MS,
-      ports: [AGENT_PORT],
-      resources: { vcpus: 2 },
-    });
+/**
+ * POST to the agent. Its structured errors are rethrown as-is, after their
+ * tool decisions are recorded; anything else (unreachable, non-JSON
+ * failure) becomes AGENT_UNAVAILABLE.
+ */
+async function fetchAgent(
+  url: string,
+  init: RequestInit,
+  audit: ToolAuditRecorder
+): Promise<Response> {
+  let res: Response;
+  try {
+    res = await fetch(url, init);
+  } catch (error) {
+    if (init.signal?.aborted) throw error;
+    throw new AppError(
+      "AGENT_UNAVAILABLE",
+      `Agent unreachable: ${error instanceof Error ? error.message : String(error)}`,
+      { phase: "agent", cause: error }
+    );
   }
+  if (res.ok) return res;
 
-  if (timing) timing.sandboxCreate = Date.now() - createStart;
-  console.log(
-    `[Sandbox] Created in ${Date.now() - createStart}ms (snapshot: ${snapshotId ? "yes" : "no"})`
-  );
-
-  // 2. Write agent files
-  const writeStart = Date.now();
-  const files = buildSandboxFiles(agentBundle, agentConfig);
-  await sandbox.writeFiles(files);
-  if (timing) timing.fileWrite = Date.now() - writeStart;
-  console.log(
-    `[Sandbox] Wrote ${files.length} files in ${Date.now() - writeStart}ms`
+  const errorText = await res.text();
+  let body: unknown;
+  try {
+    body = JSON.parse(errorText);
+  } catch {
+    // Not JSON; reported as text below
+  }
+  if (isErrorBody(body)) {
+    await audit((body as Pick<AgentProcessResponse, "toolAudit">).toolAudit);
+    throw AppError.fromBody(body);
+  }
+  throw new AppError(
+    "AGENT_UNAVAILABLE",
+    `Agent request failed (${res.status}): ${errorText}`,
+    { phase: "agent" }
   );
+}
 
-  // 3. Install deps if no snapshot
-  if (!snapshotId) {
-    console.log("[Sandbox] No snapshot — running npm install...");
-    const installStart = Date.now();
-    const installResult = await sandbox.runCommand({
-      cmd: "npm",
-      args: ["install", "--production"],
-      env: { NODE_ENV: "production" },
+/**
+ * Ask the agent to abort a request before its sandbox is stopped, so tool
+ * calls stop right away, log the usage it had accrued and record its tool
+ * decisions. Best effort: the agent also aborts on its own when the
+ * connection closes.
+ */
+async function cancelInSandbox(
+  lease: SandboxLease,
+  requestId: string,
+  audit: ToolAuditRecorder
+): Promise<void> {
+  try {
+    const res = await fetch(`${lease.live.domainUrl}/process/${requestId}/cancel`, {
+      method: "POST",
+      signal: AbortSignal.timeout(CANCEL_TIMEOUT_MS),
     });
-    const installTime = Date.now() - installStart;
-    console.log(
-      `[Sandbox] npm install completed in ${installTime}ms (exit: ${installResult.exitCode})`
-    );
-    if (installResult.exitCode !== 0) {
-      const stderr = await installResult.stderr();
-      throw new Error(`npm install failed: ${stderr}`);
+    if (res.ok) {
+      const { usage, toolAudit } = (await res.json()) as {
+        usage?: unknown;
+        toolAudit?: AgentProcessResponse["toolAudit"];
+      };
+      console.log(`[Sandbox] Cancelled request ${requestId}, partial usage:`, usage);
+      await audit(toolAudit);
+    } else {
+      console.log(`[Sandbox] Request ${requestId} no longer running in sandbox`);
     }
+  } catch (err) {
+    console.warn(`[Sandbox] Could not cancel request ${requestId}:`, err);
   }
-
-  // 4. Start the agent server (detached)
-  const serverStart = Date.now();
-  await sandbox.runCommand({
-    cmd: "node",
-    args: ["server.mjs"],
-    env: {
-      ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || "",
-      PORT: String(AGENT_PORT),
-      AGENT_ID: request.agentId,
-      CHANNEL: "sandbox",
-      NODE_ENV: "production",
-    },
-    detached: true,
-  });
-  if (timing) timing.serverStart = Date.now() - serverStart;
-  console.log(`[Sandbox] Server start command sent in ${Date.now() - serverStart}ms`);
-
-  // 5. Poll health
-  const healthStart = Date.now();
-  const domainUrl = sandbox.domain(AGENT_PORT);
-  await pollHealth(domainUrl);
-  if (timing) timing.healthPoll = Date.now() - healthStart;
-  console.log(`[Sandbox] Health poll completed in ${Date.now() - healthStart}ms`);
-
-  return { sandbox, domainUrl };
 }
 
 /**
- * Execute a request inside an ephemeral Vercel Sandbox.
+ * Execute a request inside a Vercel Sandbox.
+ *
+ * Lifecycle: resolve config version → check attachments → acquire (conversation's bound sandbox, warm pool, or create → writeFiles → npm install (if no snapshot) → start server → poll health) → write attachments → proxy request → persist session → escalate if flagged → stop (or keep bound to the conversation)
+ *
+ * `escalate: false` skips the escalation handoff (dry runs). `version` is
+ * the one admission routed the request to; without it the request is
+ * routed here.
  *
- * Lifecycle: create → writeFiles → npm install (if no snapshot) → start server → poll health → proxy request → stop
+ * Callers that know the agent's outputSchema can type its extra metadata
+ * and flags, e.g. `executeInSandbox<{ orderIds: string[] }, "REFUND_REQUESTED">`.
  */
-export async function executeInSandbox(
-  request: ProcessRequest
-): Promise<{ response: AgentProcessResponse; timing: ExecutionTiming }> {
+export async function executeInSandbox<
+  Extra extends object = { [key: string]: unknown },
+  Flag extends string = string,
+>(
+  request: ProcessRequest,
+  options: { signal?: AbortSignal; escalate?: boolean; version?: ConfigVersionInfo } = {}
+): Promise<{ response: AgentProcessResponse<Extra, Flag>; timing: ExecutionTiming }> {
   const timing: ExecutionTiming = {
     sandboxCreate: 0,
     fileWrite: 0,
@@ -213,100 +199,194 @@ export async function executeInSandbox(
     healthPoll: 0,
     agentProcess: 0,
     total: 0,
+    pooled: false,
+    affine: false,
   };
   const totalStart = Date.now();
 
-  let sandbox: Sandbox | null = null;
+  const requestId = randomUUID();
+  let lease: SandboxLease | null = null;
+  let outcome: LeaseOutcome = "failed";
+
+  const version = options.version ?? resolveConfigVersion(request);
+  timing.configVersion = version.version;
+  timing.configVersionSource = version.source;
+  const audit = toolAuditRecorder(request, version, requestId);
 
   try {
-    const result = await setupSandbox(request, timing);
-    sandbox = result.sandbox;
+    const prepared = prepareAttachments(request, version.configId, requestId);
+
+    lease = await acquireConversationSandbox(request, version, timing);
+    timing.affine = lease.affine;
+    options.signal?.throwIfAborted();
+    await writeAttachments(lease, prepared, requestId);
 
     // 6. Proxy request to sandbox
     const processStart = Date.now();
-    const processUrl = `${result.domainUrl}/process`;
-    const processBody = {
-      message: request.message,
-      conversationId: request.conversationId,
-      customerId: request.customerId,
-      customerEmail: request.customerEmail,
-      modality: request.modality,
-      gatewayContext: request.gatewayContext,
-    };
-
-    const res = await fetch(processUrl, {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify(processBody),
-    });
+    const processUrl = `${lease.live.domainUrl}/process`;
+    const processBody = await buildProcessBody(request, lease, prepared);
 
-    if (!res.ok) {
-      const errorText = await res.text();
-      throw new Error(
-        `Agent process request failed (${res.status}): ${errorText}`
-      );
-    }
+    const res = await fetchAgent(
+      processUrl,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-ID": requestId },
+        body: JSON.stringify(processBody),
+        signal: options.signal,
+      },
+      audit
+    );
 
-    const agentResponse = (await res.json()) as AgentProcessResponse;
+    const { session, toolAudit, ...agentResponse } = (await res.json()) as AgentProcessResponse<
+      Extra,
+      Flag
+    >;
     timing.agentProcess = Date.now() - processStart;
     console.log(`[Sandbox] Agent processed in ${timing.agentProcess}ms`);
 
+    await persistSession(request, session);
+    await audit(toolAudit);
+
+    if (options.escalate !== false) {
+      const escalation = await escalateIfNeeded(
+        request,
+        version.configId,
+        agentResponse as AgentProcessResponse
+      );
+      if (escalation) agentResponse.escalation = escalation;
+    }
+
+    outcome = "ok";
     timing.total = Date.now() - totalStart;
     return { response: agentResponse, timing };
+  } catch (error) {
+    if (lease && options.signal?.aborted) {
+      outcome = "cancelled";
+      await cancelInSandbox(lease, requestId, audit);
+    }
+    throw error;
   } finally {
-    if (sandbox) {
-      try {
-        await sandbox.stop();
-        console.log("[Sandbox] Stopped");
-      } catch (err) {
-        console.error("[Sandbox] Error stopping sandbox:", err);
-      }
+    if (lease) {
+      await lease.release(outcome);
     }
   }
 }
 
 /**
- * Execute a streaming request inside an ephemeral Vercel Sandbox.
+ * Execute a streaming request inside a Vercel Sandbox.
  * Returns a ReadableStream of SSE events from the agent.
+ *
+ * Aborting `signal` (the client went away) cancels the agent run and
+ * cleanup() then stops the sandbox instead of keeping it.
  */
 export async function executeInSandboxStream(
-  request: ProcessRequest
-): Promise<{ stream: ReadableStream<Uint8Array>; cleanup: () => Promise<void> }> {
-  const { sandbox, domainUrl } = await setupSandbox(request);
-
-  // Initiate streaming request
-  const streamUrl = `${domainUrl}/process/stream`;
-  const processBody = {
-    message: request.message,
-    conversationId: request.conversationId,
-    customerId: request.customerId,
-    customerEmail: request.customerEmail,
-    modality: request.modality,
-    gatewayContext: request.gatewayContext,
+  request: ProcessRequest,
+  options: { signal?: AbortSignal; version?: ConfigVersionInfo } = {}
+): Promise<{
+  stream: ReadableStream<Uint8Array>;
+  cleanup: () => Promise<void>;
+  version: ConfigVersionInfo;
+}> {
+  const requestId = randomUUID();
+  const version = options.version ?? resolveConfigVersion(request);
+  const prepared = prepareAttachments(request, version.configId, requestId);
+  const audit = toolAuditRecorder(request, version, requestId);
+  const lease = await acquireConversationSandbox(request, version);
+  const { signal } = options;
+  // Aborted only after the agent has been asked to cancel, so it can
+  // report usage first. Listening from here on also aborts the setup below.
+  const upstream = new AbortController();
+  let cancelling: Promise<void> | undefined;
+  const onAbort = () => {
+    cancelling = cancelInSandbox(lease, requestId, audit).finally(() => upstream.abort());
   };
+  signal?.addEventListener("abort", onAbort, { once: true });
 
-  const res = await fetch(streamUrl, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify(processBody),
-  });
+  // Initiate streaming request
+  const streamUrl = `${lease.live.domainUrl}/process/stream`;
 
-  if (!res.ok || !res.body) {
-    await sandbox.stop();
-    const errorText = await res.text();
-    throw new Error(
-      `Agent stream request failed (${res.status}): ${errorText}`
+  let res: Response;
+  try {
+    signal?.throwIfAborted();
+    await writeAttachments(lease, prepared, requestId);
+    const processBody = await buildProcessBody(request, lease, prepared);
+    signal?.throwIfAborted();
+    res = await fetchAgent(
+      streamUrl,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json", "X-Request-ID": requestId },
+        body: JSON.stringify(processBody),
+        signal: upstream.signal,
+      },
+      audit
     );
+  } catch (error) {
+    signal?.removeEventListener("abort", onAbort);
+    await cancelling;
+    await lease.release(signal?.aborted ? "cancelled" : "failed");
+    throw error;
   }
 
+  if (!res.body) {
+    signal?.removeEventListener("abort", onAbort);
+    await lease.release("failed");
+    throw new AppError("AGENT_UNAVAILABLE", "Agent stream response has no body", {
+      phase: "agent",
+    });
+  }
+
+  // Persist the transcript and tool decisions carried by the `done` event and
+  // strip them before the event reaches the client; the event reports the
+  // config version instead. `error` and `cancelled` events carry tool
+  // decisions too.
+  // An escalated response gets an `escalated` event just before `done`.
+  let finalResponse = "";
+  const stream = transformSseStream(res.body, async (event) => {
+    if (event.event === "cancelled" || event.event === "error") {
+      const { toolAudit, ...rest } = JSON.parse(event.data) as {
+        toolAudit?: AgentProcessResponse["toolAudit"];
+      };
+      if (event.event === "cancelled") {
+        console.log(`[Sandbox] Agent cancelled request ${requestId}:`, rest);
+      }
+      await audit(toolAudit);
+      return [{ ...event, data: JSON.stringify(rest) }];
+    }
+    if (event.event === "structured_output") {
+      finalResponse = (JSON.parse(event.data) as { response?: string }).response ?? "";
+    }
+    if (event.event !== "done") return undefined;
+
+    const { session, toolAudit, ...done } = JSON.parse(event.data) as {
+      session?: SessionTranscript;
+      toolAudit?: AgentProcessResponse["toolAudit"];
+      metadata?: AgentProcessResponse["metadata"];
+    };
+    await persistSession(request, session);
+    await audit(toolAudit);
+    const escalation = await escalateIfNeeded(request, version.configId, {
+      response: finalResponse,
+      metadata: done.metadata,
+    });
+    return [
+      ...(escalation ? [{ event: "escalated", data: JSON.stringify(escalation) }] : []),
+      {
+        ...event,
+        data: JSON.stringify({ ...done, configVersion: version.version }),
+      },
+    ];
+  });
+
   const cleanup = async () => {
-    try {
-      await sandbox.stop();
-      console.log("[Sandbox] Stopped (stream cleanup)");
-    } catch (err) {
-      console.error("[Sandbox] Error stopping sandbox:", err);
+    signal?.removeEventListener("abort", onAbort);
+    if (signal?.aborted) {
+      await cancelling;
+      await lease.release("cancelled");
+    } else {
+      await lease.release("ok");
     }
   };
 
-  return { stream: res.body, cleanup };
+  return { stream, cleanup, version };
 }
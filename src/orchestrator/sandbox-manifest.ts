@@ -0,0 +1,49 @@
+/**
+ * The sandbox dependency manifest — the package.json written into every
+ * sandbox and baked into snapshots. Its hash identifies which snapshot
+ * matches an agent.
+ */
+import { createHash } from "crypto";
+
+/** Dependencies every agent sandbox needs to run the agent bundle */
+const BASE_SANDBOX_DEPENDENCIES: Record<string, string> = {
+  "@anthropic-ai/claude-agent-sdk": "^0.1.56",
+  "@anthropic-ai/sdk": "^0.71.2",
+  "@hono/node-server": "^1.13.7",
+  hono: "^4.6.0",
+  dotenv: "^17.2.3",
+  uuid: "^13.0.0",
+};
+
+export interface SandboxManifest {
+  name: string;
+  type: "module";
+  dependencies: Record<string, string>;
+}
+
+/**
+ * Build the manifest for an agent. Extra dependencies (from the agent's
+ * `sandboxDependencies`) are added to, and may override, the base set.
+ */
+export function buildSandboxManifest(
+  extraDependencies: Record<string, string> = {}
+): SandboxManifest {
+  const merged = { ...BASE_SANDBOX_DEPENDENCIES, ...extraDependencies };
+  const dependencies = Object.fromEntries(
+    Object.keys(merged)
+      .sort()
+      .map((name) => [name, merged[name]])
+  );
+
+  return { name: "sandbox-agent", type: "module", dependencies };
+}
+
+/**
+ * Stable hash of a manifest's dependency set.
+ */
+export function hashManifest(manifest: SandboxManifest): string {
+  return createHash("sha256")
+    .update(JSON.stringify(manifest.dependencies))
+    .digest("hex")
+    .slice(0, 16);
+}
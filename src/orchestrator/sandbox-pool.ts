@@ -0,0 +1,289 @@
+/**
+ * Warm sandbox pool.
+ *
+ * Keeps pre-started, health-checked sandboxes per agentId so a request can
+ * skip setupSandbox entirely. Each pool grows from minSize toward maxSize
+ * whenever a request finds it empty, shrinks back to minSize after idleTtlMs
+ * without demand, and retires sandboxes well before their provider timeout.
+ * Pooled sandboxes count against the global sandbox cap (scheduler.ts): a
+ * pool only grows while there is room, and gives up a warm sandbox when a
+ * request needs its place.
+ */
+import { listAgentIds, loadAgentConfig } from "./config-loader.js";
+import {
+  isCurrentSandbox,
+  setupSandbox,
+  stopSandbox,
+  type LiveSandbox,
+} from "./sandbox-setup.js";
+import type { ExecutionTiming, PoolSettings, PoolStats } from "./types.js";
+
+// A warm sandbox must leave at least this much lifetime for the request
+const POOL_RETIRE_MARGIN_MS = 2 * 60 * 1000; // 2 minutes
+const POOL_SWEEP_INTERVAL_MS = 15_000; // 15 seconds
+
+const DEFAULT_POOL_SETTINGS: PoolSettings = {
+  minSize: parseInt(process.env.SANDBOX_POOL_MIN_SIZE || "0", 10),
+  maxSize: parseInt(process.env.SANDBOX_POOL_MAX_SIZE || "0", 10),
+  idleTtlMs: parseInt(process.env.SANDBOX_POOL_IDLE_TTL_MS || "600000", 10),
+};
+
+/** The global sandbox cap as the pools see it, provided by the scheduler */
+export interface PoolCapacity {
+  /** Whether another sandbox may start now */
+  hasRoom(): boolean;
+  /** Called when a sandbox the pool was starting comes up or fails */
+  onSettled(): void;
+}
+
+interface AgentPool {
+  agentId: string;
+  settings: PoolSettings;
+  warm: LiveSandbox[];
+  starting: number;
+  /** Desired number of warm sandboxes, between minSize and maxSize */
+  target: number;
+  lastDemandAt: number;
+  hits: number;
+  misses: number;
+  lastError?: string;
+}
+
+const pools = new Map<string, AgentPool>();
+let sweepTimer: NodeJS.Timeout | null = null;
+let capacity: PoolCapacity = { hasRoom: () => true, onSettled: () => {} };
+
+/**
+ * Resolve pool settings for an agent: the optional `pool` key of its
+ * agent-config.json overrides the SANDBOX_POOL_* environment defaults.
+ */
+function getPoolSettings(agentId: string): PoolSettings {
+  const { agentConfig } = loadAgentConfig(agentId);
+  const overrides = agentConfig.pool ?? {};
+
+  const minSize = Math.max(0, overrides.minSize ?? DEFAULT_POOL_SETTINGS.minSize);
+  const maxSize = Math.max(minSize, overrides.maxSize ?? DEFAULT_POOL_SETTINGS.maxSize);
+  const idleTtlMs = overrides.idleTtlMs ?? DEFAULT_POOL_SETTINGS.idleTtlMs;
+
+  return { minSize, maxSize, idleTtlMs };
+}
+
+function getPool(agentId: string): AgentPool {
+  const settings = getPoolSettings(agentId);
+  let pool = pools.get(agentId);
+
+  if (!pool) {
+    pool = {
+      agentId,
+      settings,
+      warm: [],
+      starting: 0,
+      target: settings.minSize,
+      lastDemandAt: Date.now(),
+      hits: 0,
+      misses: 0,
+    };
+    pools.set(agentId, pool);
+  } else {
+    pool.settings = settings;
+    pool.target = Math.min(Math.max(pool.target, settings.minSize), settings.maxSize);
+  }
+
+  return pool;
+}
+
+function isNearExpiry(live: LiveSandbox): boolean {
+  return live.expiresAt - Date.now() < POOL_RETIRE_MARGIN_MS;
+}
+
+/**
+ * Start sandboxes in the background until warm + starting reaches the
+ * target or the global cap leaves no room; the sweep tries again later.
+ */
+function replenish(pool: AgentPool): void {
+  while (pool.warm.length + pool.starting < pool.target && capacity.hasRoom()) {
+    pool.starting++;
+    console.log(
+      `[Pool] Warming sandbox for ${pool.agentId} (${pool.warm.length} warm, ${pool.starting} starting, target ${pool.target})`
+    );
+
+    setupSandbox(pool.agentId)
+      .then((live) => {
+        pool.starting--;
+        if (pools.get(pool.agentId) !== pool || pool.warm.length >= pool.target) {
+          void stopSandbox(live.sandbox, "pool over target");
+          return;
+        }
+        pool.warm.push(live);
+        pool.lastError = undefined;
+      })
+      .catch((err) => {
+        pool.starting--;
+        pool.lastError = err instanceof Error ? err.message : String(err);
+        console.error(`[Pool] Failed to warm sandbox for ${pool.agentId}:`, err);
+      })
+      .finally(() => capacity.onSettled());
+  }
+}
+
+/**
+ * Get a ready sandbox for an agent. Returns a warm one when available,
+ * otherwise sets one up inline and grows the pool for next time.
+ * The caller owns the returned sandbox and must stop it.
+ *
+ * Each config version (`agentId@version`) has its own pool.
+ */
+export async function acquireSandbox(
+  configId: string,
+  timing?: ExecutionTiming
+): Promise<LiveSandbox> {
+  const pool = getPool(configId);
+  pool.lastDemandAt = Date.now();
+
+  while (pool.warm.length > 0) {
+    const live = pool.warm.shift()!;
+    if (isNearExpiry(live)) {
+      void stopSandbox(live.sandbox, "pool retire");
+      continue;
+    }
+    if (!isCurrentSandbox(live)) {
+      void stopSandbox(live.sandbox, "config changed");
+      continue;
+    }
+
+    pool.hits++;
+    if (timing) timing.pooled = true;
+    console.log(`[Pool] Hit for ${configId} (${pool.warm.length} warm left)`);
+    replenish(pool);
+    return live;
+  }
+
+  pool.misses++;
+  if (pool.target < pool.settings.maxSize) {
+    pool.target++;
+  }
+  replenish(pool);
+
+  return setupSandbox(configId, timing);
+}
+
+/** Warm and starting sandboxes across every pool */
+export function countPooledSandboxes(): number {
+  let count = 0;
+  for (const pool of pools.values()) {
+    count += pool.warm.length + pool.starting;
+  }
+  return count;
+}
+
+/**
+ * Stop a warm sandbox of the least recently used pool to make room for a
+ * request. Returns false when no pool has one.
+ */
+export function evictPooledSandbox(): boolean {
+  let oldest: AgentPool | undefined;
+  for (const pool of pools.values()) {
+    if (pool.warm.length === 0) continue;
+    if (!oldest || pool.lastDemandAt < oldest.lastDemandAt) oldest = pool;
+  }
+  if (!oldest) return false;
+
+  const live = oldest.warm.shift()!;
+  void stopSandbox(live.sandbox, "evicted at capacity");
+  return true;
+}
+
+/**
+ * Retire expiring sandboxes, shrink idle pools to minSize and top up the rest.
+ */
+function sweep(): void {
+  const now = Date.now();
+
+  for (const pool of pools.values()) {
+    pool.warm = pool.warm.filter((live) => {
+      if (isNearExpiry(live)) {
+        void stopSandbox(live.sandbox, "pool retire");
+        return false;
+      }
+      if (!isCurrentSandbox(live)) {
+        void stopSandbox(live.sandbox, "config changed");
+        return false;
+      }
+      return true;
+    });
+
+    if (now - pool.lastDemandAt > pool.settings.idleTtlMs) {
+      pool.target = pool.settings.minSize;
+    }
+    while (pool.warm.length > pool.target) {
+      const live = pool.warm.shift()!;
+      void stopSandbox(live.sandbox, "pool idle");
+    }
+
+    replenish(pool);
+  }
+}
+
+/**
+ * Warm the pools of agents configured with minSize > 0 and start the
+ * periodic sweep, within the given global capacity. Safe to call more
+ * than once.
+ */
+export function startSandboxPools(globalCapacity?: PoolCapacity): void {
+  if (globalCapacity) capacity = globalCapacity;
+
+  for (const agentId of listAgentIds()) {
+    try {
+      const pool = getPool(agentId);
+      replenish(pool);
+    } catch (err) {
+      console.error(`[Pool] Skipping pool for ${agentId}:`, err);
+    }
+  }
+
+  if (!sweepTimer) {
+    sweepTimer = setInterval(sweep, POOL_SWEEP_INTERVAL_MS);
+    sweepTimer.unref();
+  }
+}
+
+/**
+ * Stop the sweep and every warm sandbox. Sandboxes still starting are
+ * stopped as soon as they come up.
+ */
+export async function stopSandboxPools(): Promise<void> {
+  if (sweepTimer) {
+    clearInterval(sweepTimer);
+    sweepTimer = null;
+  }
+
+  const stops: Promise<void>[] = [];
+  for (const pool of pools.values()) {
+    for (const live of pool.warm) {
+      stops.push(stopSandbox(live.sandbox, "shutdown"));
+    }
+    pool.warm = [];
+  }
+  pools.clear();
+
+  await Promise.all(stops);
+}
+
+/** Pool occupancy per agent, for /health */
+export function getPoolStats(): Record<string, PoolStats> {
+  const stats: Record<string, PoolStats> = {};
+
+  for (const pool of pools.values()) {
+    stats[pool.agentId] = {
+      warm: pool.warm.length,
+      starting: pool.starting,
+      target: pool.target,
+      ...pool.settings,
+      hits: pool.hits,
+      misses: pool.misses,
+      ...(pool.lastError && { lastError: pool.lastError }),
+    };
+  }
+
+  return stats;
+}
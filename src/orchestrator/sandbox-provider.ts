@@ -0,0 +1,119 @@
+/**
+ * Sandbox provider abstraction.
+ *
+ * Everything above this layer (setup, pool, manager) talks to a
+ * SandboxHandle instead of @vercel/sandbox directly, so the orchestrator can
+ * run against Vercel or against local child processes.
+ */
+import { AppError } from "../shared/errors.js";
+import { createVercelProvider } from "./vercel-provider.js";
+import { createLocalProvider } from "./local-provider.js";
+
+export type SandboxProviderName = "vercel" | "local";
+
+export const SANDBOX_PROVIDER_NAMES: SandboxProviderName[] = ["vercel", "local"];
+
+/** A file to materialize inside a sandbox, relative to its working directory */
+export interface SandboxFile {
+  path: string;
+  content: Buffer;
+}
+
+export interface RunCommandOptions {
+  cmd: string;
+  args?: string[];
+  env?: Record<string, string>;
+  /** Return as soon as the command has started instead of waiting for exit */
+  detached?: boolean;
+}
+
+export interface CommandResult {
+  /** Exit code, or null for detached commands that are still running */
+  exitCode: number | null;
+  stdout(): Promise<string>;
+  stderr(): Promise<string>;
+}
+
+export interface CreateSandboxOptions {
+  /** Provider-specific snapshot to start from (dependencies pre-installed) */
+  snapshotId?: string;
+  /** Auto-terminate after this long */
+  timeoutMs: number;
+  /** Ports the agent server may listen on; resolve them with domain() */
+  ports: number[];
+  vcpus?: number;
+}
+
+/** A running sandbox, independent of where it runs */
+export interface SandboxHandle {
+  readonly id: string;
+  readonly provider: SandboxProviderName;
+  writeFiles(files: SandboxFile[]): Promise<void>;
+  runCommand(options: RunCommandOptions): Promise<CommandResult>;
+  /** Base URL where a declared port is reachable from the orchestrator */
+  domain(port: number): string;
+  /** Push the auto-termination deadline out by durationMs */
+  extendTimeout(durationMs: number): Promise<void>;
+  stop(): Promise<void>;
+  /** Snapshot the sandbox and return the snapshot ID. Stops the sandbox. */
+  snapshot(): Promise<string>;
+}
+
+export interface SandboxProvider {
+  readonly name: SandboxProviderName;
+  /** Whether commands run isolated from the host (safe for global installs) */
+  readonly isolated: boolean;
+  /** How long snapshots last before the provider deletes them (null: forever) */
+  readonly snapshotTtlMs: number | null;
+  create(options: CreateSandboxOptions): Promise<SandboxHandle>;
+}
+
+const providers = new Map<SandboxProviderName, SandboxProvider>();
+
+function isProviderName(name: string): name is SandboxProviderName {
+  return (SANDBOX_PROVIDER_NAMES as string[]).includes(name);
+}
+
+/**
+ * Pick the provider for an agent: the `sandboxProvider` key of its
+ * agent-config.json, else SANDBOX_PROVIDER, else vercel.
+ */
+export function resolveProviderName(
+  agentConfig?: { sandboxProvider?: string }
+): SandboxProviderName {
+  const name =
+    agentConfig?.sandboxProvider ||
+    process.env.SANDBOX_PROVIDER ||
+    "vercel";
+
+  if (!isProviderName(name)) {
+    throw new AppError(
+      "CONFIG_INVALID",
+      `Unknown sandbox provider "${name}". Expected one of: ${SANDBOX_PROVIDER_NAMES.join(", ")}`,
+      { phase: "config" }
+    );
+  }
+  return name;
+}
+
+/**
+ * Get (and lazily construct) a provider by name.
+ */
+export function getSandboxProvider(name: SandboxProviderName): SandboxProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = name === "local" ? createLocalProvider() : createVercelProvider();
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Whether a create failure means the requested snapshot no longer exists
+ * (deleted or expired provider-side), as opposed to a transient error.
+ */
+export function isSnapshotNotFoundError(error: unknown): boolean {
+  const status = (error as { response?: { status?: number } })?.response?.status;
+  if (status === 404 || status === 410) return true;
+  return error instanceof Error && /snapshot.*not found/i.test(error.message);
+}
@@ -0,0 +1,398 @@
+import { createHash } from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { AppError } from "../shared/errors.js";
+import { invalidateSnapshot, resolveSnapshot } from "./snapshot-manager.js";
+import { buildSandboxManifest, type SandboxManifest } from "./sandbox-manifest.js";
+import { getAgentConfigHash, loadAgentConfig } from "./config-loader.js";
+import { parseConfigId } from "./config-versions.js";
+import { watchPath } from "./file-watch.js";
+import {
+  getSandboxProvider,
+  isSnapshotNotFoundError,
+  resolveProviderName,
+  type SandboxFile,
+  type SandboxHandle,
+  type SandboxProvider,
+} from "./sandbox-provider.js";
+import { getRetryPolicy, runPhase, SetupPhaseError } from "./retry-policy.js";
+import type {
+  AgentConfigBundle,
+  ExecutionTiming,
+  LoadedAgentBundleInfo,
+  RetryPolicySettings,
+  SetupAttempt,
+} from "./types.js";
+
+const AGENT_BUNDLE_PATH = path.join(process.cwd(), "dist/agent-server.mjs");
+
+// Timeout constants
+export const SANDBOX_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const HEALTH_POLL_TIMEOUT_MS = 30_000; // 30 seconds
+const HEALTH_POLL_INTERVAL_MS = 500; // 500ms between polls
+const AGENT_PORT = 3000;
+
+/** A sandbox whose agent server is running and has passed its health check */
+export interface LiveSandbox {
+  sandbox: SandboxHandle;
+  domainUrl: string;
+  agentId: string;
+  /** Config directory the sandbox was set up from (`agentId` or `agentId@version`) */
+  configId: string;
+  configVersion: string;
+  createdAt: number;
+  /** When the provider will auto-terminate the sandbox */
+  expiresAt: number;
+  /** Agent config and server bundle the sandbox was started with */
+  configHash: string;
+  bundleHash: string;
+}
+
+interface CachedAgentBundle {
+  content: string;
+  hash: string;
+  loadedAt: number;
+  stale: boolean;
+}
+
+let cachedBundle: CachedAgentBundle | null = null;
+let bundleWatcher: fs.FSWatcher | null = null;
+
+function watchAgentBundle(): void {
+  if (bundleWatcher) return;
+  // Watch the directory: the build replaces the file rather than editing it
+  bundleWatcher = watchPath(path.dirname(AGENT_BUNDLE_PATH), {
+    onChange: (filename) => {
+      if (cachedBundle && (!filename || filename === path.basename(AGENT_BUNDLE_PATH))) {
+        cachedBundle.stale = true;
+      }
+    },
+    onClose: () => {
+      bundleWatcher = null;
+      cachedBundle = null;
+    },
+  });
+}
+
+/**
+ * Load the pre-built agent bundle, from memory until the file changes.
+ * Must run `npm run build:agent` first.
+ */
+function loadAgentBundle(): CachedAgentBundle {
+  if (cachedBundle && !cachedBundle.stale && bundleWatcher) {
+    return cachedBundle;
+  }
+
+  if (!fs.existsSync(AGENT_BUNDLE_PATH)) {
+    throw new AppError(
+      "BUNDLE_MISSING",
+      `Agent bundle not found at ${AGENT_BUNDLE_PATH}. Run "npm run build:agent" first.`,
+      { phase: "config" }
+    );
+  }
+  const content = fs.readFileSync(AGENT_BUNDLE_PATH, "utf-8");
+  const hash = createHash("sha256").update(content).digest("hex");
+
+  if (cachedBundle && cachedBundle.hash === hash) {
+    cachedBundle.stale = false;
+    return cachedBundle;
+  }
+  if (cachedBundle) {
+    console.log(
+      `[Sandbox] Reloaded agent bundle (${cachedBundle.hash.slice(0, 12)} -> ${hash.slice(0, 12)})`
+    );
+  }
+  cachedBundle = { content, hash, loadedAt: Date.now(), stale: false };
+  watchAgentBundle();
+  return cachedBundle;
+}
+
+/** Hash and load time of the agent bundle, for GET /agents/:id */
+export function getLoadedAgentBundleInfo(): LoadedAgentBundleInfo {
+  const bundle = loadAgentBundle();
+  return { hash: bundle.hash, loadedAt: new Date(bundle.loadedAt).toISOString() };
+}
+
+/**
+ * Whether a sandbox still runs the agent's current config and bundle.
+ * Warm and conversation-bound sandboxes that aren't are replaced.
+ */
+export function isCurrentSandbox(live: LiveSandbox): boolean {
+  try {
+    return (
+      live.configHash === getAgentConfigHash(live.configId) &&
+      live.bundleHash === loadAgentBundle().hash
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build the file list to write into the sandbox.
+ * Providers expect { path, content: Buffer }[]
+ */
+function buildSandboxFiles(
+  agentBundle: string,
+  agentConfig: AgentConfigBundle,
+  manifest: SandboxManifest
+): SandboxFile[] {
+  const fileMap: Record<string, string> = {
+    "server.mjs": agentBundle,
+    "CLAUDE.md": agentConfig.claudeMd,
+    "agent-config.json": JSON.stringify(agentConfig.agentConfig, null, 2),
+    "package.json": JSON.stringify(manifest, null, 2),
+  };
+
+  // Add skill files under .claude/skills/
+  for (const [relativePath, content] of Object.entries(agentConfig.skills)) {
+    fileMap[`.claude/skills/${relativePath}`] = content;
+  }
+
+  return Object.entries(fileMap).map(([filePath, content]) => ({
+    path: filePath,
+    content: Buffer.from(content, "utf-8"),
+  }));
+}
+
+/**
+ * Poll the sandbox health endpoint until it responds or times out.
+ */
+async function pollHealth(
+  domainUrl: string,
+  timeoutMs: number = HEALTH_POLL_TIMEOUT_MS
+): Promise<void> {
+  const healthUrl = `${domainUrl}/health`;
+  const deadline = Date.now() + timeoutMs;
+
+  console.log(`[Sandbox] Polling health at ${healthUrl}...`);
+
+  while (Date.now() < deadline) {
+    try {
+      const res = await fetch(healthUrl, {
+        signal: AbortSignal.timeout(2000),
+      });
+      if (res.ok) {
+        const body = await res.json();
+        console.log(`[Sandbox] Health check passed:`, body);
+        return;
+      }
+    } catch {
+      // Server not ready yet, retry
+    }
+    await sleep(HEALTH_POLL_INTERVAL_MS);
+  }
+
+  throw new Error(
+    `[Sandbox] Health check timed out after ${timeoutMs}ms at ${healthUrl}`
+  );
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/** Everything a setup attempt needs, shared across recreates */
+interface SetupContext {
+  agentId: string;
+  agentConfig: AgentConfigBundle;
+  agentBundle: CachedAgentBundle;
+  provider: SandboxProvider;
+  manifest: SandboxManifest;
+  policy: RetryPolicySettings;
+  attempts: SetupAttempt[];
+  timing?: ExecutionTiming;
+  /** Cleared once creating from the snapshot has failed */
+  snapshotId: string | null;
+}
+
+/**
+ * Create the sandbox, from the snapshot when there is one. If the snapshot
+ * is gone (or keeps failing) fall back to a fresh runtime; a missing
+ * snapshot is also dropped from the registry.
+ */
+async function createSandbox(ctx: SetupContext, round: number): Promise<SandboxHandle> {
+  const { provider, policy, attempts } = ctx;
+  const createOptions = {
+    timeoutMs: SANDBOX_TIMEOUT_MS,
+    ports: [AGENT_PORT],
+    vcpus: 2,
+  };
+
+  if (ctx.snapshotId) {
+    const snapshotId = ctx.snapshotId;
+    try {
+      return await runPhase(
+        "create",
+        round,
+        policy,
+        attempts,
+        () => provider.create({ ...createOptions, snapshotId }),
+        (error) => !isSnapshotNotFoundError(error)
+      );
+    } catch (error) {
+      const cause = error instanceof SetupPhaseError ? error.cause : error;
+      console.warn(
+        `[Sandbox] Create from snapshot ${snapshotId} failed, falling back to fresh runtime:`,
+        cause
+      );
+      if (isSnapshotNotFoundError(cause)) {
+        invalidateSnapshot(snapshotId);
+      }
+      attempts[attempts.length - 1].action = "fallback";
+      ctx.snapshotId = null;
+    }
+  }
+
+  return runPhase("create", round, policy, attempts, () => provider.create(createOptions));
+}
+
+/**
+ * Bring up the agent server on a created sandbox: write files, install
+ * deps (without a snapshot), start the server and wait for it to be healthy.
+ */
+async function startAgentServer(
+  ctx: SetupContext,
+  sandbox: SandboxHandle,
+  round: number
+): Promise<string> {
+  const { agentId, policy, attempts, timing } = ctx;
+
+  // 2. Write agent files
+  const writeStart = Date.now();
+  const files = buildSandboxFiles(ctx.agentBundle.content, ctx.agentConfig, ctx.manifest);
+  await runPhase("writeFiles", round, policy, attempts, () => sandbox.writeFiles(files));
+  if (timing) timing.fileWrite = Date.now() - writeStart;
+  console.log(
+    `[Sandbox] Wrote ${files.length} files in ${Date.now() - writeStart}ms`
+  );
+
+  // 3. Install deps if no snapshot
+  if (!ctx.snapshotId) {
+    console.log("[Sandbox] No snapshot — running npm install...");
+    const installStart = Date.now();
+    await runPhase("install", round, policy, attempts, async () => {
+      const installResult = await sandbox.runCommand({
+        cmd: "npm",
+        args: ["install", "--production"],
+        env: { NODE_ENV: "production" },
+      });
+      console.log(
+        `[Sandbox] npm install completed in ${Date.now() - installStart}ms (exit: ${installResult.exitCode})`
+      );
+      if (installResult.exitCode !== 0) {
+        const stderr = await installResult.stderr();
+        throw new Error(`npm install failed: ${stderr}`);
+      }
+    });
+  }
+
+  // 4. Start the agent server (detached)
+  const serverStart = Date.now();
+  await runPhase("serverStart", round, policy, attempts, () =>
+    sandbox.runCommand({
+      cmd: "node",
+      args: ["server.mjs"],
+      env: {
+        ANTHROPIC_API_KEY: process.env.ANTHROPIC_API_KEY || "",
+        PORT: String(AGENT_PORT),
+        AGENT_ID: agentId,
+        CHANNEL: "sandbox",
+        NODE_ENV: "production",
+      },
+      detached: true,
+    })
+  );
+  if (timing) timing.serverStart = Date.now() - serverStart;
+  console.log(`[Sandbox] Server start command sent in ${Date.now() - serverStart}ms`);
+
+  // 5. Poll health
+  const healthStart = Date.now();
+  const domainUrl = sandbox.domain(AGENT_PORT);
+  await runPhase("healthPoll", round, policy, attempts, () => pollHealth(domainUrl));
+  if (timing) timing.healthPoll = Date.now() - healthStart;
+  console.log(`[Sandbox] Health poll completed in ${Date.now() - healthStart}ms`);
+
+  return domainUrl;
+}
+
+/**
+ * Shared sandbox setup: create, write files, install if needed, start server,
+ * poll health. Phases are retried under the agent's retry policy; a sandbox
+ * that can't be brought up is stopped and replaced up to maxRecreates times.
+ *
+ * `configId` is the agent ID, or `agentId@version` for another version.
+ */
+export async function setupSandbox(
+  configId: string,
+  timing?: ExecutionTiming
+): Promise<LiveSandbox> {
+  const { agentId, version } = parseConfigId(configId);
+  const agentConfig = loadAgentConfig(configId);
+  const configHash = getAgentConfigHash(configId);
+  const provider = getSandboxProvider(resolveProviderName(agentConfig.agentConfig));
+  const manifest = buildSandboxManifest(agentConfig.agentConfig.sandboxDependencies);
+  const ctx: SetupContext = {
+    agentId,
+    agentConfig,
+    agentBundle: loadAgentBundle(),
+    provider,
+    manifest,
+    policy: getRetryPolicy(agentConfig.agentConfig),
+    attempts: [],
+    timing,
+    snapshotId: resolveSnapshot(provider.name, manifest, agentId).snapshotId,
+  };
+  if (timing) timing.setupAttempts = ctx.attempts;
+
+  for (let round = 1; ; round++) {
+    // 1. Create sandbox
+    const createStart = Date.now();
+    const sandbox = await createSandbox(ctx, round);
+    if (timing) timing.sandboxCreate = Date.now() - createStart;
+    console.log(
+      `[Sandbox] Created ${provider.name} sandbox in ${Date.now() - createStart}ms (snapshot: ${ctx.snapshotId ? "yes" : "no"})`
+    );
+
+    try {
+      const domainUrl = await startAgentServer(ctx, sandbox, round);
+      return {
+        sandbox,
+        domainUrl,
+        agentId,
+        configId,
+        configVersion: version,
+        createdAt: createStart,
+        expiresAt: createStart + SANDBOX_TIMEOUT_MS,
+        configHash,
+        bundleHash: ctx.agentBundle.hash,
+      };
+    } catch (error) {
+      // Don't leak a half-initialized sandbox until its timeout
+      await stopSandbox(sandbox, "setup failed");
+
+      if (!(error instanceof SetupPhaseError) || round > ctx.policy.maxRecreates) {
+        throw error;
+      }
+      ctx.attempts[ctx.attempts.length - 1].action = "recreate";
+      console.warn(
+        `[Sandbox] ${error.phase} failed, recreating sandbox (${round}/${ctx.policy.maxRecreates})`
+      );
+    }
+  }
+}
+
+/**
+ * Stop a sandbox, logging (not throwing) on failure.
+ */
+export async function stopSandbox(
+  sandbox: SandboxHandle,
+  reason: string = "done"
+): Promise<void> {
+  try {
+    await sandbox.stop();
+    console.log(`[Sandbox] Stopped (${reason})`);
+  } catch (err) {
+    console.error("[Sandbox] Error stopping sandbox:", err);
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Admission control in front of executeInSandbox.
+ *
+ * Caps how many requests run at once — globally and per agent — so a
+ * traffic spike can't create unbounded sandboxes. Warm pool sandboxes and
+ * conversation sandboxes idle between turns count against the global cap
+ * too; when a request needs a place, a warm pool sandbox is stopped first,
+ * then the least recently active idle conversation one. Requests over the cap
+ * wait in a bounded queue ordered by modality priority (voice before chat
+ * before email, see shared/modalities.ts), FIFO within a priority. A full queue or a wait past
+ * QUEUE_MAX_WAIT_MS rejects with a Retry-After hint.
+ */
+import { AppError } from "../shared/errors.js";
+import {
+  DEFAULT_MODALITY_PRIORITY,
+  getModalityDefinition,
+  resolveModality,
+} from "../shared/modalities.js";
+import { loadAgentConfig } from "./config-loader.js";
+import { resolveConfigVersion } from "./config-versions.js";
+import {
+  countIdleConversationSandboxes,
+  evictIdleConversation,
+} from "./conversation-affinity.js";
+import {
+  countPooledSandboxes,
+  evictPooledSandbox,
+  type PoolCapacity,
+} from "./sandbox-pool.js";
+import type {
+  AgentConcurrencySettings,
+  ConfigVersionInfo,
+  ProcessRequest,
+  QueueInfo,
+  SchedulerStats,
+} from "./types.js";
+
+const MAX_CONCURRENT_SANDBOXES = parseInt(process.env.MAX_CONCURRENT_SANDBOXES || "10", 10);
+const MAX_QUEUE_DEPTH = parseInt(process.env.MAX_QUEUE_DEPTH || "50", 10);
+const QUEUE_MAX_WAIT_MS = parseInt(process.env.QUEUE_MAX_WAIT_MS || "30000", 10);
+
+// Smoothing for the moving average of run time used in Retry-After
+const RUN_TIME_EWMA_ALPHA = 0.2;
+
+/** A granted slot; call release() exactly once when the work is done */
+export interface Admission {
+  queue: QueueInfo;
+  /** The config version the request was routed to; run it on this one */
+  version: ConfigVersionInfo;
+  release(): void;
+}
+
+interface Waiter {
+  seq: number;
+  agentId: string;
+  conversationId?: string;
+  priority: number;
+  enqueuedAt: number;
+  grant: () => void;
+}
+
+let running = 0;
+const runningByAgent = new Map<string, number>();
+let waiters: Waiter[] = [];
+let seq = 0;
+let avgRunMs = 0;
+let avgWaitMs = 0;
+let rejected = 0;
+
+function getAgentLimits(agentId: string): AgentConcurrencySettings {
+  const { agentConfig } = loadAgentConfig(agentId);
+  const overrides = agentConfig.concurrency ?? {};
+  return {
+    maxConcurrent: overrides.maxConcurrent ?? MAX_CONCURRENT_SANDBOXES,
+    maxQueueDepth: overrides.maxQueueDepth ?? MAX_QUEUE_DEPTH,
+  };
+}
+
+/**
+ * Queue priority of a request's modality under the config version it was
+ * routed to. Throws INVALID_REQUEST when that version's modalityPolicy
+ * rejects the modality, so it never queues.
+ */
+function modalityPriority(request: ProcessRequest, configId: string): number {
+  const { agentConfig } = loadAgentConfig(configId);
+  const { name } = resolveModality(agentConfig, request.modality);
+  return getModalityDefinition(name)?.priority ?? DEFAULT_MODALITY_PRIORITY;
+}
+
+/**
+ * Whether a request can start now. At the global cap, a warm pool sandbox
+ * or else an idle conversation sandbox (not the request's own, which it
+ * would reuse) is evicted to make room.
+ */
+function hasCapacity(
+  agentId: string,
+  conversationId: string | undefined,
+  limits: AgentConcurrencySettings
+): boolean {
+  if (running >= MAX_CONCURRENT_SANDBOXES) return false;
+  if ((runningByAgent.get(agentId) ?? 0) >= limits.maxConcurrent) return false;
+  const occupied =
+    running + countIdleConversationSandboxes(conversationId) + countPooledSandboxes();
+  if (occupied < MAX_CONCURRENT_SANDBOXES) return true;
+  return evictPooledSandbox() || evictIdleConversation(conversationId);
+}
+
+function acquireSlot(agentId: string): void {
+  running++;
+  runningByAgent.set(agentId, (runningByAgent.get(agentId) ?? 0) + 1);
+}
+
+/**
+ * Estimate when a slot frees up: queued work ahead divided across the
+ * global slots, at the average run time seen so far.
+ */
+function estimateRetryAfterSeconds(): number {
+  const perSlot = avgRunMs || QUEUE_MAX_WAIT_MS;
+  const estimate = ((waiters.length + 1) / MAX_CONCURRENT_SANDBOXES) * perSlot;
+  return Math.max(1, Math.ceil(estimate / 1000));
+}
+
+/** A 429 (agent limit) or 503 (global) carrying a Retry-After estimate */
+function rejection(code: "AGENT_BUSY" | "CAPACITY_EXCEEDED", message: string): AppError {
+  return new AppError(code, message, {
+    phase: "admission",
+    retryAfterSeconds: estimateRetryAfterSeconds(),
+    details: { queue: getSchedulerStats() },
+  });
+}
+
+/**
+ * Grant waiting requests in priority order. A waiter blocked only by its
+ * agent's limit doesn't hold up other agents behind it.
+ */
+function dispatch(): void {
+  for (const waiter of [...waiters]) {
+    if (running >= MAX_CONCURRENT_SANDBOXES) return;
+    if (hasCapacity(waiter.agentId, waiter.conversationId, getAgentLimits(waiter.agentId))) {
+      waiter.grant();
+    }
+  }
+}
+
+function insertByPriority(waiter: Waiter): void {
+  const index = waiters.findIndex(
+    (w) => w.priority > waiter.priority ||
+      (w.priority === waiter.priority && w.seq > waiter.seq)
+  );
+  if (index === -1) waiters.push(waiter);
+  else waiters.splice(index, 0, waiter);
+}
+
+/**
+ * Wait for an execution slot for a request.
+ *
+ * `unbounded` skips the queue depth and wait limits, for callers (the job
+ * queue) that already hold work durably and can wait as long as it takes.
+ */
+export function admit(
+  request: ProcessRequest,
+  options: { signal?: AbortSignal; unbounded?: boolean } = {}
+): Promise<Admission> {
+  const { agentId, conversationId } = request;
+  const limits = getAgentLimits(agentId);
+  const version = resolveConfigVersion(request);
+  const priority = modalityPriority(request, version.configId);
+  const enqueuedAt = Date.now();
+
+  const makeAdmission = (depth: number): Admission => {
+    const waitMs = Date.now() - enqueuedAt;
+    avgWaitMs = avgWaitMs
+      ? avgWaitMs + RUN_TIME_EWMA_ALPHA * (waitMs - avgWaitMs)
+      : waitMs;
+    const startedAt = Date.now();
+    let released = false;
+
+    return {
+      queue: { waitMs, depth, priority },
+      version,
+      release() {
+        if (released) return;
+        released = true;
+        running--;
+        runningByAgent.set(agentId, (runningByAgent.get(agentId) ?? 1) - 1);
+        const runMs = Date.now() - startedAt;
+        avgRunMs = avgRunMs ? avgRunMs + RUN_TIME_EWMA_ALPHA * (runMs - avgRunMs) : runMs;
+        dispatch();
+      },
+    };
+  };
+
+  // Run now only if nobody of equal or higher priority is already waiting
+  const waitingAhead = waiters.some((w) => w.priority <= priority);
+  if (!waitingAhead && hasCapacity(agentId, conversationId, limits)) {
+    acquireSlot(agentId);
+    return Promise.resolve(makeAdmission(0));
+  }
+
+  if (!options.unbounded) {
+    if (waiters.length >= MAX_QUEUE_DEPTH) {
+      rejected++;
+      return Promise.reject(
+        rejection("CAPACITY_EXCEEDED", "Orchestrator at capacity, queue is full")
+      );
+    }
+    const agentQueued = waiters.filter((w) => w.agentId === agentId).length;
+    if (agentQueued >= limits.maxQueueDepth) {
+      rejected++;
+      return Promise.reject(
+        rejection("AGENT_BUSY", `Too many queued requests for agent ${agentId}`)
+      );
+    }
+  }
+
+  return new Promise<Admission>((resolve, reject) => {
+    const depth = waiters.length + 1;
+    let timer: NodeJS.Timeout | undefined;
+
+    const remove = () => {
+      waiters = waiters.filter((w) => w !== waiter);
+      if (timer) clearTimeout(timer);
+      options.signal?.removeEventListener("abort", onAbort);
+    };
+    const onAbort = () => {
+      remove();
+      reject(options.signal!.reason ?? new Error("Request aborted while queued"));
+    };
+
+    const waiter: Waiter = {
+      seq: seq++,
+      agentId,
+      conversationId,
+      priority,
+      enqueuedAt,
+      grant: () => {
+        remove();
+        acquireSlot(agentId);
+        resolve(makeAdmission(depth));
+      },
+    };
+
+    if (!options.unbounded) {
+      timer = setTimeout(() => {
+        remove();
+        rejected++;
+        reject(
+          rejection(
+            "CAPACITY_EXCEEDED",
+            `Timed out after ${QUEUE_MAX_WAIT_MS}ms waiting for a sandbox slot`
+          )
+        );
+      }, QUEUE_MAX_WAIT_MS);
+    }
+    options.signal?.addEventListener("abort", onAbort, { once: true });
+
+    insertByPriority(waiter);
+    console.log(
+      `[Scheduler] Queued ${agentId} request (priority ${priority}, depth ${depth}, running ${running}/${MAX_CONCURRENT_SANDBOXES})`
+    );
+    dispatch();
+  });
+}
+
+/**
+ * The global cap as the warm pools see it: a pool sandbox may start only
+ * while no request is queued and the cap isn't reached, and a queued
+ * request gets another look once a starting one settles.
+ */
+export const poolCapacity: PoolCapacity = {
+  hasRoom: () =>
+    waiters.length === 0 &&
+    running + countIdleConversationSandboxes() + countPooledSandboxes() < MAX_CONCURRENT_SANDBOXES,
+  onSettled: () => dispatch(),
+};
+
+/** Concurrency and queue state, for /health */
+export function getSchedulerStats(): SchedulerStats {
+  const agents: SchedulerStats["agents"] = {};
+  for (const [agentId, count] of runningByAgent) {
+    agents[agentId] = { running: count, queued: 0 };
+  }
+  for (const waiter of waiters) {
+    agents[waiter.agentId] ??= { running: 0, queued: 0 };
+    agents[waiter.agentId].queued++;
+  }
+
+  const now = Date.now();
+  return {
+    running,
+    queued: waiters.length,
+    maxConcurrent: MAX_CONCURRENT_SANDBOXES,
+    maxQueueDepth: MAX_QUEUE_DEPTH,
+    maxWaitMs: QUEUE_MAX_WAIT_MS,
+    oldestWaitMs: waiters.reduce((max, w) => Math.max(max, now - w.enqueuedAt), 0),
+    avgWaitMs: Math.round(avgWaitMs),
+    rejected,
+    agents,
+  };
+}
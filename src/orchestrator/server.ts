@@ -1,12 +1,140 @@
-import { Hono } from "hono";
+import { Hono, type Context, type MiddlewareHandler } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
 import { executeInSandbox, executeInSandboxStream } from "./sandbox-manager.js";
-import { listAgentIds } from "./config-loader.js";
-import type { ProcessRequest } from "./types.js";
+import {
+  explainAgentConfig,
+  getLoadedAgentConfigInfo,
+  listAgentIds,
+  loadAgentConfig,
+  removeConfig,
+} from "./config-loader.js";
+import {
+  describeAgentConfig,
+  dryRunAgent,
+  isValidAgentId,
+  readConfigUpload,
+  uploadAgentConfig,
+} from "./agent-admin.js";
+import { isSharedConfig } from "./config-resolver.js";
+import {
+  configIdFor,
+  CURRENT_VERSION,
+  isValidVersionName,
+  listAgentVersions,
+} from "./config-versions.js";
+import { getLoadedAgentBundleInfo } from "./sandbox-setup.js";
+import { getPoolStats } from "./sandbox-pool.js";
+import {
+  closeConversation,
+  listConversationBindings,
+} from "./conversation-affinity.js";
+import { eraseConversation, getConversationHistory } from "./conversation-history.js";
+import { getSessionStore } from "./session-store.js";
+import { cancelJob, checkCallbackUrl, enqueueJob, getJob, getJobStats } from "./job-queue.js";
+import { listSnapshots } from "./snapshot-manager.js";
+import { listEscalations } from "./escalation.js";
+import { admit, getSchedulerStats } from "./scheduler.js";
+import { AppError, errorResponse, toAppError } from "../shared/errors.js";
+import type { ConfigVersionInfo, ProcessRequest } from "./types.js";
 
 export const app = new Hono();
 
+/**
+ * Validate the fields every processing endpoint requires.
+ * Returns an INVALID_REQUEST error, or null when the request is valid.
+ */
+function validateProcessRequest(body: ProcessRequest): AppError | null {
+  const invalid = (message: string) =>
+    new AppError("INVALID_REQUEST", message, { phase: "request" });
+
+  if (!body.message) {
+    return invalid("message is required");
+  }
+  if (!body.agentId) {
+    return invalid("agentId is required");
+  }
+  if (body.agentId.includes("@")) {
+    return invalid("agentId must not include a version; use configVersion to pin one");
+  }
+  if (body.configVersion !== undefined && !isValidVersionName(body.configVersion)) {
+    return invalid(`Invalid configVersion: ${body.configVersion}`);
+  }
+  if (body.attachments !== undefined) {
+    if (!Array.isArray(body.attachments)) {
+      return invalid("attachments must be an array");
+    }
+    const malformed = body.attachments.findIndex(
+      (a) =>
+        typeof a?.filename !== "string" ||
+        typeof a.contentType !== "string" ||
+        typeof a.data !== "string"
+    );
+    if (malformed !== -1) {
+      return invalid(`attachments[${malformed}] needs string filename, contentType and data`);
+    }
+  }
+  return null;
+}
+
+const PROCESS_FORM_FIELDS = [
+  "message",
+  "agentId",
+  "conversationId",
+  "customerId",
+  "customerEmail",
+  "modality",
+  "configVersion",
+] as const;
+
+const JOB_FORM_FIELDS = [...PROCESS_FORM_FIELDS, "callbackUrl"] as const;
+
+/**
+ * Read the body of a processing request: JSON, or multipart/form-data with
+ * the request fields as form fields (gatewayContext as a JSON string) and
+ * files under `attachments`. A malformed body is INVALID_REQUEST.
+ */
+async function readProcessRequest<T extends ProcessRequest = ProcessRequest>(
+  c: Context,
+  fields: readonly string[] = PROCESS_FORM_FIELDS
+): Promise<T> {
+  if (!c.req.header("Content-Type")?.startsWith("multipart/form-data")) {
+    const body = await c.req.json<unknown>().catch(() => undefined);
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new AppError("INVALID_REQUEST", "Request body must be a JSON object", {
+        phase: "request",
+      });
+    }
+    return body as T;
+  }
+
+  const form = await c.req.parseBody({ all: true });
+  const request: Record<string, unknown> = {};
+  for (const field of fields) {
+    const value = form[field];
+    if (typeof value === "string") request[field] = value;
+  }
+  if (typeof form.gatewayContext === "string") {
+    try {
+      request.gatewayContext = JSON.parse(form.gatewayContext) as Record<string, unknown>;
+    } catch {
+      throw new AppError("INVALID_REQUEST", "gatewayContext must be JSON", { phase: "request" });
+    }
+  }
+
+  const files = [form.attachments ?? []].flat().filter((part) => part instanceof File);
+  if (files.length > 0) {
+    request.attachments = await Promise.all(
+      files.map(async (file) => ({
+        filename: file.name,
+        contentType: file.type || "application/octet-stream",
+        data: Buffer.from(await file.arrayBuffer()).toString("base64"),
+      }))
+    );
+  }
+  return request as T;
+}
+
 // Middleware
 app.use("*", logger());
 app.use("*", cors());
@@ -17,6 +145,9 @@ app.get("/health", (c) => {
     status: "healthy",
     service: "vercel-sandbox-orchestrator",
     agents: listAgentIds(),
+    pools: getPoolStats(),
+    scheduler: getSchedulerStats(),
+    jobs: getJobStats(),
     timestamp: new Date().toISOString(),
   });
 });
@@ -26,79 +157,98 @@ app.post("/process", async (c) => {
   const startTime = Date.now();
 
   try {
-    const body = await c.req.json<ProcessRequest>();
+    const body = await readProcessRequest(c);
 
-    if (!body.message) {
-      return c.json({ error: "message is required" }, 400);
-    }
-    if (!body.agentId) {
-      return c.json({ error: "agentId is required" }, 400);
+    const validationError = validateProcessRequest(body);
+    if (validationError) {
+      return errorResponse(validationError);
     }
 
     console.log(
       `[Orchestrator] Processing request for agent: ${body.agentId}`
     );
 
-    const { response, timing } = await executeInSandbox(body);
+    const admission = await admit(body, { signal: c.req.raw.signal });
+    try {
+      const { response, timing } = await executeInSandbox(body, {
+        signal: c.req.raw.signal,
+        version: admission.version,
+      });
 
-    return c.json({
-      ...response,
-      timing,
-      orchestratorDuration: Date.now() - startTime,
-    });
+      return c.json({
+        ...response,
+        configVersion: timing.configVersion,
+        timing,
+        queue: admission.queue,
+        orchestratorDuration: Date.now() - startTime,
+      });
+    } finally {
+      admission.release();
+    }
   } catch (error) {
-    console.error("[Orchestrator] Error:", error);
-    return c.json(
-      {
-        error: error instanceof Error ? error.message : "Unknown error",
-        duration: Date.now() - startTime,
-      },
-      500
-    );
+    const appError = toAppError(error);
+    console.error(`[Orchestrator] Error (${appError.code}):`, error);
+    return errorResponse(appError, { duration: Date.now() - startTime });
   }
 });
 
 // Streaming endpoint — proxies SSE from sandbox agent
 app.post("/process/stream", async (c) => {
   try {
-    const body = await c.req.json<ProcessRequest>();
+    const body = await readProcessRequest(c);
 
-    if (!body.message) {
-      return c.json({ error: "message is required" }, 400);
-    }
-    if (!body.agentId) {
-      return c.json({ error: "agentId is required" }, 400);
+    const validationError = validateProcessRequest(body);
+    if (validationError) {
+      return errorResponse(validationError);
     }
 
     console.log(
       `[Orchestrator] Streaming request for agent: ${body.agentId}`
     );
 
-    const { stream, cleanup } = await executeInSandboxStream(body);
+    // Fires when the client disconnects, so the agent run is cancelled
+    const disconnect = new AbortController();
+    c.req.raw.signal.addEventListener("abort", () => disconnect.abort(), { once: true });
+
+    const admission = await admit(body, { signal: c.req.raw.signal });
+    let stream: ReadableStream<Uint8Array>;
+    let cleanup: () => Promise<void>;
+    let version: ConfigVersionInfo;
+    try {
+      ({ stream, cleanup, version } = await executeInSandboxStream(body, {
+        signal: disconnect.signal,
+        version: admission.version,
+      }));
+    } catch (error) {
+      admission.release();
+      throw error;
+    }
 
     // Pipe through a TransformStream so we can detect when the stream ends
-    // and clean up the sandbox
+    // (or the client goes away) and clean up the sandbox
     const { readable, writable } = new TransformStream();
     stream
       .pipeTo(writable)
-      .catch(() => {})
-      .finally(() => cleanup());
+      .catch(() => disconnect.abort())
+      .finally(() => {
+        admission.release();
+        return cleanup();
+      });
 
     return new Response(readable, {
       headers: {
         "Content-Type": "text/event-stream",
         "Cache-Control": "no-cache",
         Connection: "keep-alive",
+        "X-Queue-Wait-Ms": String(admission.queue.waitMs),
+        "X-Queue-Depth": String(admission.queue.depth),
+        "X-Config-Version": version.version,
       },
     });
   } catch (error) {
-    console.error("[Orchestrator] Streaming error:", error);
-    return c.json(
-      {
-        error: error instanceof Error ? error.message : "Unknown error",
-      },
-      500
-    );
+    const appError = toAppError(error);
+    console.error(`[Orchestrator] Streaming error (${appError.code}):`, error);
+    return errorResponse(appError);
   }
 });
 
@@ -106,3 +256,246 @@ app.post("/process/stream", async (c) => {
 app.get("/agents", (c) => {
   return c.json({ agents: listAgentIds() });
 });
+
+/**
+ * Config ID addressed by /agents/:id[?version=], or an INVALID_REQUEST
+ * error for a malformed agent ID or version.
+ */
+function agentConfigTarget(
+  c: Context
+): { agentId: string; version: string; configId: string } | AppError {
+  const agentId = c.req.param("id") ?? "";
+  const version = c.req.query("version") ?? CURRENT_VERSION;
+  if (!isValidAgentId(agentId)) {
+    return new AppError("INVALID_REQUEST", `Invalid agent ID: ${agentId}`, { phase: "request" });
+  }
+  if (!isValidVersionName(version)) {
+    return new AppError("INVALID_REQUEST", `Invalid version: ${version}`, { phase: "request" });
+  }
+  return { agentId, version, configId: configIdFor(agentId, version) };
+}
+
+// Admin routes need ADMIN_TOKEN as a bearer token; without one configured
+// they are refused outright
+const requireAdmin: MiddlewareHandler = async (c, next) => {
+  const token = process.env.ADMIN_TOKEN;
+  if (!token) {
+    return errorResponse(
+      new AppError("UNAUTHORIZED", "Admin routes are disabled: ADMIN_TOKEN is not set", {
+        phase: "request",
+      })
+    );
+  }
+  if (c.req.header("Authorization") !== `Bearer ${token}`) {
+    return errorResponse(
+      new AppError("UNAUTHORIZED", "Admin token required", { phase: "request" })
+    );
+  }
+  await next();
+};
+
+// Currently loaded config of an agent (content hash, load time, resolved
+// agent-config.json, skills, validation status), its versions and
+// rollout. ?version= shows another version's config; ?explain=true adds
+// which config each resolved value came from.
+app.get("/agents/:id", (c) => {
+  const target = agentConfigTarget(c);
+  if (target instanceof AppError) return errorResponse(target);
+  const { agentId, version, configId } = target;
+
+  try {
+    const config = getLoadedAgentConfigInfo(configId);
+    return c.json({
+      agentId,
+      version,
+      config,
+      ...describeAgentConfig(configId),
+      ...(c.req.query("explain") === "true" && {
+        provenance: explainAgentConfig(configId).provenance,
+      }),
+      versions: listAgentVersions(agentId),
+      rollout: loadAgentConfig(agentId).agentConfig.rollout ?? null,
+      bundle: getLoadedAgentBundleInfo(),
+    });
+  } catch (error) {
+    return errorResponse(toAppError(error, "config"));
+  }
+});
+
+// Upload a config bundle (tar, tar.gz or zip) as the agent's config, or a
+// version of it with ?version=. Activated only if it validates.
+app.put("/agents/:id", requireAdmin, async (c) => {
+  const target = agentConfigTarget(c);
+  if (target instanceof AppError) return errorResponse(target);
+  const { agentId, version, configId } = target;
+
+  try {
+    const data = await readConfigUpload(c.req.raw);
+    const { files, warnings } = await uploadAgentConfig(configId, data);
+    console.log(`[Orchestrator] Activated uploaded config ${configId}`);
+
+    return c.json({
+      agentId,
+      version,
+      status: "active",
+      files,
+      warnings,
+      ...(!isSharedConfig(configId) && { config: getLoadedAgentConfigInfo(configId) }),
+    });
+  } catch (error) {
+    return errorResponse(toAppError(error, "config"));
+  }
+});
+
+// Delete an agent's config (or one version); refused while other agents
+// extend it
+app.delete("/agents/:id", requireAdmin, async (c) => {
+  const target = agentConfigTarget(c);
+  if (target instanceof AppError) return errorResponse(target);
+  const { agentId, version, configId } = target;
+
+  try {
+    await removeConfig(configId);
+    return c.json({ agentId, version, status: "deleted" });
+  } catch (error) {
+    return errorResponse(toAppError(error, "config"));
+  }
+});
+
+// Boot a sandbox for the agent and run a smoke message through it
+app.post("/agents/:id/dry-run", requireAdmin, async (c) => {
+  const target = agentConfigTarget(c);
+  if (target instanceof AppError) return errorResponse(target);
+
+  try {
+    const body = await c.req
+      .json<Partial<Omit<ProcessRequest, "agentId" | "configVersion">>>()
+      .catch(() => ({}));
+    const result = await dryRunAgent(
+      { ...body, agentId: target.agentId, configVersion: target.version },
+      { signal: c.req.raw.signal }
+    );
+    return c.json(result);
+  } catch (error) {
+    return errorResponse(toAppError(error, "config"));
+  }
+});
+
+// Explicitly end a conversation and stop its bound sandbox
+app.post("/conversations/:id/close", async (c) => {
+  const conversationId = c.req.param("id");
+  const closed = await closeConversation(conversationId);
+
+  if (!closed) {
+    return c.json({ error: `No live sandbox for conversation: ${conversationId}` }, 404);
+  }
+  return c.json({ conversationId, status: "closed" });
+});
+
+// A conversation's turns, from its live sandbox or the stored session
+app.get("/conversations/:id", requireAdmin, async (c) => {
+  const conversationId = c.req.param("id");
+  const history = await getConversationHistory(conversationId);
+
+  if (!history) {
+    return c.json({ error: `Unknown conversation: ${conversationId}` }, 404);
+  }
+  return c.json(history);
+});
+
+// Erase a conversation from its sandbox and the session store (e.g. GDPR requests)
+app.delete("/conversations/:id", requireAdmin, async (c) => {
+  const conversationId = c.req.param("id");
+
+  try {
+    const erased = await eraseConversation(conversationId);
+    if (!erased) {
+      return c.json({ error: `Unknown conversation: ${conversationId}` }, 404);
+    }
+    return c.json({ ...erased, status: "erased" });
+  } catch (error) {
+    return errorResponse(toAppError(error, "request"));
+  }
+});
+
+// Admin: conversation → sandbox affinity state
+app.get("/admin/conversations", requireAdmin, (c) => {
+  return c.json({ conversations: listConversationBindings() });
+});
+
+// Admin: snapshot registry and in-progress rebuilds
+app.get("/admin/snapshots", requireAdmin, (c) => {
+  return c.json(listSnapshots());
+});
+
+// Admin: escalation tickets and their delivery state
+app.get("/admin/escalations", requireAdmin, (c) => {
+  return c.json({ escalations: listEscalations() });
+});
+
+// Delete a conversation's persisted session transcript
+app.delete("/sessions/:conversationId", requireAdmin, async (c) => {
+  const conversationId = c.req.param("conversationId");
+  const deleted = await getSessionStore().delete(conversationId);
+
+  if (!deleted) {
+    return c.json({ error: `No stored session for conversation: ${conversationId}` }, 404);
+  }
+  return c.json({ conversationId, status: "deleted" });
+});
+
+// Submit a message for asynchronous processing (JSON or multipart, like /process)
+app.post("/jobs", async (c) => {
+  let body: ProcessRequest & { callbackUrl?: string };
+  try {
+    body = await readProcessRequest(c, JOB_FORM_FIELDS);
+  } catch (error) {
+    return errorResponse(toAppError(error, "request"));
+  }
+  const { callbackUrl, ...request } = body;
+
+  const validationError = validateProcessRequest(request);
+  if (validationError) {
+    return errorResponse(validationError);
+  }
+  if (callbackUrl) {
+    try {
+      await checkCallbackUrl(callbackUrl);
+    } catch (error) {
+      return errorResponse(toAppError(error, "request"));
+    }
+  }
+
+  const job = enqueueJob(request, callbackUrl);
+  console.log(`[Orchestrator] Accepted job ${job.id} for agent: ${request.agentId}`);
+
+  return c.json(
+    { jobId: job.id, status: job.status, statusUrl: `/jobs/${job.id}` },
+    202
+  );
+});
+
+// Job status, timing and result
+app.get("/jobs/:id", (c) => {
+  const job = getJob(c.req.param("id"));
+  if (!job) {
+    return c.json({ error: `Job not found: ${c.req.param("id")}` }, 404);
+  }
+  return c.json(job);
+});
+
+// Cancel a queued or running job
+app.delete("/jobs/:id", (c) => {
+  const job = cancelJob(c.req.param("id"));
+  if (!job) {
+    return c.json({ error: `Job not found: ${c.req.param("id")}` }, 404);
+  }
+  if (job.status !== "cancelled" && !job.cancelRequested) {
+    return c.json({ error: `Job already ${job.status}`, jobId: job.id }, 409);
+  }
+  return c.json({
+    jobId: job.id,
+    status: job.status,
+    cancelRequested: job.cancelRequested ?? false,
+  });
+});
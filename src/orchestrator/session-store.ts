@@ -0,0 +1,213 @@
+/**
+ * Durable conversation session store.
+ *
+ * Sandboxes die, and the SDK transcript in the sandbox's home directory
+ * dies with them. The agent bundle exports the transcript after every turn;
+ * the orchestrator persists it here and sends it to the next fresh sandbox
+ * so `resume` keeps working.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import { loadAgentConfig } from "./config-loader.js";
+import type { SessionRetentionSettings, SessionTranscript, StoredSession } from "./types.js";
+
+const SESSION_STORE_DIR =
+  process.env.SESSION_STORE_DIR || path.join(process.cwd(), ".sessions");
+const SESSION_PRUNE_INTERVAL_MS = 60 * 60 * 1000; // 1 hour
+
+const DEFAULT_RETENTION: SessionRetentionSettings = {
+  retentionMs: parseInt(
+    process.env.SESSION_RETENTION_MS || String(7 * 24 * 60 * 60 * 1000),
+    10
+  ),
+  maxTranscriptBytes: parseInt(
+    process.env.SESSION_MAX_TRANSCRIPT_BYTES || String(5 * 1024 * 1024),
+    10
+  ),
+};
+
+/** Storage backend for conversation sessions */
+export interface SessionStore {
+  get(conversationId: string): Promise<StoredSession | null>;
+  put(session: StoredSession): Promise<void>;
+  /** Returns false if nothing was stored for the conversation */
+  delete(conversationId: string): Promise<boolean>;
+  list(): Promise<StoredSession[]>;
+}
+
+/**
+ * One JSON file per conversation under SESSION_STORE_DIR.
+ */
+export class FileSessionStore implements SessionStore {
+  constructor(private readonly dir: string) {}
+
+  async get(conversationId: string): Promise<StoredSession | null> {
+    const file = this.fileFor(conversationId);
+    if (!fs.existsSync(file)) return null;
+    return JSON.parse(await fs.promises.readFile(file, "utf-8")) as StoredSession;
+  }
+
+  async put(session: StoredSession): Promise<void> {
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const file = this.fileFor(session.conversationId);
+    // Write-then-rename so a crash never leaves a truncated transcript
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmp, JSON.stringify(session), "utf-8");
+    await fs.promises.rename(tmp, file);
+  }
+
+  async delete(conversationId: string): Promise<boolean> {
+    const file = this.fileFor(conversationId);
+    if (!fs.existsSync(file)) return false;
+    await fs.promises.rm(file, { force: true });
+    return true;
+  }
+
+  async list(): Promise<StoredSession[]> {
+    if (!fs.existsSync(this.dir)) return [];
+    const names = await fs.promises.readdir(this.dir);
+    const sessions: StoredSession[] = [];
+    for (const name of names.filter((n) => n.endsWith(".json"))) {
+      try {
+        const content = await fs.promises.readFile(path.join(this.dir, name), "utf-8");
+        sessions.push(JSON.parse(content) as StoredSession);
+      } catch (err) {
+        console.error(`[Sessions] Skipping unreadable session file ${name}:`, err);
+      }
+    }
+    return sessions;
+  }
+
+  private fileFor(conversationId: string): string {
+    return path.join(this.dir, `${encodeURIComponent(conversationId)}.json`);
+  }
+}
+
+let store: SessionStore = new FileSessionStore(SESSION_STORE_DIR);
+let pruneTimer: NodeJS.Timeout | null = null;
+
+export function getSessionStore(): SessionStore {
+  return store;
+}
+
+/** Swap the backend (e.g. for a database-backed store) */
+export function setSessionStore(next: SessionStore): void {
+  store = next;
+}
+
+/**
+ * Resolve retention for an agent: the optional `sessionRetention` key of its
+ * agent-config.json overrides the SESSION_* environment defaults.
+ */
+function getRetentionSettings(agentId: string): SessionRetentionSettings {
+  try {
+    const { agentConfig } = loadAgentConfig(agentId);
+    const overrides = agentConfig.sessionRetention ?? {};
+    return { ...DEFAULT_RETENTION, ...overrides };
+  } catch {
+    // Agent removed since the session was stored
+    return DEFAULT_RETENTION;
+  }
+}
+
+function isExpired(session: StoredSession, now: number = Date.now()): boolean {
+  const { retentionMs } = getRetentionSettings(session.agentId);
+  return now - Date.parse(session.updatedAt) > retentionMs;
+}
+
+/**
+ * Load the stored session to restore into a fresh sandbox. Sessions past
+ * retention or belonging to another agent are not restored.
+ */
+export async function loadConversationSession(
+  conversationId: string,
+  agentId: string
+): Promise<StoredSession | null> {
+  const session = await store.get(conversationId);
+  if (!session) return null;
+
+  if (isExpired(session)) {
+    await store.delete(conversationId);
+    console.log(`[Sessions] Dropped expired session for conversation ${conversationId}`);
+    return null;
+  }
+  if (session.agentId !== agentId) {
+    console.warn(
+      `[Sessions] Not restoring session of ${session.agentId} for conversation ${conversationId} on ${agentId}`
+    );
+    return null;
+  }
+  return session;
+}
+
+/**
+ * Persist the transcript exported at the end of a turn, enforcing the
+ * agent's size limit. An oversized transcript clears the stored session so
+ * the conversation starts fresh rather than resuming a stale one.
+ */
+export async function saveConversationSession(
+  conversationId: string,
+  agentId: string,
+  exported: SessionTranscript
+): Promise<void> {
+  const { maxTranscriptBytes } = getRetentionSettings(agentId);
+  const size = Buffer.byteLength(exported.transcript, "utf-8");
+
+  if (size > maxTranscriptBytes) {
+    console.warn(
+      `[Sessions] Transcript for conversation ${conversationId} is ${size} bytes (limit ${maxTranscriptBytes}); not persisting`
+    );
+    await store.delete(conversationId);
+    return;
+  }
+
+  const existing = await store.get(conversationId);
+  const now = new Date().toISOString();
+  await store.put({
+    conversationId,
+    agentId,
+    sessionId: exported.sessionId,
+    transcript: exported.transcript,
+    history: exported.history,
+    piiTokens: exported.piiTokens,
+    turns: (existing?.agentId === agentId ? existing.turns : 0) + 1,
+    createdAt: existing?.agentId === agentId ? existing.createdAt : now,
+    updatedAt: now,
+  });
+}
+
+/**
+ * Delete every stored session past its agent's retention period.
+ */
+export async function pruneExpiredSessions(): Promise<number> {
+  const now = Date.now();
+  let pruned = 0;
+
+  for (const session of await store.list()) {
+    if (isExpired(session, now)) {
+      await store.delete(session.conversationId);
+      pruned++;
+    }
+  }
+
+  if (pruned > 0) {
+    console.log(`[Sessions] Pruned ${pruned} expired sessions`);
+  }
+  return pruned;
+}
+
+/** Prune now and then periodically. Safe to call more than once. */
+export function startSessionRetention(): void {
+  void pruneExpiredSessions().catch((err) =>
+    console.error("[Sessions] Prune failed:", err)
+  );
+
+  if (!pruneTimer) {
+    pruneTimer = setInterval(() => {
+      pruneExpiredSessions().catch((err) =>
+        console.error("[Sessions] Prune failed:", err)
+      );
+    }, SESSION_PRUNE_INTERVAL_MS);
+    pruneTimer.unref();
+  }
+}
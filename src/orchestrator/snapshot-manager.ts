@@ -1,33 +1,270 @@
+/**
+ * Snapshot registry and lifecycle.
+ *
+ * Each snapshot is recorded with its provider, creation time, expiry and
+ * the hash of the dependency manifest it was built from. Before a sandbox
+ * is created the registry picks a snapshot matching the agent's manifest;
+ * expired, mismatched or missing snapshots fall back to a fresh runtime
+ * (npm install) while a replacement is built in the background.
+ */
 import * as fs from "fs";
 import * as path from "path";
+import {
+  getSandboxProvider,
+  type SandboxProvider,
+  type SandboxProviderName,
+} from "./sandbox-provider.js";
+import {
+  buildSandboxManifest,
+  hashManifest,
+  type SandboxManifest,
+} from "./sandbox-manifest.js";
+import type { SnapshotRecord } from "./types.js";
+
+const REGISTRY_FILE = path.join(process.cwd(), ".snapshots.json");
+const SNAPSHOT_BUILD_TIMEOUT_MS = 10 * 60 * 1000; // 10 minutes
+// Rebuild this long before a snapshot expires so there's never a gap
+const SNAPSHOT_REFRESH_BEFORE_MS = 24 * 60 * 60 * 1000; // 1 day
+const AUTO_REBUILD = process.env.SNAPSHOT_AUTO_REBUILD !== "false";
+
+/** Outcome of looking up a snapshot for a manifest */
+export interface SnapshotResolution {
+  snapshotId: string | null;
+  manifestHash: string;
+  /** Why no snapshot is used, or "ok" */
+  status: "ok" | "missing" | "expired" | "mismatch";
+}
+
+const rebuilds = new Map<string, Promise<SnapshotRecord>>();
 
-const SNAPSHOT_FILE = path.join(process.cwd(), ".snapshot-id");
+function readRegistry(): SnapshotRecord[] {
+  if (!fs.existsSync(REGISTRY_FILE)) {
+    return importLegacySnapshotFiles();
+  }
+  try {
+    const parsed = JSON.parse(fs.readFileSync(REGISTRY_FILE, "utf-8")) as {
+      snapshots: SnapshotRecord[];
+    };
+    return parsed.snapshots ?? [];
+  } catch (err) {
+    console.error("[Snapshot] Unreadable registry, ignoring:", err);
+    return [];
+  }
+}
+
+function writeRegistry(snapshots: SnapshotRecord[]): void {
+  const tmp = `${REGISTRY_FILE}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify({ snapshots }, null, 2), "utf-8");
+  fs.renameSync(tmp, REGISTRY_FILE);
+}
 
 /**
- * Read the snapshot ID from the .snapshot-id file.
- * Returns null if file doesn't exist or is empty.
+ * Seed the registry from the pre-registry .snapshot-id files. Those were
+ * always built from the base manifest; expiry is estimated from file mtime.
  */
-export function getSnapshotId(): string | null {
-  if (!fs.existsSync(SNAPSHOT_FILE)) {
-    console.log("[Snapshot] No .snapshot-id file found");
-    return null;
+function importLegacySnapshotFiles(): SnapshotRecord[] {
+  const records: SnapshotRecord[] = [];
+
+  for (const provider of ["vercel", "local"] as SandboxProviderName[]) {
+    const file = path.join(
+      process.cwd(),
+      provider === "vercel" ? ".snapshot-id" : `.snapshot-id.${provider}`
+    );
+    if (!fs.existsSync(file)) continue;
+
+    const snapshotId = fs.readFileSync(file, "utf-8").trim();
+    if (!snapshotId) continue;
+
+    const { snapshotTtlMs } = getSandboxProvider(provider);
+    const createdAt = fs.statSync(file).mtimeMs;
+    records.push({
+      snapshotId,
+      provider,
+      manifestHash: hashManifest(buildSandboxManifest()),
+      createdAt: new Date(createdAt).toISOString(),
+      expiresAt: snapshotTtlMs ? new Date(createdAt + snapshotTtlMs).toISOString() : null,
+    });
+    console.log(`[Snapshot] Imported legacy ${path.basename(file)}: ${snapshotId}`);
   }
 
-  const id = fs.readFileSync(SNAPSHOT_FILE, "utf-8").trim();
+  if (records.length > 0) {
+    writeRegistry(records);
+  }
+  return records;
+}
 
-  if (!id) {
-    console.log("[Snapshot] .snapshot-id file is empty");
-    return null;
+function isExpired(record: SnapshotRecord, now: number = Date.now()): boolean {
+  return record.expiresAt !== null && Date.parse(record.expiresAt) <= now;
+}
+
+/**
+ * Pick the newest valid snapshot for a provider and manifest. When none is
+ * usable (or the one found is close to expiry) a rebuild is started in the
+ * background; the caller falls back to a fresh runtime meanwhile.
+ */
+export function resolveSnapshot(
+  provider: SandboxProviderName,
+  manifest: SandboxManifest,
+  agentId?: string
+): SnapshotResolution {
+  const manifestHash = hashManifest(manifest);
+  const now = Date.now();
+  const forProvider = readRegistry().filter((r) => r.provider === provider);
+  const matching = forProvider
+    .filter((r) => r.manifestHash === manifestHash)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  const valid = matching.find((r) => !isExpired(r, now));
+
+  if (valid) {
+    if (
+      valid.expiresAt !== null &&
+      Date.parse(valid.expiresAt) - now < SNAPSHOT_REFRESH_BEFORE_MS
+    ) {
+      rebuildSnapshotInBackground(provider, manifest, agentId);
+    }
+    console.log(`[Snapshot] Using snapshot: ${valid.snapshotId}`);
+    return { snapshotId: valid.snapshotId, manifestHash, status: "ok" };
   }
 
-  console.log(`[Snapshot] Using snapshot: ${id}`);
-  return id;
+  const status =
+    matching.length > 0 ? "expired" : forProvider.length > 0 ? "mismatch" : "missing";
+  console.log(
+    `[Snapshot] No usable ${provider} snapshot for manifest ${manifestHash} (${status}); using fresh runtime`
+  );
+  rebuildSnapshotInBackground(provider, manifest, agentId);
+
+  return { snapshotId: null, manifestHash, status };
 }
 
 /**
- * Save a snapshot ID to the .snapshot-id file.
+ * Drop a snapshot the provider no longer has (e.g. create from it failed).
  */
-export function saveSnapshotId(id: string): void {
-  fs.writeFileSync(SNAPSHOT_FILE, id, "utf-8");
-  console.log(`[Snapshot] Saved snapshot ID: ${id}`);
+export function invalidateSnapshot(snapshotId: string): void {
+  const snapshots = readRegistry();
+  const remaining = snapshots.filter((r) => r.snapshotId !== snapshotId);
+  if (remaining.length !== snapshots.length) {
+    writeRegistry(remaining);
+    console.log(`[Snapshot] Invalidated snapshot: ${snapshotId}`);
+  }
+}
+
+export function registerSnapshot(record: SnapshotRecord): void {
+  writeRegistry([...readRegistry(), record]);
+  console.log(
+    `[Snapshot] Registered ${record.provider} snapshot ${record.snapshotId} (manifest ${record.manifestHash})`
+  );
+}
+
+/** Registry contents plus in-progress rebuilds, for the admin endpoint */
+export function listSnapshots(): {
+  snapshots: (SnapshotRecord & { expired: boolean })[];
+  rebuilding: string[];
+} {
+  const now = Date.now();
+  return {
+    snapshots: readRegistry().map((r) => ({ ...r, expired: isExpired(r, now) })),
+    rebuilding: [...rebuilds.keys()],
+  };
+}
+
+/**
+ * Build a snapshot: create a bare sandbox, install the manifest's
+ * dependencies (and the Claude Code CLI where the provider is isolated),
+ * snapshot it and record it in the registry.
+ */
+export async function buildSnapshot(
+  provider: SandboxProvider,
+  manifest: SandboxManifest,
+  agentId?: string
+): Promise<SnapshotRecord> {
+  const manifestHash = hashManifest(manifest);
+  const buildStart = Date.now();
+  console.log(`[Snapshot] Building ${provider.name} snapshot for manifest ${manifestHash}...`);
+
+  const sandbox = await provider.create({
+    timeoutMs: SNAPSHOT_BUILD_TIMEOUT_MS,
+    ports: [],
+  });
+
+  try {
+    await sandbox.writeFiles([
+      {
+        path: "package.json",
+        content: Buffer.from(JSON.stringify(manifest, null, 2), "utf-8"),
+      },
+    ]);
+
+    const installResult = await sandbox.runCommand({
+      cmd: "npm",
+      args: ["install", "--production"],
+      env: { NODE_ENV: "production" },
+    });
+    if (installResult.exitCode !== 0) {
+      const stderr = await installResult.stderr();
+      throw new Error(`npm install failed: ${stderr}`);
+    }
+
+    if (provider.isolated) {
+      const globalResult = await sandbox.runCommand({
+        cmd: "npm",
+        args: ["install", "-g", "@anthropic-ai/claude-code"],
+      });
+      if (globalResult.exitCode !== 0) {
+        // Non-fatal — the bundled CLI in node_modules should work
+        console.warn(
+          "[Snapshot] Global Claude Code install failed, bundled CLI will be used:",
+          await globalResult.stderr()
+        );
+      }
+    }
+
+    // Snapshotting stops the sandbox
+    const snapshotId = await sandbox.snapshot();
+    const createdAt = Date.now();
+    const record: SnapshotRecord = {
+      snapshotId,
+      provider: provider.name,
+      manifestHash,
+      createdAt: new Date(createdAt).toISOString(),
+      expiresAt: provider.snapshotTtlMs
+        ? new Date(createdAt + provider.snapshotTtlMs).toISOString()
+        : null,
+      ...(agentId && { agentId }),
+    };
+    registerSnapshot(record);
+    console.log(`[Snapshot] Built ${snapshotId} in ${Date.now() - buildStart}ms`);
+    return record;
+  } catch (error) {
+    try {
+      await sandbox.stop();
+    } catch {
+      // ignore
+    }
+    throw error;
+  }
+}
+
+/**
+ * Build a snapshot for a manifest unless one is already being built.
+ * Disabled with SNAPSHOT_AUTO_REBUILD=false.
+ */
+export function rebuildSnapshotInBackground(
+  provider: SandboxProviderName,
+  manifest: SandboxManifest,
+  agentId?: string
+): void {
+  if (!AUTO_REBUILD) return;
+
+  const key = `${provider}:${hashManifest(manifest)}`;
+  if (rebuilds.has(key)) return;
+
+  const build = buildSnapshot(getSandboxProvider(provider), manifest, agentId)
+    .catch((err) => {
+      console.error(`[Snapshot] Background rebuild ${key} failed:`, err);
+      throw err;
+    })
+    .finally(() => rebuilds.delete(key));
+  // Observed via the admin endpoint only; don't surface as unhandled
+  build.catch(() => {});
+  rebuilds.set(key, build);
 }
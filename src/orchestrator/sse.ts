@@ -0,0 +1,93 @@
+/**
+ * Minimal Server-Sent Events parsing for streams proxied from the sandbox.
+ */
+
+export interface SseEvent {
+  event?: string;
+  data: string;
+  id?: string;
+}
+
+/**
+ * Returning an array replaces the event (empty drops it); returning
+ * undefined passes it through unchanged.
+ */
+export type SseEventHandler = (
+  event: SseEvent
+) => SseEvent[] | undefined | Promise<SseEvent[] | undefined>;
+
+function parseEvent(block: string): SseEvent | null {
+  const event: SseEvent = { data: "" };
+  const dataLines: string[] = [];
+
+  for (const line of block.split(/\r?\n/)) {
+    if (!line || line.startsWith(":")) continue;
+    const colon = line.indexOf(":");
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? "" : line.slice(colon + 1);
+    if (value.startsWith(" ")) value = value.slice(1);
+
+    if (field === "event") event.event = value;
+    else if (field === "data") dataLines.push(value);
+    else if (field === "id") event.id = value;
+  }
+
+  if (dataLines.length === 0 && !event.event) return null;
+  event.data = dataLines.join("\n");
+  return event;
+}
+
+export function serializeSseEvent(event: SseEvent): string {
+  let out = "";
+  if (event.event) out += `event: ${event.event}\n`;
+  for (const line of event.data.split("\n")) {
+    out += `data: ${line}\n`;
+  }
+  if (event.id) out += `id: ${event.id}\n`;
+  return `${out}\n`;
+}
+
+/**
+ * Pipe an SSE byte stream through a handler that can inspect, rewrite,
+ * drop or add events.
+ */
+export function transformSseStream(
+  stream: ReadableStream<Uint8Array>,
+  handler: SseEventHandler
+): ReadableStream<Uint8Array> {
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+  let buffer = "";
+
+  const emit = async (
+    block: string,
+    controller: TransformStreamDefaultController<Uint8Array>
+  ) => {
+    const event = parseEvent(block);
+    if (!event) return;
+    const replacement = await handler(event);
+    for (const out of replacement ?? [event]) {
+      controller.enqueue(encoder.encode(serializeSseEvent(out)));
+    }
+  };
+
+  return stream.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      async transform(chunk, controller) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let boundary: RegExpMatchArray | null;
+        while ((boundary = buffer.match(/\r?\n\r?\n/)) && boundary.index !== undefined) {
+          const block = buffer.slice(0, boundary.index);
+          buffer = buffer.slice(boundary.index + boundary[0].length);
+          await emit(block, controller);
+        }
+      },
+      async flush(controller) {
+        buffer += decoder.decode();
+        if (buffer.trim()) {
+          await emit(buffer, controller);
+        }
+      },
+    })
+  );
+}
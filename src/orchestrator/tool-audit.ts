@@ -0,0 +1,124 @@
+/**
+ * Tool permission audit log.
+ *
+ * The agent reports every allow/deny decision of its tool policy with the
+ * response, error or cancellation (the `done`, `error` or `cancelled` event
+ * when streaming). They are appended to TOOL_AUDIT_LOG as JSON lines, one
+ * per decision, tagged with the request. Erasing a conversation redacts its
+ * lines: the decisions stay, the conversation and call subjects go.
+ */
+import * as fs from "fs";
+import * as path from "path";
+import type { ToolDecision } from "../shared/tool-policy.js";
+import type { ConfigVersionInfo, ProcessRequest } from "./types.js";
+
+const TOOL_AUDIT_LOG =
+  process.env.TOOL_AUDIT_LOG || path.join(process.cwd(), ".audit", "tool-decisions.jsonl");
+
+// Appends and redaction rewrites run one at a time, so a rewrite never
+// drops lines appended while it was reading the log
+let writes: Promise<unknown> = Promise.resolve();
+
+function serialized<T>(write: () => Promise<T>): Promise<T> {
+  const result = writes.then(write);
+  writes = result.catch(() => undefined);
+  return result;
+}
+
+/** Records the first decisions reported for one request */
+export type ToolAuditRecorder = (decisions: ToolDecision[] | undefined) => Promise<void>;
+
+/**
+ * Append a request's tool decisions to the audit log. Failures are logged;
+ * the request itself has already ended.
+ */
+export async function recordToolDecisions(
+  request: ProcessRequest,
+  version: ConfigVersionInfo,
+  requestId: string,
+  decisions: ToolDecision[] | undefined
+): Promise<void> {
+  if (!decisions?.length) return;
+
+  const lines = decisions.map((decision) =>
+    JSON.stringify({
+      requestId,
+      agentId: request.agentId,
+      configVersion: version.version,
+      conversationId: request.conversationId,
+      ...decision,
+    })
+  );
+  const denied = decisions.filter((decision) => decision.decision === "deny").length;
+  if (denied > 0) {
+    console.log(
+      `[Audit] Request ${requestId} had ${denied} of ${decisions.length} tool calls denied`
+    );
+  }
+
+  try {
+    await serialized(async () => {
+      await fs.promises.mkdir(path.dirname(TOOL_AUDIT_LOG), { recursive: true });
+      await fs.promises.appendFile(TOOL_AUDIT_LOG, `${lines.join("\n")}\n`, "utf-8");
+    });
+  } catch (err) {
+    console.error(`[Audit] Failed to write tool decisions of request ${requestId}:`, err);
+  }
+}
+
+/**
+ * A recorder for one request. A cancelled run can report its decisions
+ * twice (cancel response and `cancelled` event); only the first is kept.
+ */
+export function toolAuditRecorder(
+  request: ProcessRequest,
+  version: ConfigVersionInfo,
+  requestId: string
+): ToolAuditRecorder {
+  let recorded = false;
+  return async (decisions) => {
+    if (recorded || !decisions) return;
+    recorded = true;
+    await recordToolDecisions(request, version, requestId, decisions);
+  };
+}
+
+/**
+ * Remove a conversation's id and call subjects (commands, paths) from its
+ * audit lines, after any appends already under way. Returns how many lines
+ * were redacted.
+ */
+export function redactConversationToolDecisions(conversationId: string): Promise<number> {
+  return serialized(async () => {
+    let content: string;
+    try {
+      content = await fs.promises.readFile(TOOL_AUDIT_LOG, "utf-8");
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === "ENOENT") return 0;
+      throw err;
+    }
+
+    let redacted = 0;
+    const lines = content
+      .split("\n")
+      .filter((line) => line.trim())
+      .map((line) => {
+        try {
+          const entry = JSON.parse(line) as { conversationId?: string; subject?: string };
+          if (entry.conversationId !== conversationId) return line;
+          redacted++;
+          const { conversationId: _conversationId, subject: _subject, ...rest } = entry;
+          return JSON.stringify({ ...rest, redacted: true });
+        } catch {
+          return line;
+        }
+      });
+    if (redacted === 0) return 0;
+
+    const tmp = `${TOOL_AUDIT_LOG}.${process.pid}.tmp`;
+    await fs.promises.writeFile(tmp, lines.map((line) => `${line}\n`).join(""), "utf-8");
+    await fs.promises.rename(tmp, TOOL_AUDIT_LOG);
+    console.log(`[Audit] Redacted ${redacted} tool decisions of conversation ${conversationId}`);
+    return redacted;
+  });
+}
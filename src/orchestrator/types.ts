@@ -1,6 +1,20 @@
 /**
  * Shared types for the orchestrator layer.
  */
+import type { AgentConfig } from "../shared/agent-config.js";
+import type {
+  ConversationErasure,
+  ConversationHistory,
+  ConversationTurn,
+} from "../shared/conversation.js";
+import type { ErrorBody } from "../shared/errors.js";
+import type { ToolDecision } from "../shared/tool-policy.js";
+import type {
+  CustomerAnalysis,
+  ExtendedResponseMetadata,
+  ResponseMetadata,
+} from "../shared/response-schema.js";
+import type { ValidationIssue } from "../shared/validation.js";
 
 /** Request body for POST /process and POST /process/stream */
 export interface ProcessRequest {
@@ -11,24 +25,174 @@ export interface ProcessRequest {
   customerEmail?: string;
   modality?: string;
   gatewayContext?: Record<string, unknown>;
+  /** Files sent with the message (multipart uploads arrive here too) */
+  attachments?: AttachmentUpload[];
+  /** Pin a config version (config `agentId@version`) */
+  configVersion?: string;
 }
 
+/** A file sent with a message */
+export interface AttachmentUpload {
+  filename: string;
+  /** MIME type, e.g. "image/png" */
+  contentType: string;
+  /** File content, base64-encoded */
+  data: string;
+}
+
+/** An attachment as a job records it; the content is held in memory only */
+export interface JobAttachment {
+  filename: string;
+  contentType: string;
+  /** Decoded size in bytes */
+  size: number;
+}
+
+/**
+ * agent-config.json as the orchestrator reads it: the agent's runtime
+ * settings plus orchestrator-side keys (validated by config-schema.ts)
+ */
+export interface OrchestratorAgentConfig extends AgentConfig {
+  sandboxProvider?: "vercel" | "local";
+  /** Extra npm dependencies installed into the agent's sandboxes */
+  sandboxDependencies?: Record<string, string>;
+  pool?: Partial<PoolSettings>;
+  affinity?: Partial<AffinitySettings>;
+  sessionRetention?: Partial<SessionRetentionSettings>;
+  attachments?: Partial<AttachmentSettings>;
+  retryPolicy?: Partial<RetryPolicySettings>;
+  concurrency?: Partial<AgentConcurrencySettings>;
+  rollout?: RolloutSettings;
+  escalation?: EscalationSettings;
+  /** Base configs this one inherits from, in order (resolved away on load) */
+  extends?: string[];
+  /** Shared skill libraries under `_skills` to include (resolved away on load) */
+  skillLibraries?: string[];
+}
+
+/** Canary rollout, from the `rollout` key of an agent's current agent-config.json */
+export interface RolloutSettings {
+  /** Version that receives `percent` of traffic */
+  canary: string;
+  /** 0–100 */
+  percent: number;
+  /** Version for the remaining traffic (default: current) */
+  stable?: string;
+  /** Request field that keeps a caller on one side (default: conversationId, then customerId) */
+  stickyKey?: "conversationId" | "customerId";
+}
+
+/** The config version a request was routed to */
+export interface ConfigVersionInfo {
+  agentId: string;
+  version: string;
+  /** `agentId`, or `agentId@version` for any other version */
+  configId: string;
+  source: "pinned" | "canary" | "stable";
+}
+
+/**
+ * Where each value of a resolved config came from: value path (e.g.
+ * `mcpServers.zendesk`, `allowedTools[Read]`, `skills/refunds/SKILL.md`)
+ * → config IDs that contributed it, in merge order. For overridden values
+ * only the winning config is listed.
+ */
+export type ConfigProvenance = Record<string, string[]>;
+
 /** Loaded agent configuration bundle */
 export interface AgentConfigBundle {
   claudeMd: string;
-  agentConfig: Record<string, unknown>;
+  agentConfig: OrchestratorAgentConfig;
   skills: Record<string, string>; // relativePath -> fileContent
 }
 
-/** Response shape from the agent inside the sandbox */
-export interface AgentProcessResponse {
+/** The config an agent is currently served with, for GET /agents/:id */
+export interface LoadedAgentConfigInfo {
+  hash: string;
+  loadedAt: string;
+  /** Config source that served it (local, archive, http) */
+  source: string;
+  /** Configs merged into this one, bases first */
+  layers: string[];
+  skills: string[];
+  /** Set while a broken edit is ignored in favor of the previous config */
+  reloadError?: string;
+}
+
+/** A skill of a resolved agent, from its SKILL.md frontmatter */
+export interface SkillInfo {
+  /** Skill directory, relative to .claude/skills/ */
+  name: string;
+  description?: string;
+  /** Every `key: value` of the frontmatter */
+  frontmatter: Record<string, string>;
+  /** Files of the skill, SKILL.md included */
+  files: string[];
+}
+
+/** What GET /agents/:id reports about a config beyond its load state */
+export interface AgentConfigDetails {
+  /** agent-config.json after inheritance */
+  resolved: OrchestratorAgentConfig;
+  claudeMdBytes: number;
+  skills: SkillInfo[];
+  /** Modalities the agent accepts: built in and its own */
+  modalities: string[];
+  validation: { valid: boolean; errors: ValidationIssue[]; warnings: ValidationIssue[] };
+}
+
+/** Outcome of POST /agents/:id/dry-run */
+export interface DryRunResult {
+  agentId: string;
+  configVersion: string;
+  passed: boolean;
+  message: string;
+  response?: AgentProcessResponse;
+  error?: ErrorBody;
+  /** Set when the agent answered */
+  timing?: ExecutionTiming;
+  durationMs: number;
+}
+
+/** The agent server bundle currently written into new sandboxes */
+export interface LoadedAgentBundleInfo {
+  hash: string;
+  loadedAt: string;
+}
+
+/**
+ * Response shape from the agent inside the sandbox. `Extra` and `Flag`
+ * type the metadata properties and flags an agent's outputSchema adds;
+ * by default they are unchecked.
+ */
+export interface AgentProcessResponse<
+  Extra extends object = { [key: string]: unknown },
+  Flag extends string = string,
+> {
   requestId: string;
   response: string;
   guidesUsed?: string[];
   confidence?: string;
   duration: number;
-  metadata?: Record<string, unknown>;
+  metadata?: ResponseMetadata<Extra, Flag>;
   error?: string;
+  /** Transcript exported by the agent; persisted, never returned to clients */
+  session?: SessionTranscript;
+  /** Tool permission decisions; written to the audit log, never returned to clients */
+  toolAudit?: ToolDecision[];
+  /** Set when the response was flagged NEEDS_ESCALATION and handed off */
+  escalation?: EscalationInfo;
+}
+
+/** SDK session transcript exchanged with the agent bundle */
+export interface SessionTranscript {
+  sessionId: string;
+  /** Raw JSONL transcript written by the SDK */
+  transcript: string;
+  /** Turns answered so far, oldest first; served once the sandbox is gone */
+  history?: ConversationTurn[];
+  /** PII token -> value, so a fresh sandbox resolves the transcript's tokens */
+  piiTokens?: Record<string, string>;
 }
 
 /** Timing breakdown for a sandbox execution */
@@ -39,4 +203,281 @@ export interface ExecutionTiming {
   healthPoll: number;
   agentProcess: number;
   total: number;
+  /** True when the sandbox came from the warm pool (setup phases are then 0) */
+  pooled: boolean;
+  /** True when the sandbox is bound to the request's conversation */
+  affine: boolean;
+  /** Config version the request ran against, and why it was chosen */
+  configVersion?: string;
+  configVersionSource?: ConfigVersionInfo["source"];
+  /** Every setup phase attempt, when this request set up its own sandbox */
+  setupAttempts?: SetupAttempt[];
+}
+
+export type SetupPhase = "create" | "writeFiles" | "install" | "serverStart" | "healthPoll";
+
+/** One attempt at a sandbox setup phase */
+export interface SetupAttempt {
+  phase: SetupPhase;
+  /** Which sandbox this was, counting recreates (1 = first sandbox) */
+  round: number;
+  attempt: number;
+  durationMs: number;
+  ok: boolean;
+  error?: string;
+  /** What happened after a failure */
+  action?: "retry" | "fallback" | "recreate" | "fail";
+}
+
+/** Setup retry policy, from the `retryPolicy` key of agent-config.json */
+export interface RetryPolicySettings {
+  /** Attempts per retryable phase (create, writeFiles, install) */
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Fresh sandboxes to try after a phase fails for good */
+  maxRecreates: number;
+  /** Per-phase overrides of maxAttempts */
+  phases?: Partial<Record<SetupPhase, { maxAttempts?: number }>>;
+}
+
+/** Warm pool sizing, from the `pool` key of agent-config.json */
+export interface PoolSettings {
+  /** Warm sandboxes kept even when the agent sees no traffic */
+  minSize: number;
+  /** Upper bound the pool grows to under demand */
+  maxSize: number;
+  /** Without demand for this long, the pool shrinks back to minSize */
+  idleTtlMs: number;
+}
+
+/** Pool occupancy reported by /health */
+export interface PoolStats extends PoolSettings {
+  warm: number;
+  starting: number;
+  target: number;
+  hits: number;
+  misses: number;
+  lastError?: string;
+}
+
+/** Conversation affinity, from the `affinity` key of agent-config.json */
+export interface AffinitySettings {
+  /** Route turns of the same conversationId to the same live sandbox */
+  enabled: boolean;
+  /** Release the sandbox after this long without a turn */
+  idleTimeoutMs: number;
+  /** Release the sandbox this long after the conversation was bound */
+  maxLifetimeMs: number;
+}
+
+/** Response of the orchestrator's GET /conversations/:id */
+export interface ConversationHistoryInfo extends ConversationHistory {
+  agentId: string;
+  /** "sandbox" when the bound sandbox answered, "store" for the persisted history */
+  source: "sandbox" | "store";
+}
+
+/** Response of the orchestrator's DELETE /conversations/:id */
+export interface ConversationErasureInfo {
+  conversationId: string;
+  /** What the bound sandbox erased before it was stopped */
+  sandbox?: ConversationErasure;
+  sandboxStopped: boolean;
+  storedSessionDeleted: boolean;
+  /** Queued or finished jobs deleted */
+  jobsDeleted: number;
+  /** Escalation tickets deleted; file sink entries go with them */
+  escalationsDeleted: number;
+  /** Tool audit log lines stripped of the conversation */
+  toolDecisionsRedacted: number;
+}
+
+/** A conversation → sandbox binding, as reported by the admin endpoint */
+export interface ConversationBindingInfo {
+  conversationId: string;
+  agentId: string;
+  configVersion: string;
+  sandboxId: string;
+  provider: string;
+  boundAt: string;
+  lastActiveAt: string;
+  turns: number;
+  inFlight: number;
+  closing: boolean;
+  idleExpiresAt: string;
+  lifetimeExpiresAt: string;
+  sandboxExpiresAt: string;
+}
+
+/** Session retention, from the `sessionRetention` key of agent-config.json */
+export interface SessionRetentionSettings {
+  /** Delete a stored session this long after its last turn */
+  retentionMs: number;
+  /** Transcripts larger than this are not persisted */
+  maxTranscriptBytes: number;
+}
+
+/** Attachment limits, from the `attachments` key of agent-config.json */
+export interface AttachmentSettings {
+  maxFiles: number;
+  /** Per file, decoded */
+  maxFileBytes: number;
+  /** All files of one request together */
+  maxTotalBytes: number;
+  /** MIME types accepted; "type/*" accepts a whole family */
+  allowedTypes: string[];
+}
+
+/** A conversation's persisted SDK session */
+export interface StoredSession extends SessionTranscript {
+  conversationId: string;
+  agentId: string;
+  turns: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Per-agent admission limits, from the `concurrency` key of agent-config.json */
+export interface AgentConcurrencySettings {
+  /** Requests for this agent running at once */
+  maxConcurrent: number;
+  /** Requests for this agent waiting for a slot before new ones get 429 */
+  maxQueueDepth: number;
+}
+
+/** How long a request waited for admission, returned with its response */
+export interface QueueInfo {
+  waitMs: number;
+  /** Position in the queue when it arrived (0 when admitted immediately) */
+  depth: number;
+  /** Modality priority; lower runs first */
+  priority: number;
+}
+
+/** Scheduler state reported by /health */
+export interface SchedulerStats {
+  running: number;
+  queued: number;
+  maxConcurrent: number;
+  maxQueueDepth: number;
+  maxWaitMs: number;
+  oldestWaitMs: number;
+  avgWaitMs: number;
+  /** Requests turned away (queue full or wait exceeded) since startup */
+  rejected: number;
+  agents: Record<string, { running: number; queued: number }>;
+}
+
+export type JobStatus = "queued" | "running" | "succeeded" | "failed" | "cancelled";
+
+/** Delivery state of a job's completion callback */
+export interface JobCallback {
+  url: string;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  lastError?: string;
+}
+
+/** An asynchronous agent request, as persisted and returned by GET /jobs/:id */
+export interface Job {
+  id: string;
+  status: JobStatus;
+  request: Omit<ProcessRequest, "attachments"> & { attachments?: JobAttachment[] };
+  createdAt: string;
+  startedAt?: string;
+  completedAt?: string;
+  /** Times the job has been started (restarts re-run interrupted jobs) */
+  attempts: number;
+  cancelRequested?: boolean;
+  result?: AgentProcessResponse;
+  timing?: ExecutionTiming;
+  queue?: QueueInfo;
+  error?: ErrorBody;
+  callback?: JobCallback;
+}
+
+/** A snapshot in the registry (.snapshots.json) */
+export interface SnapshotRecord {
+  snapshotId: string;
+  provider: "vercel" | "local";
+  /** Hash of the dependency manifest the snapshot was built from */
+  manifestHash: string;
+  createdAt: string;
+  /** null when the provider keeps snapshots indefinitely */
+  expiresAt: string | null;
+  /** Set when built for an agent with extra sandboxDependencies */
+  agentId?: string;
+}
+
+/** Where escalations are delivered */
+export type EscalationSinkSpec =
+  | { type: "webhook"; url: string; headers?: Record<string, string> }
+  /**
+   * Appends one JSON line per ticket to `path`, a .jsonl file relative to
+   * ESCALATIONS_DIR (default ESCALATION_QUEUE_FILE)
+   */
+  | { type: "file"; path?: string }
+  /** Stub: logs the email that would be sent */
+  | { type: "email"; to: string[]; from?: string };
+
+/** Escalation handoff, from the `escalation` key of agent-config.json */
+export interface EscalationSettings {
+  /** Every escalation goes to each sink */
+  sinks: EscalationSinkSpec[];
+  /** A conversation's escalations within this window share one ticket */
+  dedupWindowMs?: number;
+  /** Transcript messages included with the ticket */
+  transcriptMessages?: number;
+}
+
+/** One message of the conversation, as sent with an escalation */
+export interface TranscriptExcerptEntry {
+  role: "customer" | "agent";
+  text: string;
+}
+
+/** What sinks receive for an escalation */
+export interface EscalationPayload {
+  ticketId: string;
+  agentId: string;
+  conversationId?: string;
+  customerId?: string;
+  customerEmail?: string;
+  modality?: string;
+  reason: string;
+  flags: string[];
+  customerAnalysis?: CustomerAnalysis;
+  confidence?: string;
+  /** The customer message and agent response that triggered it */
+  message: string;
+  response: string;
+  metadata?: ExtendedResponseMetadata;
+  transcriptExcerpt: TranscriptExcerptEntry[];
+  createdAt: string;
+}
+
+/** Delivery state of a ticket to one sink */
+export interface EscalationDelivery {
+  sink: EscalationSinkSpec;
+  status: "pending" | "delivered" | "failed";
+  attempts: number;
+  lastError?: string;
+}
+
+/** An escalation ticket, as persisted and listed by GET /admin/escalations */
+export interface EscalationTicket {
+  id: string;
+  payload: EscalationPayload;
+  /** Escalations folded into this ticket, the first included */
+  occurrences: number;
+  lastEscalatedAt: string;
+  deliveries: EscalationDelivery[];
+}
+
+/** Returned with a response that was escalated */
+export interface EscalationInfo {
+  ticketId: string;
+  /** True when the conversation already had an open ticket */
+  deduplicated: boolean;
 }
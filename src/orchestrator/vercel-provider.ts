@@ -0,0 +1,85 @@
+import { Sandbox } from "@vercel/sandbox";
+import type {
+  CommandResult,
+  CreateSandboxOptions,
+  RunCommandOptions,
+  SandboxFile,
+  SandboxHandle,
+  SandboxProvider,
+} from "./sandbox-provider.js";
+
+/**
+ * Vercel Sandbox provider — a thin adapter over @vercel/sandbox.
+ */
+export function createVercelProvider(): SandboxProvider {
+  return {
+    name: "vercel",
+    isolated: true,
+    snapshotTtlMs: 7 * 24 * 60 * 60 * 1000, // Vercel deletes snapshots after 7 days
+
+    async create(options: CreateSandboxOptions): Promise<SandboxHandle> {
+      const common = {
+        timeout: options.timeoutMs,
+        ports: options.ports,
+        resources: { vcpus: options.vcpus ?? 2 },
+      };
+
+      const sandbox = options.snapshotId
+        ? await Sandbox.create({
+            source: { type: "snapshot", snapshotId: options.snapshotId },
+            ...common,
+          })
+        : await Sandbox.create({ runtime: "node22", ...common });
+
+      return wrapSandbox(sandbox);
+    },
+  };
+}
+
+function wrapSandbox(sandbox: Sandbox): SandboxHandle {
+  return {
+    id: sandbox.sandboxId,
+    provider: "vercel",
+
+    async writeFiles(files: SandboxFile[]): Promise<void> {
+      await sandbox.writeFiles(files);
+    },
+
+    async runCommand(options: RunCommandOptions): Promise<CommandResult> {
+      const params = { cmd: options.cmd, args: options.args, env: options.env };
+
+      if (options.detached) {
+        const command = await sandbox.runCommand({ ...params, detached: true });
+        return {
+          exitCode: null,
+          stdout: () => command.stdout(),
+          stderr: () => command.stderr(),
+        };
+      }
+
+      const finished = await sandbox.runCommand(params);
+      return {
+        exitCode: finished.exitCode,
+        stdout: () => finished.stdout(),
+        stderr: () => finished.stderr(),
+      };
+    },
+
+    domain(port: number): string {
+      return sandbox.domain(port);
+    },
+
+    extendTimeout(durationMs: number): Promise<void> {
+      return sandbox.extendTimeout(durationMs);
+    },
+
+    stop(): Promise<void> {
+      return sandbox.stop();
+    },
+
+    async snapshot(): Promise<string> {
+      const snapshot = await sandbox.snapshot();
+      return snapshot.snapshotId;
+    },
+  };
+}
@@ -0,0 +1,472 @@
+/**
+ * The agent-config.json format, as read by the agent bundle at runtime.
+ *
+ * The orchestrator reads the same file and adds its own keys on top (see
+ * orchestrator/config-schema.ts); both validate against a schema built
+ * from agentConfigProperties.
+ */
+import { listModalities } from "./modalities.js";
+import {
+  BASE_METADATA_REQUIRED,
+  RESPONSE_FLAGS,
+  type OutputSchemaExtension,
+} from "./response-schema.js";
+import type { ToolPolicy } from "./tool-policy.js";
+import { validate, type Schema, type ValidationResult } from "./validation.js";
+
+/** MCP server definitions, as accepted by the Agent SDK */
+export type McpServerSpec =
+  | { type?: "stdio"; command: string; args?: string[]; env?: Record<string, string> }
+  | { type: "sse"; url: string; headers?: Record<string, string> }
+  | { type: "http"; url: string; headers?: Record<string, string> };
+
+// Per-modality runtime settings (extensible structure)
+export interface ToolSettings {
+  allowedTools?: string[];
+  disabledTools?: string[];
+}
+
+export interface McpSettingsOverride {
+  enabledServers?: string[];
+  disabledServers?: string[];
+}
+
+/** Limits on what a response may look like on a channel */
+export interface ResponseConstraints {
+  /** Responses longer than this are cut (the model is told the limit) */
+  maxLength?: number;
+  /** "plain" asks for text without Markdown */
+  format?: "plain" | "markdown";
+}
+
+export interface ModalityRuntimeSettings {
+  maxThinkingTokens?: number;
+  maxTurns?: number;
+  toolSettings?: ToolSettings;
+  mcpSettings?: McpSettingsOverride;
+  responseConstraints?: ResponseConstraints;
+}
+
+/** How requests are mapped onto the modalities an agent knows */
+export interface ModalityPolicy {
+  /** Other names for modalities, e.g. { "text": "sms" } */
+  aliases?: Record<string, string>;
+  /**
+   * A modality that is neither built in nor configured: "reject" fails
+   * the request, "fallback" (the default) runs it as `fallback`, or with
+   * the base settings when that isn't set
+   */
+  unknown?: "reject" | "fallback";
+  fallback?: string;
+}
+
+/** What a guardrail does when it triggers */
+export type GuardrailAction = "rewrite" | "block" | "flag";
+
+export const PII_TYPES = ["email", "phone", "card", "ssn", "iban"] as const;
+export type PiiType = (typeof PII_TYPES)[number];
+
+/**
+ * Checks on the customer's message and the agent's response (see
+ * agent-bundle/guardrails.ts). PII and internal path checks are on
+ * unless `enabled: false`; the others run when configured.
+ */
+export interface GuardrailSettings {
+  /**
+   * PII in the message and context fields, off unless set; "rewrite"
+   * (default) swaps it for tokens the response gets back
+   */
+  pii?: { enabled?: boolean; action?: GuardrailAction; types?: PiiType[] };
+  /** Longest message accepted, in characters; "rewrite" cuts it, "block" (default) refuses it */
+  maxMessageLength?: { limit: number; action?: "rewrite" | "block" };
+  /** Phrases the response must not contain, case-insensitive; "block" by default */
+  blockedPhrases?: { phrases: string[]; action?: GuardrailAction; replacement?: string };
+  /** Sandbox file paths in the response; "rewrite" (default) removes them */
+  internalPaths?: { enabled?: boolean; action?: GuardrailAction };
+  /** Text every response must end with, by modality; "*" applies to the rest */
+  disclaimers?: Record<string, string>;
+  /** Sent instead of a response an output guardrail blocks */
+  blockedResponse?: string;
+}
+
+// Agent configuration loaded from agent-config.json (generated at deploy time)
+export interface AgentConfig {
+  allowedTools: string[];
+  mcpServers: Record<string, McpServerSpec>;
+  additionalInstructions: string;
+  maxTurns: number;
+  // Per-modality overrides of the registry's defaults (see shared/modalities.ts);
+  // any key is a modality
+  modalitySettings?: Record<string, ModalityRuntimeSettings>;
+  modalityPolicy?: ModalityPolicy;
+  // Extra flags and metadata fields of the structured output
+  outputSchema?: OutputSchemaExtension;
+  guardrails?: GuardrailSettings;
+  // Checks on each tool call beyond allowedTools (see shared/tool-policy.ts)
+  toolPolicy?: ToolPolicy;
+}
+
+/** Built-in Claude Code tools; anything else must be an MCP tool */
+export const KNOWN_TOOLS = [
+  "Bash",
+  "BashOutput",
+  "Edit",
+  "ExitPlanMode",
+  "Glob",
+  "Grep",
+  "KillShell",
+  "ListMcpResources",
+  "MultiEdit",
+  "NotebookEdit",
+  "Read",
+  "ReadMcpResource",
+  "Skill",
+  "SlashCommand",
+  "Task",
+  "TodoWrite",
+  "WebFetch",
+  "WebSearch",
+  "Write",
+] as const;
+
+const stringList: Schema = { type: "array", items: { type: "string", minLength: 1 } };
+const stringMap: Schema = { type: "record", values: { type: "string" } };
+
+const mcpServerSchema: Schema = {
+  type: "variant",
+  discriminator: "type",
+  defaultVariant: "stdio",
+  variants: {
+    stdio: {
+      type: "object",
+      properties: {
+        type: { type: "string" },
+        command: { type: "string", minLength: 1 },
+        args: stringList,
+        env: stringMap,
+      },
+      required: ["command"],
+    },
+    sse: {
+      type: "object",
+      properties: {
+        type: { type: "string" },
+        url: { type: "string", minLength: 1 },
+        headers: stringMap,
+      },
+      required: ["url"],
+    },
+    http: {
+      type: "object",
+      properties: {
+        type: { type: "string" },
+        url: { type: "string", minLength: 1 },
+        headers: stringMap,
+      },
+      required: ["url"],
+    },
+  },
+};
+
+const modalityRuntimeSettingsSchema: Schema = {
+  type: "object",
+  properties: {
+    maxThinkingTokens: { type: "number", integer: true, min: 0 },
+    maxTurns: { type: "number", integer: true, min: 1 },
+    toolSettings: {
+      type: "object",
+      properties: { allowedTools: stringList, disabledTools: stringList },
+    },
+    mcpSettings: {
+      type: "object",
+      properties: { enabledServers: stringList, disabledServers: stringList },
+    },
+    responseConstraints: {
+      type: "object",
+      properties: {
+        maxLength: { type: "number", integer: true, min: 1 },
+        format: { type: "string", enum: ["plain", "markdown"] },
+      },
+    },
+  },
+};
+
+// One metadata property of outputSchema: a subset of JSON Schema, nesting
+// through items and properties
+const outputPropertySchema: Schema & { type: "object" } = {
+  type: "object",
+  properties: {
+    type: {
+      type: "string",
+      enum: ["string", "number", "integer", "boolean", "array", "object"],
+    },
+    description: { type: "string" },
+    enum: stringList,
+    required: stringList,
+  },
+  required: ["type"],
+};
+outputPropertySchema.properties.items = outputPropertySchema;
+outputPropertySchema.properties.properties = { type: "record", values: outputPropertySchema };
+
+const guardrailActionSchema: Schema = { type: "string", enum: ["rewrite", "block", "flag"] };
+
+const guardrailsSchema: Schema = {
+  type: "object",
+  properties: {
+    pii: {
+      type: "object",
+      properties: {
+        enabled: { type: "boolean" },
+        action: guardrailActionSchema,
+        types: { type: "array", items: { type: "string", enum: PII_TYPES } },
+      },
+    },
+    maxMessageLength: {
+      type: "object",
+      properties: {
+        limit: { type: "number", integer: true, min: 1 },
+        action: { type: "string", enum: ["rewrite", "block"] },
+      },
+      required: ["limit"],
+    },
+    blockedPhrases: {
+      type: "object",
+      properties: {
+        phrases: stringList,
+        action: guardrailActionSchema,
+        replacement: { type: "string" },
+      },
+      required: ["phrases"],
+    },
+    internalPaths: {
+      type: "object",
+      properties: { enabled: { type: "boolean" }, action: guardrailActionSchema },
+    },
+    disclaimers: stringMap,
+    blockedResponse: { type: "string", minLength: 1 },
+  },
+};
+
+const toolPolicySchema: Schema = {
+  type: "object",
+  properties: {
+    default: { type: "string", enum: ["allow", "deny"] },
+    rules: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          tool: { type: "string", minLength: 1 },
+          effect: { type: "string", enum: ["allow", "deny"] },
+          paths: stringList,
+          commands: stringList,
+          input: stringMap,
+          reason: { type: "string", minLength: 1 },
+        },
+        required: ["tool"],
+      },
+    },
+    maxCallsPerTool: { type: "record", values: { type: "number", integer: true, min: 0 } },
+  },
+};
+
+/** Schema properties of the runtime keys */
+export const agentConfigProperties: Record<string, Schema> = {
+  allowedTools: stringList,
+  mcpServers: { type: "record", values: mcpServerSchema },
+  additionalInstructions: { type: "string" },
+  maxTurns: { type: "number", integer: true, min: 1 },
+  modalitySettings: { type: "record", values: modalityRuntimeSettingsSchema },
+  modalityPolicy: {
+    type: "object",
+    properties: {
+      aliases: stringMap,
+      unknown: { type: "string", enum: ["reject", "fallback"] },
+      fallback: { type: "string", minLength: 1 },
+    },
+  },
+  outputSchema: {
+    type: "object",
+    properties: {
+      flags: stringList,
+      metadataProperties: { type: "record", values: outputPropertySchema },
+      requiredMetadata: stringList,
+      repairAttempts: { type: "number", integer: true, min: 0, max: 5 },
+    },
+  },
+  guardrails: guardrailsSchema,
+  toolPolicy: toolPolicySchema,
+};
+
+export const AGENT_CONFIG_REQUIRED_KEYS = [
+  "allowedTools",
+  "mcpServers",
+  "additionalInstructions",
+  "maxTurns",
+] as const;
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Whether a tool name is a built-in tool (optionally with a permission
+ * rule, e.g. `Bash(git:*)`) or an MCP tool of a declared server.
+ */
+function checkToolName(name: string, mcpServers: Set<string>): string | null {
+  const baseName = name.replace(/\(.*\)$/, "");
+  if ((KNOWN_TOOLS as readonly string[]).includes(baseName)) return null;
+
+  const mcpMatch = /^mcp__(.+?)(?:__.+)?$/.exec(baseName);
+  if (mcpMatch) {
+    return mcpServers.has(mcpMatch[1])
+      ? null
+      : `MCP tool "${name}" refers to undeclared server "${mcpMatch[1]}"`;
+  }
+  return `unknown tool "${name}"`;
+}
+
+/**
+ * Cross-field checks the schema can't express: tool names, MCP server
+ * and modality references. Reported as warnings.
+ */
+function checkReferences(config: Record<string, unknown>, result: ValidationResult): void {
+  const mcpServers = new Set(
+    typeof config.mcpServers === "object" && config.mcpServers !== null
+      ? Object.keys(config.mcpServers)
+      : []
+  );
+  const warnTools = (tools: unknown, path: string) => {
+    if (!Array.isArray(tools)) return;
+    tools.forEach((tool, i) => {
+      if (typeof tool !== "string") return;
+      const problem = checkToolName(tool, mcpServers);
+      if (problem) result.warnings.push({ path: `${path}[${i}]`, message: problem });
+    });
+  };
+  const warnServers = (servers: unknown, path: string) => {
+    if (!Array.isArray(servers)) return;
+    servers.forEach((server, i) => {
+      if (typeof server === "string" && !mcpServers.has(server)) {
+        result.warnings.push({
+          path: `${path}[${i}]`,
+          message: `MCP server "${server}" is not declared in mcpServers`,
+        });
+      }
+    });
+  };
+
+  warnTools(config.allowedTools, "allowedTools");
+
+  const modalities = new Set(
+    listModalities({
+      modalitySettings: isPlainObject(config.modalitySettings)
+        ? (config.modalitySettings as AgentConfig["modalitySettings"])
+        : undefined,
+    })
+  );
+  const policy = config.modalityPolicy as ModalityPolicy | undefined;
+  const warnModality = (name: unknown, path: string) => {
+    if (typeof name === "string" && !modalities.has(name)) {
+      result.warnings.push({
+        path,
+        message: `modality "${name}" is neither built in nor configured`,
+      });
+    }
+  };
+  const guardrails = config.guardrails as GuardrailSettings | undefined;
+  if (isPlainObject(guardrails) && isPlainObject(guardrails.disclaimers)) {
+    for (const modality of Object.keys(guardrails.disclaimers)) {
+      if (modality !== "*") warnModality(modality, `guardrails.disclaimers.${modality}`);
+    }
+  }
+  if (isPlainObject(policy)) {
+    warnModality(policy.fallback, "modalityPolicy.fallback");
+    if (isPlainObject(policy.aliases)) {
+      for (const [alias, target] of Object.entries(policy.aliases)) {
+        warnModality(target, `modalityPolicy.aliases.${alias}`);
+      }
+    }
+  }
+
+  const modalitySettings = config.modalitySettings as
+    | Record<string, ModalityRuntimeSettings | undefined>
+    | undefined;
+  if (typeof modalitySettings !== "object" || modalitySettings === null) return;
+
+  for (const [modality, settings] of Object.entries(modalitySettings)) {
+    if (typeof settings !== "object" || settings === null) continue;
+    const base = `modalitySettings.${modality}`;
+    warnTools(settings.toolSettings?.allowedTools, `${base}.toolSettings.allowedTools`);
+    warnTools(settings.toolSettings?.disabledTools, `${base}.toolSettings.disabledTools`);
+    warnServers(settings.mcpSettings?.enabledServers, `${base}.mcpSettings.enabledServers`);
+    warnServers(settings.mcpSettings?.disabledServers, `${base}.mcpSettings.disabledServers`);
+  }
+}
+
+/**
+ * Keep the base structured output fields guaranteed: outputSchema may not
+ * replace a required base property, and may only require properties it
+ * declares. Reported as errors.
+ */
+function checkOutputSchema(config: Record<string, unknown>, result: ValidationResult): void {
+  const extension = config.outputSchema as OutputSchemaExtension | undefined;
+  if (!isPlainObject(extension)) return;
+
+  const properties = isPlainObject(extension.metadataProperties)
+    ? extension.metadataProperties
+    : {};
+  for (const name of Object.keys(properties)) {
+    if (BASE_METADATA_REQUIRED.includes(name)) {
+      result.errors.push({
+        path: `outputSchema.metadataProperties.${name}`,
+        message: `"${name}" is a required base field and can't be replaced`,
+      });
+    }
+  }
+  if (Array.isArray(extension.requiredMetadata)) {
+    extension.requiredMetadata.forEach((name, i) => {
+      if (typeof name === "string" && !(name in properties)) {
+        result.errors.push({
+          path: `outputSchema.requiredMetadata[${i}]`,
+          message: `"${name}" is not declared in outputSchema.metadataProperties`,
+        });
+      }
+    });
+  }
+  if (Array.isArray(extension.flags)) {
+    extension.flags.forEach((flag, i) => {
+      if ((RESPONSE_FLAGS as readonly unknown[]).includes(flag)) {
+        result.warnings.push({
+          path: `outputSchema.flags[${i}]`,
+          message: `"${flag}" is already a base flag`,
+        });
+      }
+    });
+  }
+}
+
+/**
+ * Validate a parsed agent-config.json. Pass extra properties to accept keys
+ * beyond the runtime ones (the orchestrator's settings). `partial` checks
+ * one layer of an inherited config: nothing is required and references
+ * are left to the resolved config.
+ */
+export function validateAgentConfig(
+  config: unknown,
+  extraProperties: Record<string, Schema> = {},
+  options: { partial?: boolean } = {}
+): ValidationResult {
+  const result = validate(config, {
+    type: "object",
+    properties: { ...agentConfigProperties, ...extraProperties },
+    required: options.partial ? [] : AGENT_CONFIG_REQUIRED_KEYS,
+  });
+  if (options.partial) return result;
+  if (typeof config === "object" && config !== null && !Array.isArray(config)) {
+    checkReferences(config as Record<string, unknown>, result);
+    checkOutputSchema(config as Record<string, unknown>, result);
+  }
+  return result;
+}
@@ -0,0 +1,24 @@
+/**
+ * Files customers send with a message. The orchestrator writes them into
+ * the sandbox under ATTACHMENTS_DIR and passes the agent an AttachmentFile
+ * for each; the agent may read that directory but never write to it.
+ */
+
+/** Directory attachments are written to, relative to the agent's directory */
+export const ATTACHMENTS_DIR = "attachments";
+
+/** An attachment as written into the sandbox */
+export interface AttachmentFile {
+  /** Sanitized file name, unique within the request */
+  filename: string;
+  contentType: string;
+  /** Size in bytes */
+  size: number;
+  /** Relative to the agent's directory, e.g. "attachments/<requestId>/screenshot.png" */
+  path: string;
+}
+
+/** Directory of one request's attachments */
+export function attachmentDirFor(requestId: string): string {
+  return `${ATTACHMENTS_DIR}/${requestId}`;
+}
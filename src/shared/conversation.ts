@@ -0,0 +1,38 @@
+/**
+ * Conversation history as returned by GET /conversations/:id on both the
+ * agent bundle and the orchestrator. The agent records a turn when it
+ * answers and sends the history along with the exported session, so the
+ * orchestrator can still serve it once the sandbox is gone.
+ */
+import type { ExtendedResponseMetadata } from "./response-schema.js";
+
+/** One answered customer message */
+export interface ConversationTurn {
+  requestId: string;
+  /** The customer's message as received, before guardrails */
+  message: string;
+  /** File names of the message's attachments */
+  attachments?: string[];
+  /** The final response sent to the customer */
+  response: string;
+  /** Tools the agent called, in order */
+  toolsUsed: string[];
+  metadata?: ExtendedResponseMetadata;
+  at: string;
+}
+
+export interface ConversationHistory {
+  conversationId: string;
+  /** SDK session the next turn resumes */
+  sessionId?: string;
+  /** Oldest first */
+  turns: ConversationTurn[];
+}
+
+/** What DELETE /conversations/:id removed */
+export interface ConversationErasure {
+  conversationId: string;
+  /** SDK sessions whose transcripts were deleted */
+  sessionIds: string[];
+  turns: number;
+}
@@ -0,0 +1,160 @@
+/**
+ * Error model shared by the orchestrator and the agent bundle.
+ *
+ * Every error response (and SSE `error` event) carries a stable `code`,
+ * whether retrying the same request can succeed, and the phase that failed.
+ * The agent's errors pass through the orchestrator unchanged.
+ */
+
+export type ErrorCode =
+  | "INVALID_REQUEST"
+  | "UNAUTHORIZED"
+  | "AGENT_NOT_FOUND"
+  | "CONFIG_INVALID"
+  | "BUNDLE_MISSING"
+  | "AGENT_BUSY"
+  | "CAPACITY_EXCEEDED"
+  | "SANDBOX_CREATE_FAILED"
+  | "SANDBOX_SETUP_FAILED"
+  | "HEALTH_TIMEOUT"
+  | "AGENT_UNAVAILABLE"
+  | "AGENT_MAX_TURNS"
+  | "AGENT_EXECUTION_FAILED"
+  | "STRUCTURED_OUTPUT_MISSING"
+  | "STRUCTURED_OUTPUT_INVALID"
+  | "GUARDRAIL_BLOCKED"
+  | "REQUEST_CANCELLED"
+  | "INTERNAL_ERROR";
+
+/** Where in the request lifecycle an error happened */
+export type ErrorPhase =
+  | "request"
+  | "config"
+  | "admission"
+  | "create"
+  | "writeFiles"
+  | "install"
+  | "serverStart"
+  | "healthPoll"
+  | "agent";
+
+/** HTTP status and default retryability per code */
+const ERROR_DEFINITIONS: Record<ErrorCode, { status: number; retryable: boolean }> = {
+  INVALID_REQUEST: { status: 400, retryable: false },
+  UNAUTHORIZED: { status: 401, retryable: false },
+  AGENT_NOT_FOUND: { status: 404, retryable: false },
+  CONFIG_INVALID: { status: 422, retryable: false },
+  BUNDLE_MISSING: { status: 500, retryable: false },
+  AGENT_BUSY: { status: 429, retryable: true },
+  CAPACITY_EXCEEDED: { status: 503, retryable: true },
+  SANDBOX_CREATE_FAILED: { status: 502, retryable: true },
+  SANDBOX_SETUP_FAILED: { status: 502, retryable: true },
+  HEALTH_TIMEOUT: { status: 504, retryable: true },
+  AGENT_UNAVAILABLE: { status: 502, retryable: true },
+  AGENT_MAX_TURNS: { status: 422, retryable: false },
+  AGENT_EXECUTION_FAILED: { status: 500, retryable: true },
+  STRUCTURED_OUTPUT_MISSING: { status: 502, retryable: true },
+  STRUCTURED_OUTPUT_INVALID: { status: 502, retryable: true },
+  GUARDRAIL_BLOCKED: { status: 422, retryable: false },
+  REQUEST_CANCELLED: { status: 499, retryable: false },
+  INTERNAL_ERROR: { status: 500, retryable: false },
+};
+
+/** Wire format of an error, in response bodies and SSE `error` events */
+export interface ErrorBody {
+  error: string;
+  code: ErrorCode;
+  retryable: boolean;
+  phase?: ErrorPhase;
+  details?: Record<string, unknown>;
+}
+
+export interface AppErrorOptions {
+  phase?: ErrorPhase;
+  /** Overrides the code's default */
+  retryable?: boolean;
+  details?: Record<string, unknown>;
+  /** Sent as a Retry-After header */
+  retryAfterSeconds?: number;
+  cause?: unknown;
+}
+
+export class AppError extends Error {
+  readonly code: ErrorCode;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly phase?: ErrorPhase;
+  readonly details?: Record<string, unknown>;
+  readonly retryAfterSeconds?: number;
+
+  constructor(code: ErrorCode, message: string, options: AppErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = "AppError";
+    this.code = code;
+    this.status = ERROR_DEFINITIONS[code].status;
+    this.retryable = options.retryable ?? ERROR_DEFINITIONS[code].retryable;
+    this.phase = options.phase;
+    this.details = options.details;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+  }
+
+  toJSON(): ErrorBody {
+    return {
+      error: this.message,
+      code: this.code,
+      retryable: this.retryable,
+      ...(this.phase && { phase: this.phase }),
+      ...(this.details && { details: this.details }),
+    };
+  }
+
+  /** Rebuild an error received from another service (e.g. the agent) */
+  static fromBody(body: ErrorBody): AppError {
+    return new AppError(body.code, body.error, {
+      phase: body.phase,
+      retryable: body.retryable,
+      details: body.details,
+    });
+  }
+}
+
+/**
+ * Normalize anything thrown into an AppError. Aborts become
+ * REQUEST_CANCELLED; everything else unrecognized is INTERNAL_ERROR.
+ */
+export function toAppError(error: unknown, phase?: ErrorPhase): AppError {
+  if (error instanceof AppError) return error;
+
+  const message = error instanceof Error ? error.message : "Unknown error";
+  if (error instanceof Error && error.name === "AbortError") {
+    return new AppError("REQUEST_CANCELLED", message, { phase, cause: error });
+  }
+  return new AppError("INTERNAL_ERROR", message, { phase, cause: error });
+}
+
+/** Whether a parsed JSON body is an ErrorBody */
+export function isErrorBody(value: unknown): value is ErrorBody {
+  return (
+    typeof value === "object" &&
+    value !== null &&
+    typeof (value as ErrorBody).error === "string" &&
+    typeof (value as ErrorBody).code === "string" &&
+    (value as ErrorBody).code in ERROR_DEFINITIONS
+  );
+}
+
+/** An error as an HTTP response, with Retry-After when known */
+export function errorResponse(
+  error: AppError,
+  extra: Record<string, unknown> = {}
+): Response {
+  return Response.json(
+    { ...extra, ...error.toJSON() },
+    {
+      status: error.status,
+      headers: error.retryAfterSeconds
+        ? { "Retry-After": String(error.retryAfterSeconds) }
+        : undefined,
+    }
+  );
+}
@@ -0,0 +1,110 @@
+/**
+ * The JSON Schema subset used for structured output: types, enums, nested
+ * objects and arrays. One schema literal gives both the schema sent to the
+ * model (as-is) and its TypeScript type (FromSchema), and output is checked
+ * against it at runtime (validateJsonSchema).
+ */
+import type { ValidationIssue } from "./validation.js";
+
+export interface JsonSchema {
+  type: "string" | "number" | "integer" | "boolean" | "array" | "object";
+  description?: string;
+  enum?: readonly string[];
+  items?: JsonSchema;
+  properties?: { readonly [name: string]: JsonSchema };
+  required?: readonly string[];
+}
+
+type Simplify<T> = { [K in keyof T]: T[K] } & {};
+
+type ObjectFromSchema<P, R extends PropertyKey> = Simplify<
+  { -readonly [K in keyof P & R]: FromSchema<P[K]> } & {
+    -readonly [K in Exclude<keyof P, R>]?: FromSchema<P[K]>;
+  }
+>;
+
+/** The TypeScript type of values matching a schema literal (`as const`) */
+export type FromSchema<S> = S extends { type: "string"; enum: readonly (infer E)[] }
+  ? E
+  : S extends { type: "string" }
+    ? string
+    : S extends { type: "number" | "integer" }
+      ? number
+      : S extends { type: "boolean" }
+        ? boolean
+        : S extends { type: "array"; items: infer I }
+          ? FromSchema<I>[]
+          : S extends { type: "object"; properties: infer P }
+            ? ObjectFromSchema<P, S extends { required: readonly (infer R)[] } ? R & PropertyKey : never>
+            : S extends { type: "object" }
+              ? { [key: string]: unknown }
+              : unknown;
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/**
+ * Check a value against a schema, returning every problem with its path.
+ * Properties the schema doesn't declare are allowed, as in JSON Schema.
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = ""
+): ValidationIssue[] {
+  const fail = (message: string): ValidationIssue[] => [{ path: path || "(root)", message }];
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") return fail(`expected string, got ${describe(value)}`);
+      if (schema.enum && !schema.enum.includes(value)) {
+        return fail(`expected one of ${schema.enum.join(", ")}, got "${value}"`);
+      }
+      return [];
+
+    case "number":
+    case "integer":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return fail(`expected number, got ${describe(value)}`);
+      }
+      if (schema.type === "integer" && !Number.isInteger(value)) {
+        return fail(`expected an integer, got ${value}`);
+      }
+      return [];
+
+    case "boolean":
+      return typeof value === "boolean" ? [] : fail(`expected boolean, got ${describe(value)}`);
+
+    case "array":
+      if (!Array.isArray(value)) return fail(`expected array, got ${describe(value)}`);
+      if (!schema.items) return [];
+      return value.flatMap((item, i) => validateJsonSchema(item, schema.items!, childPath(path, i)));
+
+    case "object": {
+      if (typeof value !== "object" || value === null || Array.isArray(value)) {
+        return fail(`expected object, got ${describe(value)}`);
+      }
+      const record = value as Record<string, unknown>;
+      const issues: ValidationIssue[] = [];
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) {
+          issues.push({ path: childPath(path, key), message: "is required" });
+        }
+      }
+      for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) {
+          issues.push(...validateJsonSchema(record[key], propertySchema, childPath(path, key)));
+        }
+      }
+      return issues;
+    }
+  }
+}
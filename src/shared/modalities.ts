@@ -0,0 +1,189 @@
+/**
+ * Modality registry, shared by the orchestrator and the agent bundle.
+ *
+ * Each built-in modality declares its defaults: limits, tool and MCP
+ * overrides, constraints on the response and its scheduling priority.
+ * An agent's `modalitySettings` override these per key, and may define
+ * modalities of its own under any name. `modalityPolicy` decides what
+ * happens to requests whose modality is neither.
+ */
+import { AppError } from "./errors.js";
+import type {
+  AgentConfig,
+  ModalityPolicy,
+  ModalityRuntimeSettings,
+  ResponseConstraints,
+} from "./agent-config.js";
+
+export interface ModalityDefinition extends ModalityRuntimeSettings {
+  /** Queue priority when sandboxes are saturated; lower runs first */
+  priority: number;
+}
+
+/** Thinking budget when neither the modality nor the agent sets one */
+export const DEFAULT_MAX_THINKING_TOKENS = 10000;
+
+/** Priority of modalities without a definition (ranks with chat) */
+export const DEFAULT_MODALITY_PRIORITY = 1;
+
+// maxTurns here caps the agent's own maxTurns instead of replacing it
+export const BUILTIN_MODALITIES: Readonly<Record<string, ModalityDefinition>> = {
+  voice: {
+    priority: 0,
+    maxTurns: 10,
+    maxThinkingTokens: 5000,
+    responseConstraints: { format: "plain" },
+  },
+  chat: {
+    priority: 1,
+    maxTurns: 15,
+    maxThinkingTokens: 5000,
+  },
+  sms: {
+    priority: 1,
+    maxTurns: 10,
+    maxThinkingTokens: 3000,
+    // Three concatenated SMS segments
+    responseConstraints: { maxLength: 459, format: "plain" },
+  },
+  whatsapp: {
+    priority: 1,
+    maxTurns: 15,
+    maxThinkingTokens: 5000,
+    responseConstraints: { maxLength: 4096, format: "plain" },
+  },
+  email: {
+    priority: 2,
+  },
+};
+
+/** A request's modality after aliases and the unknown-modality policy */
+export interface ResolvedModality {
+  /** Modality whose settings apply; undefined runs with the base settings */
+  name?: string;
+  /** The modality the request asked for */
+  requested?: string;
+}
+
+/** Effective settings of an agent for one modality */
+export interface EffectiveModalitySettings {
+  maxTurns: number;
+  maxThinkingTokens: number;
+  allowedTools: string[];
+  /** Names of the agent's MCP servers to start */
+  mcpServers: string[];
+  responseConstraints: ResponseConstraints;
+}
+
+export function getModalityDefinition(
+  name: string | undefined
+): ModalityDefinition | undefined {
+  return name && Object.hasOwn(BUILTIN_MODALITIES, name) ? BUILTIN_MODALITIES[name] : undefined;
+}
+
+/** Modalities an agent accepts: the built-ins plus its own */
+export function listModalities(config: Pick<AgentConfig, "modalitySettings">): string[] {
+  const names = [
+    ...Object.keys(BUILTIN_MODALITIES),
+    ...Object.keys(config.modalitySettings ?? {}),
+  ];
+  return [...new Set(names)].sort();
+}
+
+/**
+ * Map a request's modality onto one the agent knows, following
+ * `modalityPolicy`. Throws INVALID_REQUEST when the policy rejects it.
+ */
+export function resolveModality(
+  config: Pick<AgentConfig, "modalitySettings" | "modalityPolicy">,
+  requested: string | undefined
+): ResolvedModality {
+  if (!requested) return {};
+
+  const policy: ModalityPolicy = config.modalityPolicy ?? {};
+  const name = policy.aliases?.[requested] ?? requested;
+  if (listModalities(config).includes(name)) return { name, requested };
+
+  if (policy.unknown === "reject") {
+    throw new AppError(
+      "INVALID_REQUEST",
+      `Unsupported modality "${requested}". Expected one of: ${listModalities(config).join(", ")}`,
+      { phase: "request", details: { modality: requested } }
+    );
+  }
+  return { name: policy.fallback, requested };
+}
+
+/**
+ * Apply a modality's settings to an agent's base config: the agent's own
+ * `modalitySettings` entry wins over the registry's defaults, key by key.
+ */
+export function getEffectiveModalitySettings(
+  config: AgentConfig,
+  modality: string | undefined
+): EffectiveModalitySettings {
+  const builtin = getModalityDefinition(modality);
+  const own = modality ? config.modalitySettings?.[modality] : undefined;
+
+  const maxTurns =
+    own?.maxTurns ??
+    (builtin?.maxTurns !== undefined
+      ? Math.min(config.maxTurns, builtin.maxTurns)
+      : config.maxTurns);
+  const maxThinkingTokens =
+    own?.maxThinkingTokens ?? builtin?.maxThinkingTokens ?? DEFAULT_MAX_THINKING_TOKENS;
+  const toolSettings = { ...builtin?.toolSettings, ...own?.toolSettings };
+  const mcpSettings = { ...builtin?.mcpSettings, ...own?.mcpSettings };
+
+  let allowedTools = toolSettings.allowedTools ?? [...config.allowedTools];
+  if (toolSettings.disabledTools) {
+    const disabled = new Set(toolSettings.disabledTools);
+    allowedTools = allowedTools.filter((tool) => !disabled.has(tool));
+  }
+
+  let mcpServers = Object.keys(config.mcpServers);
+  if (mcpSettings.enabledServers) {
+    const enabled = new Set(mcpSettings.enabledServers);
+    mcpServers = mcpServers.filter((name) => enabled.has(name));
+  }
+  if (mcpSettings.disabledServers) {
+    const disabled = new Set(mcpSettings.disabledServers);
+    mcpServers = mcpServers.filter((name) => !disabled.has(name));
+  }
+
+  return {
+    maxTurns,
+    maxThinkingTokens,
+    allowedTools,
+    mcpServers,
+    responseConstraints: { ...builtin?.responseConstraints, ...own?.responseConstraints },
+  };
+}
+
+/** Instructions telling the model about a modality's response constraints */
+export function describeResponseConstraints(constraints: ResponseConstraints): string {
+  const rules: string[] = [];
+  if (constraints.maxLength !== undefined) {
+    rules.push(`Keep the response under ${constraints.maxLength} characters.`);
+  }
+  if (constraints.format === "plain") {
+    rules.push("Write plain text only: no Markdown, headings, tables or code blocks.");
+  }
+  return rules.join(" ");
+}
+
+/** Cut a response down to a modality's maxLength, at a word boundary when possible */
+export function enforceResponseConstraints(
+  response: string,
+  constraints: ResponseConstraints
+): { response: string; truncated: boolean } {
+  const { maxLength } = constraints;
+  if (maxLength === undefined || response.length <= maxLength) {
+    return { response, truncated: false };
+  }
+
+  const cut = response.slice(0, Math.max(0, maxLength - 1));
+  const wordBreak = cut.lastIndexOf(" ");
+  const trimmed = wordBreak > maxLength * 0.8 ? cut.slice(0, wordBreak) : cut;
+  return { response: `${trimmed.trimEnd()}…`, truncated: true };
+}
@@ -0,0 +1,361 @@
+/**
+ * Structured Output Schema for XO Agent
+ *
+ * This schema forces Claude to return responses in a structured format,
+ * separating customer-facing response text from internal metadata.
+ *
+ * Used with Claude Agent SDK's outputFormat parameter. Agents can extend it
+ * through the `outputSchema` key of agent-config.json (extra flags, extra
+ * or replaced metadata properties); the base fields stay guaranteed.
+ * Shared so the orchestrator can type the extra fields it receives.
+ *
+ * The TypeScript types below are derived from responseJsonSchema, so the
+ * two can't drift; validateAgentResponse checks output against the schema
+ * plus the flag rules the schema can only describe (FLAG_REQUIREMENTS).
+ */
+import type { GuardrailAction } from "./agent-config.js";
+import { validateJsonSchema, type FromSchema, type JsonSchema } from "./json-schema.js";
+import type { ValidationIssue } from "./validation.js";
+
+/**
+ * Flag types for response metadata
+ */
+export const RESPONSE_FLAGS = [
+  "NO_GUIDE_FOUND",
+  "NEEDS_ESCALATION",
+  "SENSITIVE_TOPIC",
+  "MULTIPLE_ISSUES",
+  "PII_DETECTED",
+] as const;
+
+export type ResponseFlag = (typeof RESPONSE_FLAGS)[number];
+
+/**
+ * Customer emotional state the model is asked to detect (free text is
+ * accepted too)
+ */
+export type EmotionalState =
+  | "frustrated"
+  | "confused"
+  | "neutral"
+  | "happy"
+  | "angry"
+  | "anxious";
+
+// ============================================================================
+// JSON Schema for Claude Agent SDK outputFormat
+// ============================================================================
+
+/**
+ * JSON Schema definition for structured output.
+ * Used with Claude Agent SDK's outputFormat parameter.
+ */
+export const responseJsonSchema = {
+  type: "object",
+  required: ["response", "metadata"],
+  properties: {
+    response: {
+      type: "string",
+      description:
+        "The customer-facing response text. This is the ONLY text the customer will see. Do not include any internal notes, reasoning, or metadata here.",
+    },
+    metadata: {
+      type: "object",
+      required: ["confidence", "guidesUsed", "customerAnalysis", "flags"],
+      properties: {
+        confidence: {
+          type: "string",
+          enum: ["high", "medium", "low"],
+          description:
+            "high: clear guide match with direct answer, medium: partial match or adapted response, low: no matching guide found",
+        },
+        guidesUsed: {
+          type: "array",
+          items: { type: "string" },
+          description:
+            "File paths of guides consulted (e.g., 'guides/password-reset.md')",
+        },
+        customerAnalysis: {
+          type: "object",
+          required: ["emotionalState", "issuesIdentified"],
+          properties: {
+            emotionalState: {
+              type: "string",
+              description:
+                "Detected from customer message: frustrated, confused, neutral, happy, angry, anxious",
+            },
+            issuesIdentified: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "Distinct issues or questions from customer message (e.g., ['password reset', 'account locked'])",
+            },
+          },
+        },
+        flags: {
+          type: "object",
+          required: ["list"],
+          properties: {
+            list: {
+              type: "array",
+              items: {
+                type: "string",
+                enum: RESPONSE_FLAGS,
+              },
+              description: "Flags for review and routing decisions",
+            },
+            escalationReason: {
+              type: "string",
+              description:
+                "REQUIRED when NEEDS_ESCALATION in list. Why escalation is needed based on configured escalation rules.",
+            },
+            suggestedGuide: {
+              type: "string",
+              description:
+                "RECOMMENDED when NO_GUIDE_FOUND in list. Suggested guide path that should be created.",
+            },
+            sensitiveTopicsDetected: {
+              type: "array",
+              items: { type: "string" },
+              description:
+                "REQUIRED when SENSITIVE_TOPIC in list. Which sensitive topics were detected.",
+            },
+          },
+        },
+        qualityChecks: {
+          type: "object",
+          description: "Self-assessment against QA criteria from qa-rubric.md",
+          properties: {
+            allIssuesAddressed: {
+              type: "boolean",
+              description: "All customer issues addressed in response",
+            },
+            toneMatchesEmotionalState: {
+              type: "boolean",
+              description: "Response tone matches customer emotional state",
+            },
+            hasNextSteps: {
+              type: "boolean",
+              description: "Response includes clear next steps",
+            },
+            followsBrandVoice: {
+              type: "boolean",
+              description: "Response follows brand voice guidelines",
+            },
+          },
+        },
+      },
+    },
+  },
+} as const satisfies JsonSchema;
+
+// ============================================================================
+// TypeScript Types (derived from responseJsonSchema)
+// ============================================================================
+
+type SchemaMetadata = FromSchema<typeof responseJsonSchema>["metadata"];
+
+/**
+ * Confidence level for agent response
+ */
+export type ConfidenceLevel = SchemaMetadata["confidence"];
+
+/**
+ * Customer analysis extracted from message content
+ */
+export type CustomerAnalysis = SchemaMetadata["customerAnalysis"];
+
+/**
+ * Flags with conditional explanations. `Flag` adds an agent's own flags.
+ */
+export type ResponseFlags<Flag extends string = never> = Omit<SchemaMetadata["flags"], "list"> & {
+  /** List of flags applicable to this response */
+  list: Array<ResponseFlag | Flag>;
+};
+
+/**
+ * Self-assessment against QA criteria
+ */
+export type QualityChecks = NonNullable<SchemaMetadata["qualityChecks"]>;
+
+/** How the structured output fared against its schema, added by the agent */
+export interface OutputValidation {
+  valid: boolean;
+  /** Repair turns it took; 0 when the first output was valid */
+  repairAttempts: number;
+  /** Problems left after the last attempt */
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/** A guardrail that triggered on a request, added by the agent */
+export interface GuardrailOutcome {
+  /** Key of the guardrail under `guardrails` in agent-config.json */
+  guardrail: string;
+  /** "input" checks the customer's message, "output" the response */
+  stage: "input" | "output";
+  action: GuardrailAction;
+  /** What triggered it, without repeating the offending text */
+  detail: string;
+}
+
+/**
+ * Response metadata fields every agent returns
+ */
+export type BaseResponseMetadata<Flag extends string = never> = Omit<SchemaMetadata, "flags"> & {
+  /** Flags for review and routing decisions */
+  flags: ResponseFlags<Flag>;
+  /** Validation of the model's output (not produced by the model) */
+  outputValidation?: OutputValidation;
+  /** Guardrails that triggered on the message or response (not produced by the model) */
+  guardrails?: GuardrailOutcome[];
+  /** File names of the request's attachments the agent read (not produced by the model) */
+  attachmentsUsed?: string[];
+};
+
+/**
+ * Response metadata for analysis and routing. `Extra` holds the metadata
+ * properties and `Flag` the flags an agent's outputSchema adds, e.g.
+ * `ResponseMetadata<{ orderIds: string[] }, "REFUND_REQUESTED">`.
+ */
+export type ResponseMetadata<
+  Extra extends object = {},
+  Flag extends string = never,
+> = BaseResponseMetadata<Flag> & Extra;
+
+/** Metadata of a response whose agent's outputSchema isn't known statically */
+export type ExtendedResponseMetadata = ResponseMetadata<{ [key: string]: unknown }, string>;
+
+/**
+ * Complete structured agent response
+ */
+export interface AgentResponse<Extra extends object = {}, Flag extends string = never> {
+  /** Customer-facing response text - the ONLY text the customer will see */
+  response: string;
+  /** Internal metadata for analysis, tracing, and routing */
+  metadata: ResponseMetadata<Extra, Flag>;
+}
+
+/** A response whose agent's outputSchema isn't known statically */
+export type ExtendedAgentResponse = AgentResponse<{ [key: string]: unknown }, string>;
+
+/** The `outputSchema` key of agent-config.json */
+export interface OutputSchemaExtension {
+  /** Flags added to the base ones */
+  flags?: string[];
+  /**
+   * Metadata properties added, or replacing an optional base property
+   * (e.g. qualityChecks). Required base properties can't be replaced.
+   */
+  metadataProperties?: Record<string, JsonSchema>;
+  /** Properties of metadataProperties the model must always fill in */
+  requiredMetadata?: string[];
+  /** Times the agent is asked to fix invalid output (default 2, 0 disables) */
+  repairAttempts?: number;
+}
+
+/**
+ * Type helper to extract type from JSON schema
+ */
+export type ResponseJsonSchema = typeof responseJsonSchema;
+
+/** Metadata properties every response must have; outputSchema can't replace them */
+export const BASE_METADATA_REQUIRED: readonly string[] =
+  responseJsonSchema.properties.metadata.required;
+
+/**
+ * The structured output schema of an agent: the base schema with its
+ * outputSchema extension merged in. Without an extension this is
+ * responseJsonSchema itself.
+ */
+export function buildResponseJsonSchema(
+  extension: OutputSchemaExtension | undefined
+): JsonSchema {
+  if (!extension) return responseJsonSchema;
+
+  const base = responseJsonSchema.properties.metadata;
+  const extraProperties = Object.fromEntries(
+    Object.entries(extension.metadataProperties ?? {}).filter(
+      ([name]) => !BASE_METADATA_REQUIRED.includes(name)
+    )
+  );
+
+  return {
+    ...responseJsonSchema,
+    properties: {
+      ...responseJsonSchema.properties,
+      metadata: {
+        ...base,
+        required: [
+          ...new Set([...base.required, ...(extension.requiredMetadata ?? [])]),
+        ],
+        properties: {
+          ...base.properties,
+          ...extraProperties,
+          flags: {
+            ...base.properties.flags,
+            properties: {
+              ...base.properties.flags.properties,
+              list: {
+                ...base.properties.flags.properties.list,
+                items: {
+                  type: "string",
+                  enum: [...new Set([...RESPONSE_FLAGS, ...(extension.flags ?? [])])],
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  };
+}
+
+/** Repair turns when outputSchema doesn't set repairAttempts */
+export const DEFAULT_REPAIR_ATTEMPTS = 2;
+
+/**
+ * Explanations a flag needs in `metadata.flags`: required ones are errors
+ * when missing (and trigger a repair), recommended ones warnings.
+ */
+export const FLAG_REQUIREMENTS: Readonly<
+  Partial<Record<ResponseFlag, { field: keyof ResponseFlags; required: boolean }>>
+> = {
+  NEEDS_ESCALATION: { field: "escalationReason", required: true },
+  SENSITIVE_TOPIC: { field: "sensitiveTopicsDetected", required: true },
+  NO_GUIDE_FOUND: { field: "suggestedGuide", required: false },
+};
+
+function isBlank(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    (typeof value === "string" && value.trim() === "") ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Check structured output against an agent's schema (see
+ * buildResponseJsonSchema) and the conditional flag rules.
+ */
+export function validateAgentResponse(
+  output: unknown,
+  schema: JsonSchema
+): { errors: ValidationIssue[]; warnings: ValidationIssue[] } {
+  const errors = validateJsonSchema(output, schema);
+  const warnings: ValidationIssue[] = [];
+
+  const flags = (output as { metadata?: { flags?: Record<string, unknown> } } | null)?.metadata
+    ?.flags;
+  if (flags && Array.isArray(flags.list)) {
+    for (const [flag, rule] of Object.entries(FLAG_REQUIREMENTS)) {
+      if (!flags.list.includes(flag) || !isBlank(flags[rule.field])) continue;
+      (rule.required ? errors : warnings).push({
+        path: `metadata.flags.${rule.field}`,
+        message: `${rule.required ? "is required" : "is recommended"} when ${flag} is flagged`,
+      });
+    }
+  }
+  return { errors, warnings };
+}
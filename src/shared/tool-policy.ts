@@ -0,0 +1,289 @@
+/**
+ * Tool permission policy: the `toolPolicy` key of agent-config.json,
+ * enforced by the agent bundle in a PreToolUse hook, which sees every tool
+ * call (canUseTool does not).
+ *
+ * Each tool call is checked in order:
+ *
+ *   1. the tool must be in the request's allowedTools (after modality
+ *      overrides); `Bash(git:*)` entries also limit the command
+ *   2. a matching "deny" rule denies it
+ *   3. a matching "allow" rule allows it; otherwise `default` decides
+ *   4. maxCallsPerTool caps how often each tool runs per request
+ *
+ * Readable directories (the request's own attachments) are exempt from 1
+ * and 3 for reading tools; read-only directories (all attachments) are
+ * never written to, and read only where they hold a readable directory.
+ *
+ * Rule tool names and commands are globs where `*` matches anything.
+ * Compound Bash commands (`;`, `&&`, `||`, `|`, `$(...)`, backticks,
+ * newlines) are checked part by part: every part must be allowed, and a
+ * deny rule matching any part denies the call.
+ * Path globs are relative to the agent's directory; `*` stays within one
+ * path segment and `**` crosses them. Paths outside the directory only
+ * match absolute globs.
+ */
+import * as path from "path";
+
+export interface ToolPolicyRule {
+  /** Tool name, e.g. "Read" or "mcp__crm__*" */
+  tool: string;
+  /** "allow" (the default) or "deny" */
+  effect?: "allow" | "deny";
+  /** Globs for the file or directory a file tool works on */
+  paths?: string[];
+  /** Globs for Bash commands */
+  commands?: string[];
+  /** Globs for other string arguments by name, e.g. of MCP tools */
+  input?: Record<string, string>;
+  /** Told to the model when this rule denies a call */
+  reason?: string;
+}
+
+export interface ToolPolicy {
+  /** Decision for allowed tools no rule matches (default "allow") */
+  default?: "allow" | "deny";
+  rules?: ToolPolicyRule[];
+  /** Calls per request of each tool a pattern matches, e.g. { "WebFetch": 3, "*": 25 } */
+  maxCallsPerTool?: Record<string, number>;
+}
+
+/** One allow/deny decision, as written to the audit log */
+export interface ToolDecision {
+  toolName: string;
+  toolUseId: string;
+  decision: "allow" | "deny";
+  reason: string;
+  /** The path or command the call was checked against */
+  subject?: string;
+  at: string;
+}
+
+// Tools without side effects outside the request: structured output, the
+// todo list and the agent's own skills
+export const ALWAYS_ALLOWED_TOOLS = ["StructuredOutput", "TodoWrite", "Skill"];
+
+// Tools that only read the path they work on
+const READ_TOOLS = ["Read", "Glob", "Grep"];
+
+// Argument holding the path each file tool works on
+const PATH_ARGUMENTS: Record<string, string> = {
+  Read: "file_path",
+  Write: "file_path",
+  Edit: "file_path",
+  MultiEdit: "file_path",
+  NotebookEdit: "notebook_path",
+  Glob: "path",
+  Grep: "path",
+};
+
+function globToRegExp(glob: string, options: { paths?: boolean } = {}): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*" && options.paths) {
+      const slash = glob[i + 2] === "/";
+      source += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (char === "*") {
+      source += options.paths ? "[^/]*" : ".*";
+    } else if (char === "?") {
+      source += options.paths ? "[^/]" : ".";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function matchesGlob(value: string, glob: string, options: { paths?: boolean } = {}): boolean {
+  return globToRegExp(glob, options).test(value);
+}
+
+/**
+ * The path a file tool call works on: relative to `cwd` when inside it,
+ * absolute otherwise. Glob and Grep default to `cwd` itself (".").
+ */
+function callPath(
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): string | undefined {
+  const argument = PATH_ARGUMENTS[toolName];
+  if (!argument) return undefined;
+
+  const value = input[argument];
+  if (typeof value !== "string" || value === "") {
+    return toolName === "Glob" || toolName === "Grep" ? "." : undefined;
+  }
+  const absolute = path.resolve(cwd, value);
+  const relative = path.relative(cwd, absolute);
+  if (relative.startsWith("..") || path.isAbsolute(relative)) {
+    return absolute.split(path.sep).join("/");
+  }
+  return relative.split(path.sep).join("/") || ".";
+}
+
+/** Whether a call path is `dir` (relative to the agent's directory) or inside it */
+function isWithin(subject: string, dir: string): boolean {
+  return subject === dir || subject.startsWith(`${dir}/`);
+}
+
+function matchesPath(subject: string, glob: string): boolean {
+  // Relative globs never reach outside the agent's directory
+  if (subject.startsWith("/") !== glob.startsWith("/")) return false;
+  return matchesGlob(subject, glob, { paths: true });
+}
+
+/**
+ * The simple commands of a Bash command line, split on command separators,
+ * pipes and (command or process) substitution. Quoting is ignored, which
+ * can only split more than the shell would.
+ */
+function commandParts(command: string): string[] {
+  return command
+    .split(/\$\(|[<>]\(|[;&|\n`()]/)
+    .map((part) => part.trim())
+    .filter((part) => part !== "");
+}
+
+/** The path or command a call is checked against */
+function callSubject(
+  toolName: string,
+  input: Record<string, unknown>,
+  cwd: string
+): string | undefined {
+  if (toolName === "Bash") {
+    return typeof input.command === "string" ? input.command : undefined;
+  }
+  return callPath(toolName, input, cwd);
+}
+
+/**
+ * Whether an allowedTools entry covers a call: a tool name, an MCP server
+ * (`mcp__crm` covers its tools) or `Name(pattern)`, where a trailing `:*`
+ * means "starts with". Every part of a compound Bash command must match.
+ */
+function allowedBy(entry: string, toolName: string, subject: string | undefined): boolean {
+  const scoped = /^([^(]+)\((.*)\)$/.exec(entry);
+  if (scoped) {
+    if (scoped[1] !== toolName || subject === undefined) return false;
+    const pattern = scoped[2].endsWith(":*") ? `${scoped[2].slice(0, -2)}*` : scoped[2];
+    const parts = toolName === "Bash" ? commandParts(subject) : [subject];
+    return parts.length > 0 && parts.every((part) => matchesGlob(part, pattern));
+  }
+  return entry === toolName || (entry.startsWith("mcp__") && toolName.startsWith(`${entry}__`));
+}
+
+function ruleMatches(
+  rule: ToolPolicyRule,
+  toolName: string,
+  input: Record<string, unknown>,
+  subject: string | undefined
+): boolean {
+  if (!matchesGlob(toolName, rule.tool)) return false;
+  if (rule.paths) {
+    if (toolName === "Bash" || subject === undefined) return false;
+    if (!rule.paths.some((glob) => matchesPath(subject, glob))) return false;
+  }
+  if (rule.commands) {
+    if (toolName !== "Bash" || subject === undefined) return false;
+    const globs = rule.commands;
+    const matches = (command: string) => globs.some((glob) => matchesGlob(command, glob));
+    const parts = commandParts(subject);
+    const matched =
+      rule.effect === "deny"
+        ? matches(subject) || parts.some(matches)
+        : parts.length > 0 && parts.every(matches);
+    if (!matched) return false;
+  }
+  for (const [argument, glob] of Object.entries(rule.input ?? {})) {
+    const value = input[argument];
+    if (typeof value !== "string" || !matchesGlob(value, glob)) return false;
+  }
+  return true;
+}
+
+function describeRule(rule: ToolPolicyRule, index: number): string {
+  return `toolPolicy.rules[${index}] (${rule.effect ?? "allow"} ${rule.tool})`;
+}
+
+/**
+ * Decide one tool call. `callCounts` holds the calls of each tool allowed
+ * so far in the request; the caller updates it.
+ */
+export function evaluateToolCall(
+  toolName: string,
+  input: Record<string, unknown>,
+  context: {
+    policy: ToolPolicy;
+    allowedTools: string[];
+    cwd: string;
+    callCounts: ReadonlyMap<string, number>;
+    /** Directories relative to `cwd` that are never written, nor read outside readableDirs */
+    readOnlyDirs?: string[];
+    /** Directories relative to `cwd` that reading tools may always read */
+    readableDirs?: string[];
+  }
+): { decision: "allow" | "deny"; reason: string; subject?: string } {
+  const { policy, allowedTools, cwd, callCounts, readOnlyDirs = [], readableDirs = [] } = context;
+  const subject = callSubject(toolName, input, cwd);
+
+  if (ALWAYS_ALLOWED_TOOLS.includes(toolName)) {
+    return { decision: "allow", reason: "always allowed", subject };
+  }
+  const containing = (dirs: string[]) =>
+    toolName !== "Bash" && subject !== undefined
+      ? dirs.find((dir) => isWithin(subject, dir))
+      : undefined;
+  const reading = READ_TOOLS.includes(toolName);
+  const readOnlyDir = containing(readOnlyDirs);
+  if (readOnlyDir !== undefined && !reading) {
+    return { decision: "deny", reason: `${readOnlyDir} is read-only`, subject };
+  }
+  const readableDir = reading ? containing(readableDirs) : undefined;
+  const readingReadable = readableDir !== undefined;
+  if (readOnlyDir !== undefined && !readingReadable) {
+    const reason = `${subject} is outside the readable part of ${readOnlyDir}`;
+    return { decision: "deny", reason, subject };
+  }
+  if (!readingReadable && !allowedTools.some((entry) => allowedBy(entry, toolName, subject))) {
+    return { decision: "deny", reason: `${toolName} is not in allowedTools`, subject };
+  }
+
+  const rules = policy.rules ?? [];
+  const denyIndex = rules.findIndex(
+    (rule) => rule.effect === "deny" && ruleMatches(rule, toolName, input, subject)
+  );
+  if (denyIndex !== -1) {
+    const rule = rules[denyIndex];
+    const reason = rule.reason ?? `denied by ${describeRule(rule, denyIndex)}`;
+    return { decision: "deny", reason, subject };
+  }
+
+  const allowIndex = rules.findIndex(
+    (rule) => rule.effect !== "deny" && ruleMatches(rule, toolName, input, subject)
+  );
+  if (allowIndex === -1 && policy.default === "deny" && !readingReadable) {
+    return { decision: "deny", reason: `no toolPolicy rule allows ${toolName}`, subject };
+  }
+
+  const calls = callCounts.get(toolName) ?? 0;
+  for (const [pattern, limit] of Object.entries(policy.maxCallsPerTool ?? {})) {
+    if (matchesGlob(toolName, pattern) && calls >= limit) {
+      return {
+        decision: "deny",
+        reason: `${toolName} reached its limit of ${limit} calls per request`,
+        subject,
+      };
+    }
+  }
+
+  const reason =
+    allowIndex !== -1
+      ? `allowed by ${describeRule(rules[allowIndex], allowIndex)}`
+      : readingReadable
+        ? `reading ${readableDir}`
+        : "allowed by default";
+  return { decision: "allow", reason, subject };
+}
@@ -0,0 +1,167 @@
+/**
+ * Minimal JSON schema checker for config files.
+ *
+ * Schemas are plain objects describing the expected shape. Validation
+ * collects every problem with the path it was found at (e.g.
+ * `modalitySettings.voice.toolSettings.allowedTools[2]`) instead of
+ * stopping at the first. Keys a schema doesn't declare are warnings, not
+ * errors, so newer configs still load on older deployments.
+ */
+
+export type Schema =
+  | { type: "string"; enum?: readonly string[]; minLength?: number }
+  | { type: "number"; integer?: boolean; min?: number; max?: number }
+  | { type: "boolean" }
+  | { type: "array"; items: Schema }
+  | {
+      type: "object";
+      properties: Record<string, Schema>;
+      required?: readonly string[];
+    }
+  /** An object with arbitrary keys, all holding the same shape */
+  | { type: "record"; values: Schema }
+  /** Object variants picked by a string field, e.g. MCP server `type` */
+  | {
+      type: "variant";
+      discriminator: string;
+      /** Variant used when the discriminator field is absent */
+      defaultVariant?: string;
+      variants: Record<string, Schema & { type: "object" }>;
+    };
+
+/** One problem found in a config, with the path it was found at */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+export interface ValidationResult {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+function describe(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function childPath(parent: string, key: string | number): string {
+  if (typeof key === "number") return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+function check(
+  value: unknown,
+  schema: Schema,
+  path: string,
+  result: ValidationResult
+): void {
+  const fail = (message: string): void => {
+    result.errors.push({ path: path || "(root)", message });
+  };
+
+  switch (schema.type) {
+    case "string":
+      if (typeof value !== "string") {
+        return fail(`expected string, got ${describe(value)}`);
+      }
+      if (schema.enum && !schema.enum.includes(value)) {
+        return fail(`expected one of ${schema.enum.join(", ")}, got "${value}"`);
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        return fail(`must be at least ${schema.minLength} characters`);
+      }
+      return;
+
+    case "number":
+      if (typeof value !== "number" || Number.isNaN(value)) {
+        return fail(`expected number, got ${describe(value)}`);
+      }
+      if (schema.integer && !Number.isInteger(value)) {
+        return fail(`expected an integer, got ${value}`);
+      }
+      if (schema.min !== undefined && value < schema.min) {
+        return fail(`must be >= ${schema.min}, got ${value}`);
+      }
+      if (schema.max !== undefined && value > schema.max) {
+        return fail(`must be <= ${schema.max}, got ${value}`);
+      }
+      return;
+
+    case "boolean":
+      if (typeof value !== "boolean") {
+        return fail(`expected boolean, got ${describe(value)}`);
+      }
+      return;
+
+    case "array":
+      if (!Array.isArray(value)) {
+        return fail(`expected array, got ${describe(value)}`);
+      }
+      value.forEach((item, i) => check(item, schema.items, childPath(path, i), result));
+      return;
+
+    case "record":
+      if (!isPlainObject(value)) {
+        return fail(`expected object, got ${describe(value)}`);
+      }
+      for (const [key, item] of Object.entries(value)) {
+        check(item, schema.values, childPath(path, key), result);
+      }
+      return;
+
+    case "object": {
+      if (!isPlainObject(value)) {
+        return fail(`expected object, got ${describe(value)}`);
+      }
+      for (const key of schema.required ?? []) {
+        if (value[key] === undefined) {
+          result.errors.push({ path: childPath(path, key), message: "is required" });
+        }
+      }
+      for (const [key, item] of Object.entries(value)) {
+        const propertySchema = schema.properties[key];
+        if (!propertySchema) {
+          result.warnings.push({ path: childPath(path, key), message: "unknown key" });
+        } else if (item !== undefined) {
+          check(item, propertySchema, childPath(path, key), result);
+        }
+      }
+      return;
+    }
+
+    case "variant": {
+      if (!isPlainObject(value)) {
+        return fail(`expected object, got ${describe(value)}`);
+      }
+      const tag = value[schema.discriminator] ?? schema.defaultVariant;
+      const variant = typeof tag === "string" ? schema.variants[tag] : undefined;
+      if (!variant) {
+        result.errors.push({
+          path: childPath(path, schema.discriminator),
+          message: `expected one of ${Object.keys(schema.variants).join(", ")}, got ${JSON.stringify(tag)}`,
+        });
+        return;
+      }
+      check(value, variant, path, result);
+      return;
+    }
+  }
+}
+
+/** Check a value against a schema, collecting all errors and warnings */
+export function validate(value: unknown, schema: Schema): ValidationResult {
+  const result: ValidationResult = { errors: [], warnings: [] };
+  check(value, schema, "", result);
+  return result;
+}
+
+/** Render issues one per line, for logs and error messages */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map((issue) => `${issue.path}: ${issue.message}`).join("\n");
+}